@@ -1,13 +1,29 @@
-import { Component } from '@angular/core';
+import { Component, OnInit } from '@angular/core';
 import { TimelineComponent } from './components/timeline/timeline.component';
 import { ControlsComponent } from './components/controls/controls.component';
+import { MixerComponent } from './components/mixer/mixer.component';
+import { SessionRecoveryComponent } from './components/session-recovery/session-recovery.component';
+import { CommandPaletteComponent } from './components/command-palette/command-palette.component';
+import { AutosaveService } from './services/autosave.service';
 
 @Component({
   selector: 'app-root',
-  imports: [TimelineComponent, ControlsComponent],
+  imports: [
+    TimelineComponent,
+    ControlsComponent,
+    MixerComponent,
+    SessionRecoveryComponent,
+    CommandPaletteComponent
+  ],
   templateUrl: './app.html',
   styleUrl: './app.scss'
 })
-export class App {
+export class App implements OnInit {
   title = 'Music Masher';
+
+  constructor(private autosaveService: AutosaveService) {}
+
+  ngOnInit(): void {
+    this.autosaveService.start();
+  }
 }
@@ -0,0 +1,64 @@
+import { AudioClip, AudioTrack, Timeline } from '../models';
+import { History, TimelineCommand } from './history';
+import { AddTrackCommand, ClearTracksCommand, MoveTrackCommand, RemoveTrackCommand } from './timeline-commands';
+
+describe('History', () => {
+  let timeline: Timeline;
+  let history: History;
+  let track: AudioTrack;
+
+  function run(command: TimelineCommand): void {
+    command.execute(timeline);
+    history.record(command);
+  }
+
+  beforeEach(() => {
+    timeline = new Timeline();
+    history = new History();
+    track = new AudioTrack('loop', 'track_1');
+    track.addClip(new AudioClip(new File([], 'loop.wav')));
+    run(new AddTrackCommand(track));
+  });
+
+  it('should undo and redo a command', () => {
+    run(new RemoveTrackCommand('track_1'));
+    expect(timeline.tracks.length).toBe(0);
+
+    history.undo(timeline);
+    expect(timeline.tracks).toEqual([track]);
+
+    history.redo(timeline);
+    expect(timeline.tracks.length).toBe(0);
+  });
+
+  it('should clear the redo stack when a new command is recorded', () => {
+    run(new MoveTrackCommand('track_1', 0, 5));
+    history.undo(timeline);
+    expect(history.canRedo()).toBeTrue();
+
+    run(new MoveTrackCommand('track_1', 0, 2));
+    expect(history.canRedo()).toBeFalse();
+  });
+
+  it('should coalesce a group of moves into one step', () => {
+    history.beginGroup('Move Track');
+    run(new MoveTrackCommand('track_1', 0, 1));
+    run(new MoveTrackCommand('track_1', 1, 2));
+    run(new MoveTrackCommand('track_1', 2, 3));
+    history.endGroup();
+
+    expect(track.startTime).toBe(3);
+
+    history.undo(timeline);
+    expect(track.startTime).toBe(0);
+    expect(history.getUndoLabel()).toBe('Add Track');
+  });
+
+  it('should restore every track after undoing clear', () => {
+    run(new ClearTracksCommand());
+    expect(timeline.tracks.length).toBe(0);
+
+    history.undo(timeline);
+    expect(timeline.tracks).toEqual([track]);
+  });
+});
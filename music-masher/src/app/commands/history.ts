@@ -0,0 +1,140 @@
+import { Timeline } from '../models';
+
+/**
+ * A reversible edit to the timeline
+ */
+export interface TimelineCommand {
+  readonly label: string;
+  execute(timeline: Timeline): void;
+  undo(timeline: Timeline): void;
+
+  /**
+   * Absorb a following command of the same kind (e.g. successive drag positions).
+   * Returns true if the command was merged and need not be recorded separately.
+   */
+  mergeWith?(next: TimelineCommand): boolean;
+}
+
+/**
+ * Several commands recorded and undone as a single step
+ */
+export class CompositeCommand implements TimelineCommand {
+  readonly commands: TimelineCommand[] = [];
+
+  constructor(readonly label: string) {}
+
+  add(command: TimelineCommand): void {
+    const last = this.commands[this.commands.length - 1];
+    if (last?.mergeWith?.(command)) {
+      return;
+    }
+    this.commands.push(command);
+  }
+
+  isEmpty(): boolean {
+    return this.commands.length === 0;
+  }
+
+  execute(timeline: Timeline): void {
+    this.commands.forEach(command => command.execute(timeline));
+  }
+
+  undo(timeline: Timeline): void {
+    [...this.commands].reverse().forEach(command => command.undo(timeline));
+  }
+}
+
+/**
+ * Undo/redo stacks for timeline commands
+ */
+export class History {
+  private undoStack: TimelineCommand[] = [];
+  private redoStack: TimelineCommand[] = [];
+  private openGroup?: CompositeCommand;
+  private groupDepth = 0;
+
+  constructor(private limit = 100) {}
+
+  /**
+   * Record a command that has already been executed
+   */
+  record(command: TimelineCommand): void {
+    if (this.openGroup) {
+      this.openGroup.add(command);
+      return;
+    }
+
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Collect every command recorded until the matching endGroup() into one step.
+   * Groups may nest; only the outermost one is recorded.
+   */
+  beginGroup(label: string): void {
+    if (this.groupDepth === 0) {
+      this.openGroup = new CompositeCommand(label);
+    }
+    this.groupDepth++;
+  }
+
+  endGroup(): void {
+    if (this.groupDepth === 0) {
+      return;
+    }
+
+    this.groupDepth--;
+    if (this.groupDepth === 0 && this.openGroup) {
+      const group = this.openGroup;
+      this.openGroup = undefined;
+      if (!group.isEmpty()) {
+        this.record(group.commands.length === 1 ? group.commands[0] : group);
+      }
+    }
+  }
+
+  undo(timeline: Timeline): TimelineCommand | undefined {
+    const command = this.undoStack.pop();
+    if (command) {
+      command.undo(timeline);
+      this.redoStack.push(command);
+    }
+    return command;
+  }
+
+  redo(timeline: Timeline): TimelineCommand | undefined {
+    const command = this.redoStack.pop();
+    if (command) {
+      command.execute(timeline);
+      this.undoStack.push(command);
+    }
+    return command;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  getUndoLabel(): string | undefined {
+    return this.undoStack[this.undoStack.length - 1]?.label;
+  }
+
+  getRedoLabel(): string | undefined {
+    return this.redoStack[this.redoStack.length - 1]?.label;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.openGroup = undefined;
+    this.groupDepth = 0;
+  }
+}
@@ -0,0 +1,154 @@
+import { AudioClip, AudioTrack, createAuxBus, MixBus, Timeline } from '../models';
+import {
+  DuplicateClipCommand,
+  MoveClipCommand,
+  RemoveBusCommand,
+  SetEffectCommand,
+  SetTracksVolumeCommand,
+  ShiftClipsCommand,
+  SplitClipCommand
+} from './timeline-commands';
+
+describe('Clip commands', () => {
+  let timeline: Timeline;
+  let drums: AudioTrack;
+  let bass: AudioTrack;
+  let clip: AudioClip;
+
+  beforeEach(() => {
+    timeline = new Timeline();
+    drums = new AudioTrack('Drums', 'track_drums');
+    bass = new AudioTrack('Bass', 'track_bass');
+    clip = new AudioClip(new File([], 'loop.wav'), 'clip_1');
+    clip.sourceDuration = 4;
+    drums.addClip(clip);
+    timeline.addTrack(drums);
+    timeline.addTrack(bass);
+  });
+
+  it('should move a clip to another lane and back on undo', () => {
+    const command = new MoveClipCommand(
+      'clip_1',
+      { trackId: 'track_drums', startTime: 0 },
+      { trackId: 'track_bass', startTime: 2 }
+    );
+
+    command.execute(timeline);
+    expect(drums.clips.length).toBe(0);
+    expect(bass.clips).toEqual([clip]);
+    expect(clip.startTime).toBe(2);
+
+    command.undo(timeline);
+    expect(drums.clips).toEqual([clip]);
+    expect(bass.clips.length).toBe(0);
+    expect(clip.startTime).toBe(0);
+  });
+
+  it('should keep both halves of a split on the same lane', () => {
+    const command = new SplitClipCommand('clip_1', 1);
+    command.execute(timeline);
+
+    expect(drums.clips.length).toBe(2);
+    expect(drums.clips[1]).toBe(command.getTail()!);
+    expect(clip.duration).toBe(1);
+
+    command.undo(timeline);
+    expect(drums.clips).toEqual([clip]);
+    expect(clip.duration).toBe(4);
+  });
+
+  it('should place a duplicate right after the original', () => {
+    const command = new DuplicateClipCommand('clip_1');
+    command.execute(timeline);
+
+    const copy = command.getCopy()!;
+    expect(drums.clips).toEqual([clip, copy]);
+    expect(copy.id).not.toBe(clip.id);
+    expect(copy.startTime).toBe(4);
+
+    command.undo(timeline);
+    command.execute(timeline);
+    expect(drums.getClip(copy.id)).toBe(copy);
+  });
+
+  it('should shift several clips on different lanes together', () => {
+    const other = new AudioClip(new File([], 'bass.wav'), 'clip_2');
+    other.sourceDuration = 2;
+    other.setStartTime(1);
+    bass.addClip(other);
+
+    const command = new ShiftClipsCommand(['clip_1', 'clip_2'], 0.5);
+    command.execute(timeline);
+    expect(clip.startTime).toBe(0.5);
+    expect(other.startTime).toBe(1.5);
+
+    const next = new ShiftClipsCommand(['clip_1', 'clip_2'], 0.25);
+    expect(command.mergeWith(next)).toBeTrue();
+    next.execute(timeline);
+    command.undo(timeline);
+    expect(clip.startTime).toBe(0);
+    expect(other.startTime).toBe(1);
+  });
+
+  it('should set the volume of several tracks and restore each on undo', () => {
+    drums.setVolume(0.8);
+    bass.setVolume(0.4);
+    const command = new SetTracksVolumeCommand(new Map([['track_drums', 0.8], ['track_bass', 0.4]]), 0.5);
+
+    command.execute(timeline);
+    expect(drums.volume).toBe(0.5);
+    expect(bass.volume).toBe(0.5);
+
+    command.undo(timeline);
+    expect(drums.volume).toBe(0.8);
+    expect(bass.volume).toBe(0.4);
+  });
+});
+
+describe('SetEffectCommand', () => {
+  it('should merge slider steps and undo to the settings before the gesture', () => {
+    const timeline = new Timeline();
+    const track = new AudioTrack('Drums', 'track_drums');
+    timeline.addTrack(track);
+    const original = track.effects.reverb;
+
+    const first = new SetEffectCommand('track_drums', 'reverb', original, { ...original, mix: 0.5 });
+    const second = new SetEffectCommand('track_drums', 'reverb', original, { ...original, mix: 0.8 });
+    first.execute(timeline);
+    second.execute(timeline);
+
+    expect(first.mergeWith(second)).toBe(true);
+    expect(track.effects.reverb.mix).toBe(0.8);
+
+    first.undo(timeline);
+    expect(track.effects.reverb).toEqual(original);
+  });
+});
+
+describe('RemoveBusCommand', () => {
+  it('should send routed tracks to the master and restore their routing on undo', () => {
+    const timeline = new Timeline();
+    const track = new AudioTrack('Vocals', 'track_vocals');
+    const group = new MixBus('Vox', 'group', 'bus_vox');
+    const reverb = createAuxBus('Reverb', 'reverb');
+    timeline.addTrack(track);
+    timeline.addBus(group);
+    timeline.addBus(reverb);
+    track.outputBusId = 'bus_vox';
+    track.setSend(reverb.id, 0.4);
+
+    const removeGroup = new RemoveBusCommand('bus_vox');
+    const removeReverb = new RemoveBusCommand(reverb.id);
+    removeGroup.execute(timeline);
+    removeReverb.execute(timeline);
+    expect(timeline.buses).toEqual([]);
+    expect(track.outputBusId).toBeNull();
+    expect(track.sends).toEqual({});
+
+    removeReverb.undo(timeline);
+    removeGroup.undo(timeline);
+    expect(timeline.buses).toEqual([group, reverb]);
+    expect(track.outputBusId).toBe('bus_vox');
+    expect(track.getSend(reverb.id)).toBe(0.4);
+  });
+});
@@ -0,0 +1,907 @@
+import {
+  AudioClip,
+  AudioTrack,
+  AutomationParameter,
+  ClipFades,
+  AutomationPoint,
+  EffectType,
+  Marker,
+  MixBus,
+  TimeSignature,
+  Timeline,
+  TrackEffects
+} from '../models';
+import { TimelineCommand } from './history';
+
+export class AddTrackCommand implements TimelineCommand {
+  readonly label = 'Add Track';
+
+  /** Without an index the track goes at the bottom */
+  constructor(private track: AudioTrack, private index?: number) {}
+
+  execute(timeline: Timeline): void {
+    if (this.index === undefined) {
+      timeline.addTrack(this.track);
+    } else {
+      timeline.insertTrack(this.track, this.index);
+    }
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.removeTrack(this.track.id);
+  }
+}
+
+export class RemoveTrackCommand implements TimelineCommand {
+  readonly label = 'Remove Track';
+  private removed?: { track: AudioTrack; index: number };
+
+  constructor(private trackId: string) {}
+
+  execute(timeline: Timeline): void {
+    const index = timeline.tracks.findIndex(track => track.id === this.trackId);
+    if (index === -1) {
+      return;
+    }
+    this.removed = { track: timeline.tracks[index], index };
+    timeline.removeTrack(this.trackId);
+  }
+
+  undo(timeline: Timeline): void {
+    if (this.removed) {
+      timeline.insertTrack(this.removed.track, this.removed.index);
+    }
+  }
+}
+
+export class MoveTrackCommand implements TimelineCommand {
+  readonly label = 'Move Track';
+
+  constructor(private trackId: string, private from: number, private to: number) {}
+
+  execute(timeline: Timeline): void {
+    this.setStartTime(timeline, this.to);
+  }
+
+  undo(timeline: Timeline): void {
+    this.setStartTime(timeline, this.from);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof MoveTrackCommand && next.trackId === this.trackId) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+
+  private setStartTime(timeline: Timeline, time: number): void {
+    timeline.getTrack(this.trackId)?.setStartTime(time);
+    timeline.updateDuration();
+  }
+}
+
+export class SetVolumeCommand implements TimelineCommand {
+  readonly label = 'Change Volume';
+
+  constructor(private trackId: string, private from: number, private to: number) {}
+
+  execute(timeline: Timeline): void {
+    timeline.getTrack(this.trackId)?.setVolume(this.to);
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.getTrack(this.trackId)?.setVolume(this.from);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof SetVolumeCommand && next.trackId === this.trackId) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+}
+
+function isSameKeys<K>(a: Map<K, unknown>, b: Map<K, unknown>): boolean {
+  return a.size === b.size && Array.from(a.keys()).every(key => b.has(key));
+}
+
+export class SetTracksVolumeCommand implements TimelineCommand {
+  readonly label = 'Change Volume';
+
+  constructor(private from: Map<string, number>, private to: number) {}
+
+  execute(timeline: Timeline): void {
+    this.from.forEach((_, trackId) => timeline.getTrack(trackId)?.setVolume(this.to));
+  }
+
+  undo(timeline: Timeline): void {
+    this.from.forEach((volume, trackId) => timeline.getTrack(trackId)?.setVolume(volume));
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof SetTracksVolumeCommand && isSameKeys(next.from, this.from)) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+}
+
+export class SetPanCommand implements TimelineCommand {
+  readonly label = 'Change Pan';
+
+  constructor(private trackId: string, private from: number, private to: number) {}
+
+  execute(timeline: Timeline): void {
+    timeline.getTrack(this.trackId)?.setPan(this.to);
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.getTrack(this.trackId)?.setPan(this.from);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof SetPanCommand && next.trackId === this.trackId) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+}
+
+export class SetMasterVolumeCommand implements TimelineCommand {
+  readonly label = 'Change Master Volume';
+
+  constructor(private from: number, private to: number) {}
+
+  execute(timeline: Timeline): void {
+    timeline.setMasterVolume(this.to);
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.setMasterVolume(this.from);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof SetMasterVolumeCommand) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+}
+
+export class AddBusCommand implements TimelineCommand {
+  readonly label = 'Add Bus';
+
+  constructor(private bus: MixBus) {}
+
+  execute(timeline: Timeline): void {
+    timeline.addBus(this.bus);
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.removeBus(this.bus.id);
+  }
+}
+
+interface BusRouting {
+  trackId: string;
+  isOutput: boolean;
+  sendLevel: number;
+}
+
+export class RemoveBusCommand implements TimelineCommand {
+  readonly label = 'Remove Bus';
+  private removed?: { bus: MixBus; index: number; routing: BusRouting[] };
+
+  constructor(private busId: string) {}
+
+  execute(timeline: Timeline): void {
+    const index = timeline.buses.findIndex(bus => bus.id === this.busId);
+    if (index === -1) {
+      return;
+    }
+
+    // Tracks fed into the bus fall back to the master and lose their sends to it
+    const routing = timeline.tracks
+      .map(track => ({
+        trackId: track.id,
+        isOutput: track.outputBusId === this.busId,
+        sendLevel: track.getSend(this.busId)
+      }))
+      .filter(entry => entry.isOutput || entry.sendLevel > 0);
+    routing.forEach(entry => {
+      const track = timeline.getTrack(entry.trackId)!;
+      if (entry.isOutput) {
+        track.outputBusId = null;
+      }
+      track.setSend(this.busId, 0);
+    });
+
+    this.removed = { bus: timeline.buses[index], index, routing };
+    timeline.removeBus(this.busId);
+  }
+
+  undo(timeline: Timeline): void {
+    if (!this.removed) {
+      return;
+    }
+
+    timeline.addBus(this.removed.bus, this.removed.index);
+    this.removed.routing.forEach(entry => {
+      const track = timeline.getTrack(entry.trackId);
+      if (entry.isOutput && track) {
+        track.outputBusId = this.busId;
+      }
+      track?.setSend(this.busId, entry.sendLevel);
+    });
+  }
+}
+
+export class SetBusVolumeCommand implements TimelineCommand {
+  readonly label = 'Change Bus Volume';
+
+  constructor(private busId: string, private from: number, private to: number) {}
+
+  execute(timeline: Timeline): void {
+    timeline.getBus(this.busId)?.setVolume(this.to);
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.getBus(this.busId)?.setVolume(this.from);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof SetBusVolumeCommand && next.busId === this.busId) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+}
+
+export class ToggleBusMuteCommand implements TimelineCommand {
+  readonly label = 'Toggle Bus Mute';
+
+  constructor(private busId: string) {}
+
+  execute(timeline: Timeline): void {
+    timeline.getBus(this.busId)?.toggleMute();
+  }
+
+  undo(timeline: Timeline): void {
+    this.execute(timeline);
+  }
+}
+
+export class ToggleBusSoloCommand implements TimelineCommand {
+  readonly label = 'Toggle Bus Solo';
+
+  constructor(private busId: string) {}
+
+  execute(timeline: Timeline): void {
+    timeline.getBus(this.busId)?.toggleSolo();
+  }
+
+  undo(timeline: Timeline): void {
+    this.execute(timeline);
+  }
+}
+
+export class SetBusEffectCommand<K extends EffectType> implements TimelineCommand {
+  readonly label = 'Change Bus Effect';
+
+  constructor(
+    private busId: string,
+    private type: K,
+    private from: TrackEffects[K],
+    private to: TrackEffects[K]
+  ) {}
+
+  execute(timeline: Timeline): void {
+    timeline.getBus(this.busId)?.setEffect(this.type, this.to);
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.getBus(this.busId)?.setEffect(this.type, this.from);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof SetBusEffectCommand && next.busId === this.busId && next.type === this.type) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+}
+
+export class SetTrackOutputCommand implements TimelineCommand {
+  readonly label = 'Change Track Output';
+
+  constructor(private trackId: string, private from: string | null, private to: string | null) {}
+
+  execute(timeline: Timeline): void {
+    const track = timeline.getTrack(this.trackId);
+    if (track) {
+      track.outputBusId = this.to;
+    }
+  }
+
+  undo(timeline: Timeline): void {
+    const track = timeline.getTrack(this.trackId);
+    if (track) {
+      track.outputBusId = this.from;
+    }
+  }
+}
+
+export class SetSendCommand implements TimelineCommand {
+  readonly label = 'Change Send';
+
+  constructor(
+    private trackId: string,
+    private busId: string,
+    private from: number,
+    private to: number
+  ) {}
+
+  execute(timeline: Timeline): void {
+    timeline.getTrack(this.trackId)?.setSend(this.busId, this.to);
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.getTrack(this.trackId)?.setSend(this.busId, this.from);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof SetSendCommand && next.trackId === this.trackId && next.busId === this.busId) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+}
+
+export class SetEffectCommand<K extends EffectType> implements TimelineCommand {
+  readonly label = 'Change Effect';
+
+  constructor(
+    private trackId: string,
+    private type: K,
+    private from: TrackEffects[K],
+    private to: TrackEffects[K]
+  ) {}
+
+  execute(timeline: Timeline): void {
+    timeline.getTrack(this.trackId)?.setEffect(this.type, this.to);
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.getTrack(this.trackId)?.setEffect(this.type, this.from);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof SetEffectCommand && next.trackId === this.trackId && next.type === this.type) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+}
+
+export class SetAutomationCommand implements TimelineCommand {
+  readonly label = 'Edit Automation';
+
+  constructor(
+    private trackId: string,
+    private parameter: AutomationParameter,
+    private from: AutomationPoint[],
+    private to: AutomationPoint[]
+  ) {}
+
+  execute(timeline: Timeline): void {
+    this.apply(timeline, this.to);
+  }
+
+  undo(timeline: Timeline): void {
+    this.apply(timeline, this.from);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (
+      next instanceof SetAutomationCommand &&
+      next.trackId === this.trackId &&
+      next.parameter === this.parameter
+    ) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+
+  private apply(timeline: Timeline, points: AutomationPoint[]): void {
+    const lane = timeline.getTrack(this.trackId)?.automation[this.parameter];
+    if (lane) {
+      lane.points = points.map(point => ({ ...point }));
+    }
+  }
+}
+
+export class ToggleMuteCommand implements TimelineCommand {
+  readonly label = 'Toggle Mute';
+
+  constructor(private trackId: string) {}
+
+  execute(timeline: Timeline): void {
+    timeline.getTrack(this.trackId)?.toggleMute();
+  }
+
+  undo(timeline: Timeline): void {
+    this.execute(timeline);
+  }
+}
+
+export class ToggleSoloCommand implements TimelineCommand {
+  readonly label = 'Toggle Solo';
+
+  constructor(private trackId: string) {}
+
+  execute(timeline: Timeline): void {
+    timeline.getTrack(this.trackId)?.toggleSolo();
+  }
+
+  undo(timeline: Timeline): void {
+    this.execute(timeline);
+  }
+}
+
+export class ToggleWarpCommand implements TimelineCommand {
+  readonly label = 'Toggle Warp';
+
+  constructor(private trackId: string) {}
+
+  execute(timeline: Timeline): void {
+    const track = timeline.getTrack(this.trackId);
+    if (track) {
+      track.warp = !track.warp;
+    }
+  }
+
+  undo(timeline: Timeline): void {
+    this.execute(timeline);
+  }
+}
+
+interface PitchShift {
+  semitones: number;
+  cents: number;
+}
+
+export class SetPitchCommand implements TimelineCommand {
+  readonly label = 'Change Pitch';
+
+  constructor(private trackId: string, private from: PitchShift, private to: PitchShift) {}
+
+  execute(timeline: Timeline): void {
+    timeline.getTrack(this.trackId)?.setPitch(this.to.semitones, this.to.cents);
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.getTrack(this.trackId)?.setPitch(this.from.semitones, this.from.cents);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof SetPitchCommand && next.trackId === this.trackId) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+}
+
+export class SetTempoCommand implements TimelineCommand {
+  readonly label = 'Change Tempo';
+
+  constructor(private from: number, private to: number) {}
+
+  execute(timeline: Timeline): void {
+    timeline.setBpm(this.to);
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.setBpm(this.from);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof SetTempoCommand) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+}
+
+export class SetTimeSignatureCommand implements TimelineCommand {
+  readonly label = 'Change Time Signature';
+
+  constructor(private from: TimeSignature, private to: TimeSignature) {}
+
+  execute(timeline: Timeline): void {
+    timeline.setTimeSignature(this.to);
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.setTimeSignature(this.from);
+  }
+}
+
+export class ClearTracksCommand implements TimelineCommand {
+  readonly label = 'Clear All';
+  private tracks: AudioTrack[] = [];
+
+  execute(timeline: Timeline): void {
+    this.tracks = [...timeline.tracks];
+    timeline.clear();
+  }
+
+  undo(timeline: Timeline): void {
+    this.tracks.forEach(track => timeline.addTrack(track));
+  }
+}
+
+export class RemoveClipCommand implements TimelineCommand {
+  readonly label = 'Delete Clip';
+  private removed?: { trackId: string; clip: AudioClip; index: number };
+
+  constructor(private clipId: string) {}
+
+  execute(timeline: Timeline): void {
+    const found = timeline.findClip(this.clipId);
+    if (!found) {
+      return;
+    }
+    const index = found.track.clips.indexOf(found.clip);
+    this.removed = { trackId: found.track.id, clip: found.clip, index };
+    found.track.removeClip(this.clipId);
+    timeline.updateDuration();
+  }
+
+  undo(timeline: Timeline): void {
+    if (this.removed) {
+      timeline.getTrack(this.removed.trackId)?.addClip(this.removed.clip, this.removed.index);
+      timeline.updateDuration();
+    }
+  }
+}
+
+interface ClipPlacement {
+  trackId: string;
+  startTime: number;
+}
+
+export class MoveClipCommand implements TimelineCommand {
+  readonly label = 'Move Clip';
+
+  constructor(private clipId: string, private from: ClipPlacement, private to: ClipPlacement) {}
+
+  execute(timeline: Timeline): void {
+    this.place(timeline, this.to);
+  }
+
+  undo(timeline: Timeline): void {
+    this.place(timeline, this.from);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof MoveClipCommand && next.clipId === this.clipId) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+
+  private place(timeline: Timeline, placement: ClipPlacement): void {
+    const found = timeline.findClip(this.clipId);
+    const target = timeline.getTrack(placement.trackId);
+    if (!found || !target) {
+      return;
+    }
+
+    if (found.track !== target) {
+      found.track.removeClip(this.clipId);
+      target.addClip(found.clip);
+    }
+    found.clip.setStartTime(placement.startTime);
+    timeline.updateDuration();
+  }
+}
+
+export class ShiftClipsCommand implements TimelineCommand {
+  readonly label = 'Move Clips';
+
+  constructor(private clipIds: string[], private delta: number) {}
+
+  execute(timeline: Timeline): void {
+    this.shift(timeline, this.delta);
+  }
+
+  undo(timeline: Timeline): void {
+    this.shift(timeline, -this.delta);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof ShiftClipsCommand && next.clipIds.join() === this.clipIds.join()) {
+      this.delta += next.delta;
+      return true;
+    }
+    return false;
+  }
+
+  private shift(timeline: Timeline, delta: number): void {
+    this.clipIds.forEach(clipId => {
+      const clip = timeline.getClip(clipId);
+      clip?.setStartTime(clip.startTime + delta);
+    });
+    timeline.updateDuration();
+  }
+}
+
+interface ClipRegion {
+  startTime: number;
+  sourceOffset: number;
+  sourceDuration: number;
+  fadeIn: number;
+  fadeOut: number;
+}
+
+function getRegion(clip: AudioClip): ClipRegion {
+  return {
+    startTime: clip.startTime,
+    sourceOffset: clip.sourceOffset,
+    sourceDuration: clip.sourceDuration,
+    fadeIn: clip.fadeIn,
+    fadeOut: clip.fadeOut
+  };
+}
+
+function applyRegion(clip: AudioClip, region: ClipRegion): void {
+  clip.startTime = region.startTime;
+  clip.sourceOffset = region.sourceOffset;
+  clip.sourceDuration = region.sourceDuration;
+  clip.fadeIn = region.fadeIn;
+  clip.fadeOut = region.fadeOut;
+}
+
+export class TrimClipCommand implements TimelineCommand {
+  readonly label = 'Trim Clip';
+  private from?: ClipRegion;
+  private to?: ClipRegion;
+
+  constructor(private clipId: string, private edge: 'start' | 'end', private time: number) {}
+
+  execute(timeline: Timeline): void {
+    const clip = timeline.getClip(this.clipId);
+    if (!clip) {
+      return;
+    }
+
+    if (this.to) {
+      applyRegion(clip, this.to);
+    } else {
+      this.from = getRegion(clip);
+      if (this.edge === 'start') {
+        clip.trimStart(this.time);
+      } else {
+        clip.trimEnd(this.time);
+      }
+      this.to = getRegion(clip);
+    }
+    timeline.updateDuration();
+  }
+
+  undo(timeline: Timeline): void {
+    const clip = timeline.getClip(this.clipId);
+    if (clip && this.from) {
+      applyRegion(clip, this.from);
+      timeline.updateDuration();
+    }
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof TrimClipCommand && next.clipId === this.clipId && next.edge === this.edge) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+}
+
+export class SetClipFadesCommand implements TimelineCommand {
+  readonly label = 'Change Fade';
+
+  constructor(private clipId: string, private from: ClipFades, private to: ClipFades) {}
+
+  execute(timeline: Timeline): void {
+    timeline.getClip(this.clipId)?.setFades(this.to);
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.getClip(this.clipId)?.setFades(this.from);
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof SetClipFadesCommand && next.clipId === this.clipId) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+}
+
+export class SplitClipCommand implements TimelineCommand {
+  readonly label = 'Split Clip';
+  private head?: ClipRegion;
+  private tail?: AudioClip;
+
+  constructor(private clipId: string, private time: number) {}
+
+  execute(timeline: Timeline): void {
+    const found = timeline.findClip(this.clipId);
+    if (!found) {
+      return;
+    }
+
+    const original = getRegion(found.clip);
+    const tail = found.clip.splitAt(this.time);
+    if (!tail) {
+      return;
+    }
+
+    // Redo reinserts the same tail so later commands that reference it still apply
+    if (this.tail) {
+      applyRegion(this.tail, getRegion(tail));
+    } else {
+      this.tail = tail;
+    }
+    this.head = original;
+    found.track.addClip(this.tail, found.track.clips.indexOf(found.clip) + 1);
+  }
+
+  undo(timeline: Timeline): void {
+    const found = timeline.findClip(this.clipId);
+    if (!found || !this.head || !this.tail) {
+      return;
+    }
+
+    found.track.removeClip(this.tail.id);
+    applyRegion(found.clip, this.head);
+    timeline.updateDuration();
+  }
+
+  /**
+   * The clip holding the tail after the split, if it happened
+   */
+  getTail(): AudioClip | undefined {
+    return this.tail;
+  }
+}
+
+export class DuplicateClipCommand implements TimelineCommand {
+  readonly label = 'Duplicate Clip';
+  private copy?: AudioClip;
+  private trackId?: string;
+
+  /**
+   * The copy starts where the original ends unless a start time is given
+   */
+  constructor(private clipId: string, private startTime?: number) {}
+
+  execute(timeline: Timeline): void {
+    const found = timeline.findClip(this.clipId);
+    if (!found) {
+      return;
+    }
+
+    // Redo reinserts the same copy so later commands that reference it still apply
+    if (!this.copy) {
+      this.copy = found.clip.clone();
+      this.copy.setStartTime(this.startTime ?? found.clip.getEndTime());
+    }
+    this.trackId = found.track.id;
+    found.track.addClip(this.copy, found.track.clips.indexOf(found.clip) + 1);
+    timeline.updateDuration();
+  }
+
+  undo(timeline: Timeline): void {
+    if (this.copy && this.trackId) {
+      timeline.getTrack(this.trackId)?.removeClip(this.copy.id);
+      timeline.updateDuration();
+    }
+  }
+
+  /**
+   * The new clip, placed right after the original
+   */
+  getCopy(): AudioClip | undefined {
+    return this.copy;
+  }
+}
+
+export class AddMarkerCommand implements TimelineCommand {
+  readonly label = 'Add Marker';
+
+  constructor(private marker: Marker) {}
+
+  execute(timeline: Timeline): void {
+    timeline.addMarker(this.marker);
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.removeMarker(this.marker.id);
+  }
+}
+
+export class RemoveMarkerCommand implements TimelineCommand {
+  readonly label = 'Remove Marker';
+  private removed?: Marker;
+
+  constructor(private markerId: string) {}
+
+  execute(timeline: Timeline): void {
+    this.removed = timeline.getMarker(this.markerId);
+    timeline.removeMarker(this.markerId);
+  }
+
+  undo(timeline: Timeline): void {
+    if (this.removed) {
+      timeline.addMarker(this.removed);
+    }
+  }
+}
+
+export class RenameMarkerCommand implements TimelineCommand {
+  readonly label = 'Rename Marker';
+
+  constructor(private markerId: string, private from: string, private to: string) {}
+
+  execute(timeline: Timeline): void {
+    const marker = timeline.getMarker(this.markerId);
+    if (marker) {
+      marker.name = this.to;
+    }
+  }
+
+  undo(timeline: Timeline): void {
+    const marker = timeline.getMarker(this.markerId);
+    if (marker) {
+      marker.name = this.from;
+    }
+  }
+}
+
+export class MoveMarkerCommand implements TimelineCommand {
+  readonly label = 'Move Marker';
+
+  constructor(private markerId: string, private from: number, private to: number) {}
+
+  execute(timeline: Timeline): void {
+    timeline.getMarker(this.markerId)?.setTime(this.to);
+    timeline.sortMarkers();
+  }
+
+  undo(timeline: Timeline): void {
+    timeline.getMarker(this.markerId)?.setTime(this.from);
+    timeline.sortMarkers();
+  }
+
+  mergeWith(next: TimelineCommand): boolean {
+    if (next instanceof MoveMarkerCommand && next.markerId === this.markerId) {
+      this.to = next.to;
+      return true;
+    }
+    return false;
+  }
+}
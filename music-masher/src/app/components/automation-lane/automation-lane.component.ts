@@ -0,0 +1,204 @@
+import { Component, HostListener, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AudioTrack, AutomationLane, AutomationParameter } from '../../models';
+import { TimelineService } from '../../services/timeline.service';
+
+/** Height of the lane in pixels, matching the stylesheet */
+const LANE_HEIGHT = 60;
+/** Keeps points at the extremes clear of the lane edges */
+const LANE_PADDING = 6;
+
+/**
+ * Breakpoint editor for one of a track's automation envelopes.
+ * Click to add a point, drag to move it, double-click to remove it.
+ */
+@Component({
+  selector: 'app-automation-lane',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './automation-lane.component.html',
+  styleUrls: ['./automation-lane.component.scss']
+})
+export class AutomationLaneComponent {
+  @Input({ required: true }) track!: AudioTrack;
+  @Input({ required: true }) parameter!: AutomationParameter;
+  @Input() zoom = 50;
+  @Input() duration = 0;
+
+  readonly height = LANE_HEIGHT;
+  private draggedIndex?: number;
+  private laneLeft = 0;
+  private laneTop = 0;
+
+  constructor(private timelineService: TimelineService) {}
+
+  get lane(): AutomationLane {
+    return this.track.automation[this.parameter];
+  }
+
+  /**
+   * Whether the parameter has something to act on
+   */
+  isInactive(): boolean {
+    return this.parameter === 'cutoff' && !this.track.effects.filter.enabled;
+  }
+
+  /**
+   * SVG polyline through every point, held flat before the first and after the last
+   */
+  getPolylinePoints(): string {
+    const end = Math.max(this.duration * this.zoom, 0);
+    if (!this.lane.hasPoints()) {
+      const y = this.valueToY(this.getStaticValue());
+      return `0,${y} ${end},${y}`;
+    }
+
+    const points = this.lane.points.map(
+      point => `${point.time * this.zoom},${this.valueToY(point.value)}`
+    );
+    const first = this.lane.points[0];
+    const last = this.lane.points[this.lane.points.length - 1];
+    return [
+      `0,${this.valueToY(first.value)}`,
+      ...points,
+      `${Math.max(end, last.time * this.zoom)},${this.valueToY(last.value)}`
+    ].join(' ');
+  }
+
+  valueToY(value: number): number {
+    return LANE_PADDING + (1 - this.normalize(value)) * (LANE_HEIGHT - 2 * LANE_PADDING);
+  }
+
+  /**
+   * Readable value of a point, for its tooltip
+   */
+  formatValue(value: number): string {
+    switch (this.parameter) {
+      case 'volume':
+        return `${(value * 100).toFixed(0)}%`;
+      case 'pan':
+        return value === 0 ? 'C' : `${Math.abs(value * 100).toFixed(0)}${value < 0 ? 'L' : 'R'}`;
+      case 'cutoff':
+        return value >= 1000 ? `${(value / 1000).toFixed(1)} kHz` : `${value.toFixed(0)} Hz`;
+    }
+  }
+
+  /**
+   * Add a point where the empty lane was clicked and keep dragging it
+   */
+  onLaneMouseDown(event: MouseEvent): void {
+    if (event.button !== 0) {
+      return;
+    }
+    event.preventDefault();
+    this.measureLane(event);
+
+    this.timelineService.beginEditGroup('Edit Automation');
+    const { time, value } = this.getPosition(event);
+    this.draggedIndex = this.timelineService.addAutomationPoint(
+      this.track.id,
+      this.parameter,
+      time,
+      value
+    );
+  }
+
+  /**
+   * Start dragging an existing point
+   */
+  onPointMouseDown(event: MouseEvent, index: number): void {
+    if (event.button !== 0) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    this.measureLane(event);
+
+    this.timelineService.beginEditGroup('Edit Automation');
+    this.draggedIndex = index;
+  }
+
+  /**
+   * Remove a point
+   */
+  onPointDoubleClick(event: MouseEvent, index: number): void {
+    event.stopPropagation();
+    this.timelineService.removeAutomationPoint(this.track.id, this.parameter, index);
+  }
+
+  @HostListener('document:mousemove', ['$event'])
+  onMouseMove(event: MouseEvent): void {
+    if (this.draggedIndex === undefined) {
+      return;
+    }
+
+    const { time, value } = this.getPosition(event);
+    this.timelineService.moveAutomationPoint(
+      this.track.id,
+      this.parameter,
+      this.draggedIndex,
+      time,
+      value
+    );
+  }
+
+  @HostListener('document:mouseup')
+  onMouseUp(): void {
+    if (this.draggedIndex !== undefined) {
+      this.draggedIndex = undefined;
+      this.timelineService.endEditGroup();
+    }
+  }
+
+  trackByIndex(index: number): number {
+    return index;
+  }
+
+  private getStaticValue(): number {
+    switch (this.parameter) {
+      case 'volume':
+        return this.track.volume;
+      case 'pan':
+        return this.track.pan;
+      case 'cutoff':
+        return this.track.effects.filter.frequency;
+    }
+  }
+
+  private measureLane(event: MouseEvent): void {
+    const svg = (event.target as Element).closest('svg');
+    const rect = svg?.getBoundingClientRect();
+    this.laneLeft = rect?.left ?? 0;
+    this.laneTop = rect?.top ?? 0;
+  }
+
+  /**
+   * Time and value under the mouse, snapped to the grid unless Alt is held
+   */
+  private getPosition(event: MouseEvent): { time: number; value: number } {
+    const rawTime = Math.max(0, (event.clientX - this.laneLeft) / this.zoom);
+    const time = event.altKey
+      ? rawTime
+      : this.timelineService.getCurrentTimeline().snapTime(rawTime);
+    const y = event.clientY - this.laneTop;
+    const normalized = 1 - (y - LANE_PADDING) / (LANE_HEIGHT - 2 * LANE_PADDING);
+    return { time, value: this.denormalize(Math.max(0, Math.min(1, normalized))) };
+  }
+
+  /**
+   * Position of a value within the parameter's range, from 0 to 1
+   */
+  private normalize(value: number): number {
+    const { min, max, exponential } = this.lane.range;
+    return exponential
+      ? Math.log(value / min) / Math.log(max / min)
+      : (value - min) / (max - min);
+  }
+
+  private denormalize(normalized: number): number {
+    const { min, max, exponential } = this.lane.range;
+    return exponential
+      ? min * Math.pow(max / min, normalized)
+      : min + normalized * (max - min);
+  }
+}
@@ -0,0 +1,32 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AudioTrack, AUTOMATION_PARAMETERS, AUTOMATION_RANGES, AutomationParameter } from '../../models';
+import { AutomationLaneComponent } from '../automation-lane/automation-lane.component';
+
+/**
+ * Row under a track showing one of its automation lanes, with a menu to pick the parameter
+ */
+@Component({
+  selector: 'app-automation-row',
+  standalone: true,
+  imports: [CommonModule, AutomationLaneComponent],
+  templateUrl: './automation-row.component.html',
+  styleUrls: ['./automation-row.component.scss']
+})
+export class AutomationRowComponent {
+  @Input({ required: true }) track!: AudioTrack;
+  @Input({ required: true }) parameter!: AutomationParameter;
+  @Input() zoom = 50;
+  @Input() duration = 0;
+  @Output() parameterChange = new EventEmitter<AutomationParameter>();
+
+  readonly automationParameters = AUTOMATION_PARAMETERS;
+  readonly automationRanges = AUTOMATION_RANGES;
+
+  /**
+   * Switch which parameter the lane edits
+   */
+  onParameterChange(event: Event): void {
+    this.parameterChange.emit((event.target as HTMLSelectElement).value as AutomationParameter);
+  }
+}
@@ -0,0 +1,90 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { AudioClip } from '../../models';
+import { TimelineService } from '../../services/timeline.service';
+import { WaveformComponent } from '../waveform/waveform.component';
+import { getFadeGain, getNextFadeCurve } from '../../utils/fades';
+
+/** Points used to draw each fade curve */
+const FADE_PATH_POINTS = 24;
+
+/** Mouse down on one of a clip's edge handles, which starts a drag in the timeline */
+export interface ClipHandleEvent<E> {
+  event: MouseEvent;
+  edge: E;
+}
+
+/**
+ * A clip on a track lane: its waveform, fades and the handles to trim and fade it.
+ * The timeline positions the block and runs the drags its handles start.
+ */
+@Component({
+  selector: 'app-clip-block',
+  standalone: true,
+  imports: [WaveformComponent],
+  templateUrl: './clip-block.component.html',
+  styleUrls: ['./clip-block.component.scss']
+})
+export class ClipBlockComponent {
+  @Input({ required: true }) clip!: AudioClip;
+  @Input() zoom = 50;
+  @Output() trimMouseDown = new EventEmitter<ClipHandleEvent<'start' | 'end'>>();
+  @Output() fadeMouseDown = new EventEmitter<ClipHandleEvent<'in' | 'out'>>();
+
+  constructor(private timelineService: TimelineService) {}
+
+  /**
+   * Clip width in pixels
+   */
+  get width(): number {
+    return this.clip.duration * this.zoom;
+  }
+
+  /**
+   * Start trimming an edge of the clip
+   */
+  onTrimMouseDown(event: MouseEvent, edge: 'start' | 'end'): void {
+    event.stopPropagation();
+    this.trimMouseDown.emit({ event, edge });
+  }
+
+  /**
+   * Start changing the length of a fade
+   */
+  onFadeMouseDown(event: MouseEvent, edge: 'in' | 'out'): void {
+    event.stopPropagation();
+    this.fadeMouseDown.emit({ event, edge });
+  }
+
+  /**
+   * Cycle a fade through its curve shapes
+   */
+  onFadeDoubleClick(event: MouseEvent, edge: 'in' | 'out'): void {
+    event.stopPropagation();
+    if (edge === 'in') {
+      this.timelineService.setClipFades(this.clip.id, { fadeInCurve: getNextFadeCurve(this.clip.fadeInCurve) });
+    } else {
+      this.timelineService.setClipFades(this.clip.id, { fadeOutCurve: getNextFadeCurve(this.clip.fadeOutCurve) });
+    }
+  }
+
+  /**
+   * SVG path shading the part of the clip a fade attenuates, in a 100-unit-high box
+   */
+  getFadePath(edge: 'in' | 'out'): string {
+    const { fadeIn, fadeOut } = this.clip.getFadeLengths();
+    const length = (edge === 'in' ? fadeIn : fadeOut) * this.zoom;
+    if (length <= 0) {
+      return '';
+    }
+
+    const curve = edge === 'in' ? this.clip.fadeInCurve : this.clip.fadeOutCurve;
+    const origin = edge === 'in' ? 0 : this.width;
+    const direction = edge === 'in' ? 1 : -1;
+    const points = Array.from({ length: FADE_PATH_POINTS + 1 }, (_, i) => {
+      const progress = i / FADE_PATH_POINTS;
+      return `L${origin + direction * progress * length},${100 - getFadeGain(curve, progress) * 100}`;
+    });
+
+    return `M${origin},0 ${points.join(' ')} L${origin + direction * length},0 Z`;
+  }
+}
@@ -0,0 +1,178 @@
+import { Component, ElementRef, HostListener, OnDestroy, OnInit, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { AppAction, KeybindingService } from '../../services/keybinding.service';
+import { getKeyCombo } from '../../utils/keyboard';
+
+/**
+ * Searchable list of every action with its shortcuts, where shortcuts can be remapped.
+ * Also the single place key presses are routed to the keybinding service.
+ */
+@Component({
+  selector: 'app-command-palette',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './command-palette.component.html',
+  styleUrls: ['./command-palette.component.scss']
+})
+export class CommandPaletteComponent implements OnInit, OnDestroy {
+  @ViewChild('searchInput') searchInput?: ElementRef<HTMLInputElement>;
+
+  isOpen = false;
+  query = '';
+  results: AppAction[] = [];
+  activeIndex = 0;
+  /** Action whose next key press becomes its shortcut */
+  recordingActionId?: string;
+  private subscription?: Subscription;
+
+  constructor(private keybindingService: KeybindingService) {}
+
+  ngOnInit(): void {
+    this.subscription = this.keybindingService.getPaletteRequests().subscribe(() => this.open());
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Route key presses: record a shortcut, navigate the open palette, or run a bound action
+   */
+  @HostListener('document:keydown', ['$event'])
+  onKeyDown(event: KeyboardEvent): void {
+    if (this.recordingActionId) {
+      this.recordShortcut(event, this.recordingActionId);
+    } else if (this.isOpen) {
+      this.navigate(event);
+    } else {
+      this.keybindingService.handleKeyDown(event);
+    }
+  }
+
+  /**
+   * Show the palette with every action listed
+   */
+  open(): void {
+    this.isOpen = true;
+    this.query = '';
+    this.activeIndex = 0;
+    this.filter();
+    setTimeout(() => this.searchInput?.nativeElement.focus());
+  }
+
+  /**
+   * Hide the palette
+   */
+  close(): void {
+    this.isOpen = false;
+    this.recordingActionId = undefined;
+  }
+
+  /**
+   * Narrow the list to actions matching the search
+   */
+  onQueryChange(event: Event): void {
+    this.query = (event.target as HTMLInputElement).value;
+    this.activeIndex = 0;
+    this.filter();
+  }
+
+  /**
+   * Close the palette and run an action
+   */
+  runAction(action: AppAction): void {
+    this.close();
+    this.keybindingService.run(action.id);
+  }
+
+  /**
+   * Wait for the key press that becomes an action's shortcut
+   */
+  startRecording(event: MouseEvent, action: AppAction): void {
+    event.stopPropagation();
+    this.recordingActionId = action.id;
+  }
+
+  /**
+   * Remove every shortcut from an action
+   */
+  clearKeys(event: MouseEvent, action: AppAction): void {
+    event.stopPropagation();
+    this.keybindingService.setKeys(action.id, []);
+  }
+
+  /**
+   * Restore the default shortcuts
+   */
+  resetKeys(): void {
+    this.keybindingService.resetKeys();
+  }
+
+  /**
+   * Shortcuts currently bound to an action
+   */
+  getKeys(action: AppAction): string[] {
+    return this.keybindingService.getKeys(action.id);
+  }
+
+  /**
+   * Keep rows in place while the list is filtered
+   */
+  trackById(_index: number, action: AppAction): string {
+    return action.id;
+  }
+
+  private filter(): void {
+    const words = this.query.toLowerCase().split(/\s+/).filter(word => word.length > 0);
+    this.results = this.keybindingService.getActions().filter(action => {
+      const text = `${action.category} ${action.label}`.toLowerCase();
+      return words.every(word => text.includes(word));
+    });
+  }
+
+  /**
+   * Arrows move through the list, Enter runs the highlighted action and Escape closes
+   */
+  private navigate(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'Escape':
+        event.preventDefault();
+        this.close();
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        this.activeIndex = Math.min(this.results.length - 1, this.activeIndex + 1);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.activeIndex = Math.max(0, this.activeIndex - 1);
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        const action = this.results[this.activeIndex];
+        if (action) {
+          this.runAction(action);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Bind the pressed shortcut to the recording action; Escape cancels
+   */
+  private recordShortcut(event: KeyboardEvent, actionId: string): void {
+    event.preventDefault();
+    if (event.key === 'Escape') {
+      this.recordingActionId = undefined;
+      return;
+    }
+
+    const combo = getKeyCombo(event);
+    if (combo) {
+      this.keybindingService.setKeys(actionId, [combo]);
+      this.recordingActionId = undefined;
+    }
+  }
+}
@@ -1,30 +1,69 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Subscription } from 'rxjs';
-import { Timeline } from '../../models';
+import { Timeline, RulerMode, SnapDivision, MAX_BPM, MIN_BPM } from '../../models';
 import { TimelineService } from '../../services/timeline.service';
+import { ExportService } from '../../services/export.service';
+import { ProjectService } from '../../services/project.service';
+import { AutosaveService, AutosaveStatus } from '../../services/autosave.service';
+import { KeybindingService } from '../../services/keybinding.service';
+import { RecordingService, RecordingState } from '../../services/recording.service';
+import { WavBitDepth } from '../../utils/wav-encoder';
+import { LevelMeterComponent } from '../level-meter/level-meter.component';
 
 @Component({
   selector: 'app-controls',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, LevelMeterComponent],
   templateUrl: './controls.component.html',
   styleUrls: ['./controls.component.scss']
 })
 export class ControlsComponent implements OnInit, OnDestroy {
   timeline?: Timeline;
+  exportBitDepth: WavBitDepth = 16;
+  trimExport = true;
+  isExporting = false;
+  projectName = 'Untitled';
+  embedAudio = true;
+  autosaveStatus: AutosaveStatus = 'idle';
+  recording: RecordingState = { status: 'idle', countInBeat: 0 };
+  latencyMs = 0;
+  readonly countInOptions = [0, 1, 2];
+  readonly minBpm = MIN_BPM;
+  readonly maxBpm = MAX_BPM;
+  readonly timeSignatures = ['2/4', '3/4', '4/4', '5/4', '6/8', '7/8', '12/8'];
   private subscription?: Subscription;
+  private autosaveSubscription?: Subscription;
+  private recordingSubscription?: Subscription;
+  /** Whether a master fader gesture holds an edit group open */
+  private isAdjustingMaster = false;
 
-  constructor(private timelineService: TimelineService) {}
+  constructor(
+    private timelineService: TimelineService,
+    private exportService: ExportService,
+    private projectService: ProjectService,
+    private autosaveService: AutosaveService,
+    private keybindingService: KeybindingService,
+    private recordingService: RecordingService
+  ) {}
 
   ngOnInit(): void {
     this.subscription = this.timelineService.getTimeline().subscribe(timeline => {
       this.timeline = timeline;
     });
+    this.autosaveSubscription = this.autosaveService.getStatus().subscribe(status => {
+      this.autosaveStatus = status;
+    });
+    this.recordingSubscription = this.recordingService.getState().subscribe(state => {
+      this.recording = state;
+      this.latencyMs = Math.round(this.recordingService.getLatency() * 1000);
+    });
   }
 
   ngOnDestroy(): void {
     this.subscription?.unsubscribe();
+    this.autosaveSubscription?.unsubscribe();
+    this.recordingSubscription?.unsubscribe();
   }
 
   /**
@@ -40,6 +79,65 @@ export class ControlsComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Undo the last edit
+   */
+  undo(): void {
+    this.timelineService.undo();
+  }
+
+  /**
+   * Redo the last undone edit
+   */
+  redo(): void {
+    this.timelineService.redo();
+  }
+
+  /**
+   * Whether there is an edit to undo
+   */
+  canUndo(): boolean {
+    return this.timelineService.canUndo();
+  }
+
+  /**
+   * Whether there is an undone edit to redo
+   */
+  canRedo(): boolean {
+    return this.timelineService.canRedo();
+  }
+
+  /**
+   * Tooltip for the undo button
+   */
+  getUndoTitle(): string {
+    const label = this.timelineService.getUndoLabel();
+    return this.withShortcut(label ? `Undo ${label}` : 'Undo', 'edit.undo');
+  }
+
+  /**
+   * Tooltip for the redo button
+   */
+  getRedoTitle(): string {
+    const label = this.timelineService.getRedoLabel();
+    return this.withShortcut(label ? `Redo ${label}` : 'Redo', 'edit.redo');
+  }
+
+  /**
+   * Open the command palette
+   */
+  openCommandPalette(): void {
+    this.keybindingService.openPalette();
+  }
+
+  /**
+   * Tooltip text followed by an action's first shortcut, if it has one
+   */
+  private withShortcut(title: string, actionId: string): string {
+    const [key] = this.keybindingService.getKeys(actionId);
+    return key ? `${title} (${key})` : title;
+  }
+
   /**
    * Stop playback
    */
@@ -47,6 +145,98 @@ export class ControlsComponent implements OnInit, OnDestroy {
     this.timelineService.stop();
   }
 
+  /**
+   * Turn cycling the loop region on or off
+   */
+  toggleLoop(): void {
+    this.timelineService.toggleLoop();
+  }
+
+  /**
+   * Open the audio input ready to record, or close it
+   */
+  async toggleArm(): Promise<void> {
+    if (this.recording.status !== 'idle') {
+      this.recordingService.disarm();
+      return;
+    }
+
+    try {
+      await this.recordingService.arm();
+    } catch (error) {
+      console.error('Error arming recording:', error);
+      alert('Could not open the audio input. Check the browser\'s microphone permission.');
+    }
+  }
+
+  /**
+   * Record at the playhead, arming the input first if needed, or stop the take
+   */
+  async toggleRecording(): Promise<void> {
+    try {
+      await this.recordingService.toggleRecording();
+    } catch (error) {
+      console.error('Error arming recording:', error);
+      alert('Could not open the audio input. Check the browser\'s microphone permission.');
+    }
+  }
+
+  /**
+   * Turn the metronome click on or off
+   */
+  toggleMetronome(): void {
+    this.timelineService.toggleMetronome();
+  }
+
+  /**
+   * Set the metronome volume
+   */
+  onMetronomeVolumeChange(event: Event): void {
+    this.timelineService.setMetronomeVolume(parseFloat((event.target as HTMLInputElement).value));
+  }
+
+  /**
+   * Set how many bars are clicked before playing and recording
+   */
+  onCountInChange(event: Event): void {
+    this.timelineService.setCountIn(parseInt((event.target as HTMLSelectElement).value, 10));
+  }
+
+  /**
+   * Override the recording latency compensation; an empty field goes back to the estimate
+   */
+  onLatencyChange(event: Event): void {
+    const value = (event.target as HTMLInputElement).value;
+    this.recordingService.setLatencyOverride(value === '' ? undefined : parseFloat(value) / 1000);
+    this.latencyMs = Math.round(this.recordingService.getLatency() * 1000);
+  }
+
+  /**
+   * Start a master fader gesture so it undoes as one step
+   */
+  onMasterPointerDown(): void {
+    this.onMasterPointerUp();
+    this.timelineService.beginEditGroup('Change Master Volume');
+    this.isAdjustingMaster = true;
+  }
+
+  /**
+   * Finish a master fader gesture, however it ends. Safe to call more than once.
+   */
+  onMasterPointerUp(): void {
+    if (this.isAdjustingMaster) {
+      this.isAdjustingMaster = false;
+      this.timelineService.endEditGroup();
+    }
+  }
+
+  /**
+   * Set the level of the whole mix
+   */
+  onMasterVolumeChange(event: Event): void {
+    this.timelineService.setMasterVolume(parseFloat((event.target as HTMLInputElement).value));
+  }
+
   /**
    * Zoom in
    */
@@ -74,11 +264,143 @@ export class ControlsComponent implements OnInit, OnDestroy {
    * Clear all tracks
    */
   clearAll(): void {
-    if (confirm('Are you sure you want to remove all tracks?')) {
-      this.timelineService.clearAll();
+    this.timelineService.clearAll();
+  }
+
+  /**
+   * Update the bit depth used for exports
+   */
+  onBitDepthChange(event: Event): void {
+    const select = event.target as HTMLSelectElement;
+    this.exportBitDepth = parseInt(select.value, 10) as WavBitDepth;
+  }
+
+  /**
+   * Toggle trimming the export to the end of the last track
+   */
+  onTrimExportChange(event: Event): void {
+    this.trimExport = (event.target as HTMLInputElement).checked;
+  }
+
+  /**
+   * Render the mix offline and download it as a WAV file
+   */
+  async exportMix(): Promise<void> {
+    if (!this.timeline || this.isExporting) return;
+
+    this.isExporting = true;
+    try {
+      await this.exportService.downloadMix(this.timeline, {
+        bitDepth: this.exportBitDepth,
+        trimToLastTrack: this.trimExport
+      });
+    } catch (error) {
+      console.error('Error exporting mix:', error);
+      alert('Failed to export mix');
+    } finally {
+      this.isExporting = false;
     }
   }
 
+  /**
+   * Toggle embedding source audio in saved projects
+   */
+  onEmbedAudioChange(event: Event): void {
+    this.embedAudio = (event.target as HTMLInputElement).checked;
+  }
+
+  /**
+   * Save the timeline as a project bundle
+   */
+  async saveProject(): Promise<void> {
+    if (!this.timeline) return;
+
+    const name = prompt('Project name', this.projectName);
+    if (!name) return;
+
+    this.projectName = name;
+    try {
+      await this.projectService.downloadProject(this.timeline, {
+        name,
+        embedAudio: this.embedAudio
+      });
+    } catch (error) {
+      console.error('Error saving project:', error);
+      alert('Failed to save project');
+    }
+  }
+
+  /**
+   * Open a project bundle, plus any audio files it references
+   */
+  async onProjectSelect(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    if (!input.files || input.files.length === 0) return;
+
+    try {
+      const result = await this.projectService.openProject(Array.from(input.files));
+      this.projectName = result.name;
+
+      if (result.missingFiles.length > 0) {
+        alert(`Missing audio files (select them together with the project):\n${result.missingFiles.join('\n')}`);
+      }
+    } catch (error) {
+      console.error('Error opening project:', error);
+      alert('Failed to open project');
+    } finally {
+      input.value = ''; // Reset input
+    }
+  }
+
+  /**
+   * Set the project tempo from the BPM field
+   */
+  onBpmChange(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.timelineService.setBpm(parseFloat(input.value));
+    // Reflect clamping or a rejected value back into the field
+    input.value = `${this.timeline?.bpm ?? ''}`;
+  }
+
+  /**
+   * Time signature as shown in the selector, e.g. "6/8"
+   */
+  getTimeSignatureValue(): string {
+    const signature = this.timeline?.timeSignature;
+    return signature ? `${signature.beatsPerBar}/${signature.beatUnit}` : '4/4';
+  }
+
+  /**
+   * Set the project time signature
+   */
+  onTimeSignatureChange(event: Event): void {
+    const [beatsPerBar, beatUnit] = (event.target as HTMLSelectElement).value.split('/').map(Number);
+    this.timelineService.setTimeSignature({ beatsPerBar, beatUnit });
+  }
+
+  /**
+   * Set the snap grid division
+   */
+  onSnapChange(event: Event): void {
+    this.timelineService.setSnap((event.target as HTMLSelectElement).value as SnapDivision);
+  }
+
+  /**
+   * Switch the ruler between seconds and bars
+   */
+  onRulerModeChange(event: Event): void {
+    this.timelineService.setRulerMode((event.target as HTMLSelectElement).value as RulerMode);
+  }
+
+  /**
+   * Format a time as bar.beat
+   */
+  formatBarBeat(seconds: number): string {
+    if (!this.timeline) return '';
+    const { bar, beat } = this.timeline.getBarBeat(seconds);
+    return `${bar}.${beat}`;
+  }
+
   /**
    * Format time for display
    */
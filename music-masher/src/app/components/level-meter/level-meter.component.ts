@@ -0,0 +1,153 @@
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  Input,
+  NgZone,
+  OnDestroy,
+  ViewChild
+} from '@angular/core';
+import { AudioService, MeterTap } from '../../services/audio.service';
+import { CLIP_LEVEL, getMeterPosition, measureLevels } from '../../utils/metering';
+
+/** How long the peak marker holds before falling */
+const PEAK_HOLD_MS = 1000;
+/** How far the bars and the released peak marker fall per second, as a share of the scale */
+const FALL_PER_SECOND = 0.6;
+/** Width of the clip indicator at the right of the meter, in CSS pixels */
+const CLIP_INDICATOR_WIDTH = 6;
+
+interface ChannelState {
+  rms: number; // Displayed positions, from 0 to 1
+  peak: number;
+  peakHeldAt: number;
+}
+
+/**
+ * Stereo peak/RMS meter for a track or mixer bus, or for the master when no channel is given.
+ * Bars show RMS with a held peak marker; the indicator on the right latches on clipping
+ * until clicked.
+ */
+@Component({
+  selector: 'app-level-meter',
+  standalone: true,
+  templateUrl: './level-meter.component.html',
+  styleUrls: ['./level-meter.component.scss']
+})
+export class LevelMeterComponent implements AfterViewInit, OnDestroy {
+  @ViewChild('meterCanvas', { static: true }) canvasRef!: ElementRef<HTMLCanvasElement>;
+
+  @Input() channelId?: string; // Track or bus id
+
+  private channels: ChannelState[] = [];
+  private samples = new Float32Array(0);
+  private clipped = false;
+  private frameId?: number;
+  private lastFrameAt = 0;
+
+  constructor(private audioService: AudioService, private ngZone: NgZone) {}
+
+  ngAfterViewInit(): void {
+    // Drawing only touches the canvas, so keep the loop out of change detection
+    this.ngZone.runOutsideAngular(() => {
+      this.frameId = requestAnimationFrame(now => this.onFrame(now));
+    });
+  }
+
+  ngOnDestroy(): void {
+    if (this.frameId !== undefined) {
+      cancelAnimationFrame(this.frameId);
+    }
+  }
+
+  /**
+   * Clear the clip indicator
+   */
+  resetClip(): void {
+    this.clipped = false;
+  }
+
+  private get meter(): MeterTap {
+    return this.channelId
+      ? this.audioService.getChannelMeter(this.channelId)
+      : this.audioService.getMasterMeter();
+  }
+
+  private onFrame(now: number): void {
+    const elapsed = this.lastFrameAt ? (now - this.lastFrameAt) / 1000 : 0;
+    this.lastFrameAt = now;
+    this.measure(now, elapsed);
+    this.draw();
+    this.frameId = requestAnimationFrame(next => this.onFrame(next));
+  }
+
+  private measure(now: number, elapsed: number): void {
+    const fall = FALL_PER_SECOND * elapsed;
+
+    this.meter.analysers.forEach((analyser, index) => {
+      if (this.samples.length !== analyser.fftSize) {
+        this.samples = new Float32Array(analyser.fftSize);
+      }
+      analyser.getFloatTimeDomainData(this.samples);
+      const { peak, rms } = measureLevels(this.samples);
+      if (peak >= CLIP_LEVEL) {
+        this.clipped = true;
+      }
+
+      const state = this.channels[index] ?? { rms: 0, peak: 0, peakHeldAt: 0 };
+      state.rms = Math.max(getMeterPosition(rms), state.rms - fall);
+
+      const peakPosition = getMeterPosition(peak);
+      if (peakPosition >= state.peak) {
+        state.peak = peakPosition;
+        state.peakHeldAt = now;
+      } else if (now - state.peakHeldAt > PEAK_HOLD_MS) {
+        state.peak = Math.max(peakPosition, state.peak - fall);
+      }
+      this.channels[index] = state;
+    });
+  }
+
+  private draw(): void {
+    const canvas = this.canvasRef.nativeElement;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return;
+    }
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    const width = Math.max(1, Math.round(canvas.offsetWidth * pixelRatio));
+    const height = Math.max(1, Math.round(canvas.offsetHeight * pixelRatio));
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    ctx.clearRect(0, 0, width, height);
+
+    const indicatorWidth = CLIP_INDICATOR_WIDTH * pixelRatio;
+    const barWidth = width - indicatorWidth - pixelRatio;
+    const laneHeight = height / Math.max(1, this.channels.length);
+
+    this.channels.forEach((state, index) => {
+      const top = index * laneHeight;
+      const gradient = ctx.createLinearGradient(0, 0, barWidth, 0);
+      gradient.addColorStop(0, '#4ECDC4');
+      gradient.addColorStop(0.8, '#FFD700');
+      gradient.addColorStop(1, '#FF6B6B');
+
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, top, state.rms * barWidth, laneHeight - pixelRatio);
+
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(
+        Math.min(barWidth - pixelRatio, state.peak * barWidth),
+        top,
+        pixelRatio,
+        laneHeight - pixelRatio
+      );
+    });
+
+    ctx.fillStyle = this.clipped ? '#FF6B6B' : 'rgba(255, 255, 255, 0.15)';
+    ctx.fillRect(width - indicatorWidth, 0, indicatorWidth, height);
+  }
+}
@@ -0,0 +1,213 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { AudioTrack, AuxEffectType, MixBus, Timeline } from '../../models';
+import { TimelineService } from '../../services/timeline.service';
+import { LevelMeterComponent } from '../level-meter/level-meter.component';
+
+/**
+ * Channel strips for every track, group bus and aux bus, plus the master.
+ * Tracks can be routed into a group bus and send to any aux bus.
+ */
+@Component({
+  selector: 'app-mixer',
+  standalone: true,
+  imports: [CommonModule, LevelMeterComponent],
+  templateUrl: './mixer.component.html',
+  styleUrls: ['./mixer.component.scss']
+})
+export class MixerComponent implements OnInit, OnDestroy {
+  timeline?: Timeline;
+  groupBuses: MixBus[] = [];
+  auxBuses: MixBus[] = [];
+  isOpen = false;
+  private subscription?: Subscription;
+  /** Whether a fader or knob gesture holds an edit group open */
+  private isAdjusting = false;
+
+  constructor(private timelineService: TimelineService) {}
+
+  ngOnInit(): void {
+    this.subscription = this.timelineService.getTimeline().subscribe(timeline => {
+      this.timeline = timeline;
+      this.groupBuses = timeline.getGroupBuses();
+      this.auxBuses = timeline.getAuxBuses();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Show or hide the channel strips
+   */
+  toggleOpen(): void {
+    this.isOpen = !this.isOpen;
+  }
+
+  /**
+   * Add a named group bus
+   */
+  addGroupBus(): void {
+    const name = prompt('Group name', `Group ${this.groupBuses.length + 1}`);
+    if (name) {
+      this.timelineService.addGroupBus(name);
+    }
+  }
+
+  /**
+   * Add an aux bus returning a shared effect
+   */
+  addAuxBus(effect: AuxEffectType): void {
+    const label = effect === 'reverb' ? 'Reverb' : 'Delay';
+    const count = this.auxBuses.filter(bus => bus.getAuxEffect() === effect).length;
+    this.timelineService.addAuxBus(count > 0 ? `${label} ${count + 1}` : label, effect);
+  }
+
+  /**
+   * Remove a bus after confirmation
+   */
+  removeBus(bus: MixBus): void {
+    if (confirm(`Remove the ${bus.name} bus? Its tracks go back to the master.`)) {
+      this.timelineService.removeBus(bus.id);
+    }
+  }
+
+  /**
+   * Start a fader or knob gesture so it undoes as one step
+   */
+  onSliderPointerDown(label: string): void {
+    this.onSliderPointerUp();
+    this.timelineService.beginEditGroup(label);
+    this.isAdjusting = true;
+  }
+
+  /**
+   * Finish a fader or knob gesture, however it ends. Safe to call more than once.
+   */
+  onSliderPointerUp(): void {
+    if (this.isAdjusting) {
+      this.isAdjusting = false;
+      this.timelineService.endEditGroup();
+    }
+  }
+
+  /**
+   * Update a track's fader
+   */
+  onTrackVolumeChange(event: Event, track: AudioTrack): void {
+    this.timelineService.updateTrackVolume(track.id, this.getSliderValue(event));
+  }
+
+  /**
+   * Update a track's pan
+   */
+  onTrackPanChange(event: Event, track: AudioTrack): void {
+    this.timelineService.updateTrackPan(track.id, this.getSliderValue(event));
+  }
+
+  /**
+   * Update a track's send into an aux bus
+   */
+  onSendChange(event: Event, track: AudioTrack, bus: MixBus): void {
+    this.timelineService.setTrackSend(track.id, bus.id, this.getSliderValue(event));
+  }
+
+  /**
+   * Route a track into the group picked in its output selector
+   */
+  onOutputChange(event: Event, track: AudioTrack): void {
+    const busId = (event.target as HTMLSelectElement).value;
+    this.timelineService.setTrackOutput(track.id, busId || null);
+  }
+
+  /**
+   * Toggle muting a track
+   */
+  toggleTrackMute(track: AudioTrack): void {
+    this.timelineService.toggleTrackMute(track.id);
+  }
+
+  /**
+   * Toggle soloing a track
+   */
+  toggleTrackSolo(track: AudioTrack): void {
+    this.timelineService.toggleTrackSolo(track.id);
+  }
+
+  /**
+   * Update a bus fader
+   */
+  onBusVolumeChange(event: Event, bus: MixBus): void {
+    this.timelineService.setBusVolume(bus.id, this.getSliderValue(event));
+  }
+
+  /**
+   * Toggle muting a bus
+   */
+  toggleBusMute(bus: MixBus): void {
+    this.timelineService.toggleBusMute(bus.id);
+  }
+
+  /**
+   * Toggle soloing a group bus
+   */
+  toggleBusSolo(bus: MixBus): void {
+    this.timelineService.toggleBusSolo(bus.id);
+  }
+
+  /**
+   * Update the decay of an aux reverb
+   */
+  onReverbDecayChange(event: Event, bus: MixBus): void {
+    this.timelineService.updateBusEffect(bus.id, 'reverb', { decay: this.getSliderValue(event) });
+  }
+
+  /**
+   * Update the time of an aux delay
+   */
+  onDelayTimeChange(event: Event, bus: MixBus): void {
+    this.timelineService.updateBusEffect(bus.id, 'delay', { time: this.getSliderValue(event) });
+  }
+
+  /**
+   * Update the feedback of an aux delay
+   */
+  onDelayFeedbackChange(event: Event, bus: MixBus): void {
+    this.timelineService.updateBusEffect(bus.id, 'delay', { feedback: this.getSliderValue(event) });
+  }
+
+  /**
+   * Update the master fader
+   */
+  onMasterVolumeChange(event: Event): void {
+    this.timelineService.setMasterVolume(this.getSliderValue(event));
+  }
+
+  /**
+   * Pan position as shown under the knob, e.g. "30L"
+   */
+  formatPan(pan: number): string {
+    const amount = Math.round(Math.abs(pan) * 100);
+    return amount === 0 ? 'C' : `${amount}${pan < 0 ? 'L' : 'R'}`;
+  }
+
+  /**
+   * Fader level as a percentage
+   */
+  formatPercent(value: number): string {
+    return `${(value * 100).toFixed(0)}%`;
+  }
+
+  /**
+   * Keep strips in place while their settings change
+   */
+  trackById(index: number, item: AudioTrack | MixBus): string {
+    return item.id;
+  }
+
+  private getSliderValue(event: Event): number {
+    return parseFloat((event.target as HTMLInputElement).value);
+  }
+}
@@ -0,0 +1,66 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SessionSummary } from '../../models';
+import { AutosaveService } from '../../services/autosave.service';
+
+@Component({
+  selector: 'app-session-recovery',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './session-recovery.component.html',
+  styleUrls: ['./session-recovery.component.scss']
+})
+export class SessionRecoveryComponent implements OnInit {
+  sessions: SessionSummary[] = [];
+  isRestoring = false;
+  dismissed = false;
+
+  constructor(private autosaveService: AutosaveService) {}
+
+  async ngOnInit(): Promise<void> {
+    this.sessions = await this.autosaveService.listSessions();
+  }
+
+  /**
+   * Restore the chosen session into the timeline
+   */
+  async restore(session: SessionSummary): Promise<void> {
+    if (this.isRestoring) return;
+
+    this.isRestoring = true;
+    try {
+      const missingFiles = await this.autosaveService.restoreSession(session.id);
+      if (missingFiles.length > 0) {
+        alert(`Some audio could not be recovered:\n${missingFiles.join('\n')}`);
+      }
+      this.dismissed = true;
+    } catch (error) {
+      console.error('Error restoring session:', error);
+      alert('Failed to restore session');
+    } finally {
+      this.isRestoring = false;
+    }
+  }
+
+  /**
+   * Permanently delete a saved session
+   */
+  async remove(session: SessionSummary): Promise<void> {
+    await this.autosaveService.deleteSession(session.id);
+    this.sessions = this.sessions.filter(s => s.id !== session.id);
+  }
+
+  /**
+   * Hide the recovery prompt for this visit
+   */
+  dismiss(): void {
+    this.dismissed = true;
+  }
+
+  /**
+   * Format the time a session was last saved
+   */
+  formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleString();
+  }
+}
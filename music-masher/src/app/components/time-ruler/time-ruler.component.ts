@@ -0,0 +1,93 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Timeline } from '../../models';
+
+interface RulerMarker {
+  time: number;
+  label: string;
+  isMajor: boolean;
+}
+
+/** Closest the ruler draws beat lines before falling back to bars only */
+const MIN_BEAT_SPACING_PX = 12;
+
+/** Closest the ruler places labels */
+const MIN_LABEL_SPACING_PX = 40;
+
+/**
+ * Time ruler above the lanes, in seconds or in bars and beats, showing the loop region.
+ * The timeline handles clicks and drags on it.
+ */
+@Component({
+  selector: 'app-time-ruler',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './time-ruler.component.html',
+  styleUrls: ['./time-ruler.component.scss']
+})
+export class TimeRulerComponent {
+  @Input({ required: true }) timeline!: Timeline;
+
+  /**
+   * Format time for display
+   */
+  formatTime(seconds: number): string {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Get the ruler's markers, in seconds or in bars and beats
+   */
+  getTimeMarkers(): RulerMarker[] {
+    if (this.timeline.rulerMode === 'bars') {
+      return this.getBarMarkers(this.timeline);
+    }
+
+    const duration = Math.ceil(this.timeline.duration);
+    return Array.from({ length: duration }, (_, i) => ({
+      time: i,
+      label: this.formatTime(i),
+      isMajor: true
+    }));
+  }
+
+  /**
+   * Bar lines, plus beat lines when there is room for them
+   */
+  private getBarMarkers(timeline: Timeline): RulerMarker[] {
+    const beatDuration = timeline.getBeatDuration();
+    const beatsPerBar = timeline.timeSignature.beatsPerBar;
+    const barWidth = timeline.getBarDuration() * timeline.zoom;
+    const showBeats = beatDuration * timeline.zoom >= MIN_BEAT_SPACING_PX;
+    const showBeatLabels = beatDuration * timeline.zoom >= MIN_LABEL_SPACING_PX;
+
+    // At low zoom only every nth bar is labelled, n being a power of two
+    let labelEvery = 1;
+    while (barWidth * labelEvery < MIN_LABEL_SPACING_PX) {
+      labelEvery *= 2;
+    }
+
+    const markers: RulerMarker[] = [];
+    const totalBeats = Math.ceil(timeline.duration / beatDuration);
+    for (let beat = 0; beat < totalBeats; beat++) {
+      const barIndex = Math.floor(beat / beatsPerBar);
+      const beatInBar = beat % beatsPerBar;
+      const isBar = beatInBar === 0;
+      if (!isBar && !showBeats) {
+        continue;
+      }
+
+      let label = '';
+      if (isBar && barIndex % labelEvery === 0) {
+        label = `${barIndex + 1}`;
+      } else if (!isBar && showBeatLabels) {
+        label = `${barIndex + 1}.${beatInBar + 1}`;
+      }
+
+      markers.push({ time: beat * beatDuration, label, isMajor: isBar });
+    }
+    return markers;
+  }
+}
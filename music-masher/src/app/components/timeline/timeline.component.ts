@@ -1,13 +1,59 @@
 import { Component, OnInit, OnDestroy, ViewChild, ElementRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Subscription } from 'rxjs';
-import { Timeline, AudioTrack } from '../../models';
+import {
+  Timeline,
+  AudioClip,
+  AudioTrack,
+  AutomationParameter,
+  CrossfadeCandidate,
+  Marker
+} from '../../models';
 import { TimelineService } from '../../services/timeline.service';
+import { TrackEffectsComponent } from '../track-effects/track-effects.component';
+import { TrackHeaderComponent } from '../track-header/track-header.component';
+import { ClipBlockComponent } from '../clip-block/clip-block.component';
+import { TimeRulerComponent } from '../time-ruler/time-ruler.component';
+import { AutomationRowComponent } from '../automation-row/automation-row.component';
+
+type DragMode = 'move' | 'trim-start' | 'trim-end' | 'fade-in' | 'fade-out';
+
+/**
+ * A rubber-band selection in progress, measured from the tracks container
+ */
+interface SelectionBand {
+  container: HTMLElement;
+  startX: number; // Client coordinates where the drag began
+  startY: number;
+  isAdditive: boolean;
+  hasMoved: boolean;
+  baseClipIds: string[]; // Selection kept under a Shift-drag
+}
+
+interface BandRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** How far the pointer must move on the ruler before a click becomes a loop drag */
+const LOOP_DRAG_THRESHOLD_PX = 4;
+
+/** How close a dragged clip edge must come to a marker to snap onto it */
+const MARKER_SNAP_PX = 8;
 
 @Component({
   selector: 'app-timeline',
   standalone: true,
-  imports: [CommonModule],
+  imports: [
+    CommonModule,
+    TrackEffectsComponent,
+    TrackHeaderComponent,
+    ClipBlockComponent,
+    TimeRulerComponent,
+    AutomationRowComponent
+  ],
   templateUrl: './timeline.component.html',
   styleUrls: ['./timeline.component.scss']
 })
@@ -15,16 +61,39 @@ export class TimelineComponent implements OnInit, OnDestroy {
   @ViewChild('timelineCanvas', { static: false }) canvasRef!: ElementRef<HTMLCanvasElement>;
   
   timeline?: Timeline;
+  selectedClipIds = new Set<string>();
+  selectedTrackIds = new Set<string>();
+  /** Rubber band drawn over the lanes, relative to the tracks container */
+  bandRect?: BandRect;
+  crossfades: CrossfadeCandidate[] = [];
+  effectsTrackId?: string;
+  /** Parameter shown in each track's open automation lane */
+  automationViews = new Map<string, AutomationParameter>();
   private subscription?: Subscription;
   private isDragging = false;
-  private draggedTrack?: AudioTrack;
+  private draggedClip?: AudioClip;
+  private dragMode: DragMode = 'move';
   private dragOffsetX = 0;
+  private dragOriginLeft = 0;
+  /** Where a drag on the ruler started, while one is in progress */
+  private loopDragStart?: { clientX: number; rulerLeft: number };
+  private isLoopDragged = false;
+  /** Marker being dragged along the marker lane, and where the lane starts */
+  private markerDrag?: { marker: Marker; laneLeft: number };
+  private isMarkerDragged = false;
+  private band?: SelectionBand;
+  /** Whether a selection volume slider gesture holds an edit group open */
+  private isAdjustingVolume = false;
 
   constructor(private timelineService: TimelineService) {}
 
   ngOnInit(): void {
     this.subscription = this.timelineService.getTimeline().subscribe(timeline => {
       this.timeline = timeline;
+      const selection = this.timelineService.getSelection();
+      this.selectedClipIds = new Set(selection.clipIds);
+      this.selectedTrackIds = new Set(selection.trackIds);
+      this.crossfades = timeline.findCrossfades();
       this.drawTimeline();
     });
   }
@@ -83,45 +152,356 @@ export class TimelineComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Handle track mouse down for dragging
+   * Handle clip mouse down to select and drag it. Shift-click adds or removes the clip
+   * from the selection; dragging a selected clip moves the whole selection.
    */
-  onTrackMouseDown(event: MouseEvent, track: AudioTrack): void {
-    this.isDragging = true;
-    this.draggedTrack = track;
-    
+  onClipMouseDown(event: MouseEvent, clip: AudioClip): void {
+    if (event.shiftKey) {
+      this.timelineService.selectClip(clip.id, true);
+      return;
+    }
+    if (!this.selectedClipIds.has(clip.id)) {
+      this.timelineService.selectClip(clip.id);
+    }
+    const label = this.selectedClipIds.size > 1 ? 'Move Clips' : 'Move Clip';
+    this.startDrag(event, clip, 'move', label);
+
     const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
     this.dragOffsetX = event.clientX - rect.left;
   }
 
   /**
-   * Handle mouse move for dragging tracks
+   * Handle mouse down on a clip edge to trim it
+   */
+  onTrimMouseDown(event: MouseEvent, clip: AudioClip, edge: 'start' | 'end'): void {
+    event.stopPropagation();
+    this.timelineService.selectClip(clip.id);
+    this.startDrag(event, clip, edge === 'start' ? 'trim-start' : 'trim-end', 'Trim Clip');
+    this.dragOffsetX = 0;
+  }
+
+  /**
+   * Handle mouse down on a fade handle to change the fade length
+   */
+  onFadeMouseDown(event: MouseEvent, clip: AudioClip, edge: 'in' | 'out'): void {
+    event.stopPropagation();
+    this.timelineService.selectClip(clip.id);
+    this.startDrag(event, clip, edge === 'in' ? 'fade-in' : 'fade-out', 'Change Fade');
+    this.dragOffsetX = 0;
+  }
+
+  /**
+   * Crossfade the clips of an overlap
+   */
+  crossfade(candidate: CrossfadeCandidate): void {
+    this.timelineService.crossfadeClips(candidate.outgoing.id, candidate.incoming.id);
+  }
+
+  /**
+   * Overlaps where a clip on this track could crossfade in from another track
+   */
+  getCrossfades(track: AudioTrack): CrossfadeCandidate[] {
+    return this.crossfades.filter(candidate => candidate.incomingTrackId === track.id);
+  }
+
+  /**
+   * Handle mouse move for dragging clips, including onto another track
    */
   onMouseMove(event: MouseEvent): void {
-    if (!this.isDragging || !this.draggedTrack || !this.timeline) {
+    if (this.loopDragStart) {
+      this.dragLoop(event, this.loopDragStart);
+      return;
+    }
+    if (this.markerDrag) {
+      this.dragMarker(event, this.markerDrag);
+      return;
+    }
+    if (this.band) {
+      this.dragBand(event, this.band);
       return;
     }
 
-    const container = event.currentTarget as HTMLElement;
-    const rect = container.getBoundingClientRect();
-    const x = event.clientX - rect.left - this.dragOffsetX;
+    if (!this.isDragging || !this.draggedClip || !this.timeline) {
+      return;
+    }
+
+    const x = event.clientX - this.dragOriginLeft - this.dragOffsetX;
     
-    // Convert pixel position to time
-    const newTime = Math.max(0, x / this.timeline.zoom);
-    this.timelineService.updateTrackPosition(this.draggedTrack.id, newTime);
+    // Convert pixel position to time, snapping to markers or the grid unless Alt is held
+    const rawTime = Math.max(0, x / this.timeline.zoom);
+    const clipLength = this.dragMode === 'move' ? this.draggedClip.duration : 0;
+    const newTime = event.altKey ? rawTime : this.snapClipTime(rawTime, clipLength);
+
+    switch (this.dragMode) {
+      case 'move': {
+        // A selection moves together, each clip staying on its own track
+        if (this.selectedClipIds.size > 1 && this.selectedClipIds.has(this.draggedClip.id)) {
+          this.timelineService.moveSelection(newTime - this.draggedClip.startTime);
+          break;
+        }
+
+        // The row under the pointer decides the lane; outside any row the clip stays put
+        const row = (event.target as HTMLElement).closest<HTMLElement>('.track-row');
+        const trackId = row?.dataset['trackId'];
+        this.timelineService.moveClip(this.draggedClip.id, newTime, trackId);
+        break;
+      }
+      case 'trim-start':
+        this.timelineService.trimClip(this.draggedClip.id, 'start', newTime);
+        break;
+      case 'trim-end':
+        this.timelineService.trimClip(this.draggedClip.id, 'end', newTime);
+        break;
+      case 'fade-in': {
+        // Fades follow the pointer freely rather than the grid
+        const { fadeOut } = this.draggedClip.getFadeLengths();
+        const limit = this.draggedClip.duration - fadeOut;
+        const fadeIn = Math.max(0, Math.min(limit, rawTime - this.draggedClip.startTime));
+        this.timelineService.setClipFades(this.draggedClip.id, { fadeIn });
+        break;
+      }
+      case 'fade-out': {
+        const { fadeIn } = this.draggedClip.getFadeLengths();
+        const limit = this.draggedClip.duration - fadeIn;
+        const fadeOut = Math.max(0, Math.min(limit, this.draggedClip.getEndTime() - rawTime));
+        this.timelineService.setClipFades(this.draggedClip.id, { fadeOut });
+        break;
+      }
+    }
   }
 
   /**
    * Handle mouse up to stop dragging
    */
   onMouseUp(): void {
+    if (this.isDragging) {
+      this.timelineService.endEditGroup();
+    }
+    if (this.markerDrag) {
+      this.timelineService.endEditGroup();
+    }
+    // A click on an empty lane clears the selection
+    if (this.band && !this.band.hasMoved && !this.band.isAdditive) {
+      this.timelineService.clearSelection();
+    }
     this.isDragging = false;
-    this.draggedTrack = undefined;
+    this.draggedClip = undefined;
+    this.loopDragStart = undefined;
+    this.markerDrag = undefined;
+    this.band = undefined;
+    this.bandRect = undefined;
+  }
+
+  /**
+   * Start a rubber-band selection on an empty part of a lane; Shift adds to the selection
+   */
+  onLaneMouseDown(event: MouseEvent): void {
+    const target = event.target as HTMLElement;
+    const container = target.closest<HTMLElement>('.tracks-container');
+    if (target.closest('.track-block') || !container) {
+      return;
+    }
+
+    event.preventDefault();
+    this.band = {
+      container,
+      startX: event.clientX,
+      startY: event.clientY,
+      isAdditive: event.shiftKey,
+      hasMoved: false,
+      baseClipIds: event.shiftKey ? Array.from(this.selectedClipIds) : []
+    };
+  }
+
+  /**
+   * Grow the rubber band and select every clip it touches
+   */
+  private dragBand(event: MouseEvent, band: SelectionBand): void {
+    const bounds = band.container.getBoundingClientRect();
+    const left = Math.min(band.startX, event.clientX);
+    const top = Math.min(band.startY, event.clientY);
+    const right = Math.max(band.startX, event.clientX);
+    const bottom = Math.max(band.startY, event.clientY);
+
+    band.hasMoved = true;
+    this.bandRect = {
+      left: left - bounds.left,
+      top: top - bounds.top,
+      width: right - left,
+      height: bottom - top
+    };
+
+    const clipIds = Array.from(band.container.querySelectorAll<HTMLElement>('.track-block'))
+      .filter(block => {
+        const rect = block.getBoundingClientRect();
+        return rect.right > left && rect.left < right && rect.bottom > top && rect.top < bottom;
+      })
+      .map(block => block.dataset['clipId'])
+      .filter((clipId): clipId is string => clipId !== undefined);
+    this.timelineService.selectClips([...band.baseClipIds, ...clipIds]);
+  }
+
+  /**
+   * Snap a dragged clip edge onto a nearby marker, or else to the grid.
+   * A moved clip of the given length can catch a marker with either edge.
+   */
+  private snapClipTime(time: number, clipLength: number): number {
+    if (!this.timeline) {
+      return time;
+    }
+
+    const tolerance = MARKER_SNAP_PX / this.timeline.zoom;
+    const startMarker = this.timeline.findMarkerTime(time, tolerance);
+    if (startMarker !== undefined) {
+      return startMarker;
+    }
+    const endMarker = clipLength > 0
+      ? this.timeline.findMarkerTime(time + clipLength, tolerance)
+      : undefined;
+    if (endMarker !== undefined && endMarker >= clipLength) {
+      return endMarker - clipLength;
+    }
+    return this.timeline.snapTime(time);
+  }
+
+  /**
+   * Add a marker where the marker lane was double-clicked
+   */
+  onMarkerLaneDoubleClick(event: MouseEvent): void {
+    if (!this.timeline) {
+      return;
+    }
+
+    const lane = event.currentTarget as HTMLElement;
+    const time = (event.clientX - lane.getBoundingClientRect().left) / this.timeline.zoom;
+    this.addMarker(event.altKey ? time : this.timeline.snapTime(time));
   }
 
   /**
-   * Handle timeline click for seeking
+   * Ask for a name and add a marker
+   */
+  addMarker(time?: number): void {
+    const name = prompt('Marker name', `Marker ${(this.timeline?.markers.length ?? 0) + 1}`);
+    if (name) {
+      this.timelineService.addMarker(name, time);
+    }
+  }
+
+  /**
+   * Start dragging a marker
+   */
+  onMarkerMouseDown(event: MouseEvent, marker: Marker): void {
+    event.stopPropagation();
+    const lane = (event.currentTarget as HTMLElement).closest('.marker-lane');
+    this.markerDrag = { marker, laneLeft: lane ? lane.getBoundingClientRect().left : 0 };
+    this.isMarkerDragged = false;
+    this.timelineService.beginEditGroup('Move Marker');
+  }
+
+  /**
+   * Move the dragged marker, snapped to the grid unless Alt is held
+   */
+  private dragMarker(event: MouseEvent, drag: { marker: Marker; laneLeft: number }): void {
+    if (!this.timeline) {
+      return;
+    }
+
+    const time = Math.max(0, (event.clientX - drag.laneLeft) / this.timeline.zoom);
+    this.isMarkerDragged = true;
+    this.timelineService.moveMarker(drag.marker.id, event.altKey ? time : this.timeline.snapTime(time));
+  }
+
+  /**
+   * Jump to a marker, unless the click ended a drag
+   */
+  onMarkerClick(event: MouseEvent, marker: Marker): void {
+    event.stopPropagation();
+    if (this.isMarkerDragged) {
+      this.isMarkerDragged = false;
+      return;
+    }
+    this.timelineService.seekToMarker(marker.id);
+  }
+
+  /**
+   * Rename a marker
+   */
+  renameMarker(event: MouseEvent, marker: Marker): void {
+    event.stopPropagation();
+    const name = prompt('Marker name', marker.name);
+    if (name) {
+      this.timelineService.renameMarker(marker.id, name);
+    }
+  }
+
+  /**
+   * Remove a marker
+   */
+  removeMarker(event: MouseEvent, marker: Marker): void {
+    event.stopPropagation();
+    this.timelineService.removeMarker(marker.id);
+  }
+
+  /**
+   * Start a possible loop drag on the ruler
+   */
+  onRulerMouseDown(event: MouseEvent): void {
+    const ruler = event.currentTarget as HTMLElement;
+    this.loopDragStart = { clientX: event.clientX, rulerLeft: ruler.getBoundingClientRect().left };
+    this.isLoopDragged = false;
+  }
+
+  /**
+   * Loop the region dragged over on the ruler, snapped to the grid unless Alt is held
+   */
+  private dragLoop(event: MouseEvent, start: { clientX: number; rulerLeft: number }): void {
+    const timeline = this.timeline;
+    if (!timeline) {
+      return;
+    }
+    if (!this.isLoopDragged && Math.abs(event.clientX - start.clientX) < LOOP_DRAG_THRESHOLD_PX) {
+      return;
+    }
+
+    const toTime = (clientX: number) => {
+      const time = Math.max(0, (clientX - start.rulerLeft) / timeline.zoom);
+      return event.altKey ? time : timeline.snapTime(time);
+    };
+
+    this.isLoopDragged = true;
+    this.timelineService.setLoop(toTime(start.clientX), toTime(event.clientX));
+  }
+
+  /**
+   * Loop a clip's extent
+   */
+  loopClip(clip: AudioClip): void {
+    this.timelineService.setLoopFromClip(clip.id);
+  }
+
+  /**
+   * Begin a drag gesture, recorded as a single undo step
+   */
+  private startDrag(event: MouseEvent, clip: AudioClip, mode: DragMode, label: string): void {
+    this.isDragging = true;
+    this.draggedClip = clip;
+    this.dragMode = mode;
+    this.timelineService.beginEditGroup(label);
+
+    // Measure from the lane itself so the track controls column isn't counted as time
+    const lane = (event.currentTarget as HTMLElement).closest('.track-timeline');
+    this.dragOriginLeft = lane ? lane.getBoundingClientRect().left : 0;
+  }
+
+  /**
+   * Handle ruler click for seeking
    */
   onTimelineClick(event: MouseEvent): void {
+    // The click ending a loop drag doesn't seek
+    if (this.isLoopDragged) {
+      this.isLoopDragged = false;
+      return;
+    }
     if (!this.timeline || this.isDragging) {
       return;
     }
@@ -167,64 +547,143 @@ export class TimelineComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Remove a track
+   * Select a whole track by pressing its name or the background of its controls;
+   * Shift adds or removes it from the selection
    */
-  removeTrack(trackId: string): void {
-    this.timelineService.removeTrack(trackId);
+  selectTrack(event: MouseEvent, trackId: string): void {
+    // Using one of the track's buttons, sliders or menus leaves the selection alone
+    if ((event.target as Element).closest('button, input, select')) {
+      return;
+    }
+    this.timelineService.selectTrack(trackId, event.shiftKey);
   }
 
   /**
-   * Toggle track mute
+   * Set every selected track's volume from the selection bar
    */
-  toggleMute(trackId: string): void {
-    this.timelineService.toggleTrackMute(trackId);
+  onSelectionVolumeChange(event: Event): void {
+    this.timelineService.setSelectionVolume(parseFloat((event.target as HTMLInputElement).value));
   }
 
   /**
-   * Toggle track solo
+   * Volume shown on the selection bar: the first selected track's
    */
-  toggleSolo(trackId: string): void {
-    this.timelineService.toggleTrackSolo(trackId);
+  getSelectionVolume(): number {
+    const [trackId] = this.selectedTrackIds;
+    return (trackId ? this.timeline?.getTrack(trackId)?.volume : undefined) ?? 1;
   }
 
   /**
-   * Update track volume
+   * Duplicate the selected clips
    */
-  onVolumeChange(event: Event, trackId: string): void {
-    const input = event.target as HTMLInputElement;
-    const volume = parseFloat(input.value);
-    this.timelineService.updateTrackVolume(trackId, volume);
+  duplicateSelection(): void {
+    this.timelineService.duplicateSelection();
+  }
+
+  /**
+   * Loop the span covered by the selected clips
+   */
+  loopSelection(): void {
+    this.timelineService.loopSelection();
+  }
+
+  /**
+   * Delete the selected clips, or the selected tracks when no clips are selected
+   */
+  deleteSelection(): void {
+    this.timelineService.deleteSelection();
+  }
+
+  /**
+   * Mute or unmute the selected tracks together
+   */
+  toggleSelectionMute(): void {
+    this.timelineService.toggleSelectionMute();
+  }
+
+  /**
+   * Solo or unsolo the selected tracks together
+   */
+  toggleSelectionSolo(): void {
+    this.timelineService.toggleSelectionSolo();
+  }
+
+  /**
+   * Deselect everything
+   */
+  clearSelection(): void {
+    this.timelineService.clearSelection();
+  }
+
+  /**
+   * Open or close a track's effects panel
+   */
+  toggleEffectsPanel(trackId: string): void {
+    this.effectsTrackId = this.effectsTrackId === trackId ? undefined : trackId;
+  }
+
+  /**
+   * Track whose effects panel is open, if it still exists
+   */
+  getEffectsTrack(): AudioTrack | undefined {
+    return this.effectsTrackId ? this.timeline?.getTrack(this.effectsTrackId) : undefined;
   }
 
   /**
-   * Get track width in pixels
+   * Show or hide a track's automation lane
    */
-  getTrackWidth(track: AudioTrack): number {
-    return this.timeline ? track.duration * this.timeline.zoom : 0;
+  toggleAutomationLane(trackId: string): void {
+    if (this.automationViews.has(trackId)) {
+      this.automationViews.delete(trackId);
+    } else {
+      this.automationViews.set(trackId, 'volume');
+    }
+  }
+
+  /**
+   * Switch which parameter a track's automation lane edits
+   */
+  onAutomationParameterChange(trackId: string, parameter: AutomationParameter): void {
+    this.automationViews.set(trackId, parameter);
+  }
+
+  /**
+   * Start a selection volume slider gesture so it undoes as one step
+   */
+  onSelectionVolumePointerDown(): void {
+    this.onSelectionVolumePointerUp();
+    this.timelineService.beginEditGroup('Change Volume');
+    this.isAdjustingVolume = true;
+  }
+
+  /**
+   * Finish a selection volume slider gesture, however it ends. Safe to call more than once.
+   */
+  onSelectionVolumePointerUp(): void {
+    if (this.isAdjustingVolume) {
+      this.isAdjustingVolume = false;
+      this.timelineService.endEditGroup();
+    }
   }
 
   /**
-   * Get track position in pixels
+   * Get clip width in pixels
    */
-  getTrackLeft(track: AudioTrack): number {
-    return this.timeline ? track.startTime * this.timeline.zoom : 0;
+  getClipWidth(clip: AudioClip): number {
+    return this.timeline ? clip.duration * this.timeline.zoom : 0;
   }
 
   /**
-   * Format time for display
+   * Get clip position in pixels
    */
-  formatTime(seconds: number): string {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  getClipLeft(clip: AudioClip): number {
+    return this.timeline ? clip.startTime * this.timeline.zoom : 0;
   }
 
   /**
-   * Get array of time markers for the ruler
+   * Track clips by id so dragging doesn't recreate their waveforms
    */
-  getTimeMarkers(): number[] {
-    if (!this.timeline) return [];
-    const duration = Math.ceil(this.timeline.duration);
-    return Array.from({ length: duration }, (_, i) => i);
+  trackById(_index: number, item: AudioTrack | AudioClip | Marker): string {
+    return item.id;
   }
 }
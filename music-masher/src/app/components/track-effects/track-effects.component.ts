@@ -0,0 +1,148 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AudioTrack, EffectType, FilterType, TrackEffects } from '../../models';
+import { TimelineService } from '../../services/timeline.service';
+
+/**
+ * Settings of an effect that hold a number, and so get a slider
+ */
+type NumericSetting<K extends EffectType> = K extends EffectType
+  ? { [S in keyof TrackEffects[K]]: TrackEffects[K][S] extends number ? S : never }[keyof TrackEffects[K]]
+  : never;
+
+interface EffectParameter<K extends EffectType> {
+  key: NumericSetting<K>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+interface EffectSection {
+  type: EffectType;
+  label: string;
+}
+
+const decibels = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)} dB`;
+const hertz = (value: number) =>
+  value >= 1000 ? `${(value / 1000).toFixed(1)} kHz` : `${value.toFixed(0)} Hz`;
+const milliseconds = (value: number) => `${(value * 1000).toFixed(0)} ms`;
+const seconds = (value: number) => `${value.toFixed(1)} s`;
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const SECTIONS: EffectSection[] = [
+  { type: 'eq', label: 'EQ' },
+  { type: 'filter', label: 'Filter' },
+  { type: 'compressor', label: 'Compressor' },
+  { type: 'delay', label: 'Delay' },
+  { type: 'reverb', label: 'Reverb' }
+];
+
+/** Sliders of each effect, keyed by that effect's own settings */
+const PARAMETERS: { [K in EffectType]: EffectParameter<K>[] } = {
+  eq: [
+    { key: 'low', label: 'Low', min: -24, max: 24, step: 0.5, format: decibels },
+    { key: 'mid', label: 'Mid', min: -24, max: 24, step: 0.5, format: decibels },
+    { key: 'high', label: 'High', min: -24, max: 24, step: 0.5, format: decibels }
+  ],
+  filter: [
+    { key: 'frequency', label: 'Cutoff', min: 20, max: 20000, step: 1, format: hertz },
+    { key: 'resonance', label: 'Q', min: 0.1, max: 20, step: 0.1, format: value => value.toFixed(1) }
+  ],
+  compressor: [
+    { key: 'threshold', label: 'Threshold', min: -60, max: 0, step: 1, format: decibels },
+    { key: 'ratio', label: 'Ratio', min: 1, max: 20, step: 0.5, format: value => `${value}:1` },
+    { key: 'attack', label: 'Attack', min: 0, max: 1, step: 0.001, format: milliseconds },
+    { key: 'release', label: 'Release', min: 0.01, max: 1, step: 0.01, format: milliseconds }
+  ],
+  delay: [
+    { key: 'time', label: 'Time', min: 0.01, max: 2, step: 0.005, format: milliseconds },
+    { key: 'feedback', label: 'Feedback', min: 0, max: 0.9, step: 0.01, format: percent },
+    { key: 'mix', label: 'Mix', min: 0, max: 1, step: 0.01, format: percent }
+  ],
+  reverb: [
+    { key: 'decay', label: 'Decay', min: 0.2, max: 8, step: 0.1, format: seconds },
+    { key: 'mix', label: 'Mix', min: 0, max: 1, step: 0.01, format: percent }
+  ]
+};
+
+/**
+ * Editor for one track's insert effects
+ */
+@Component({
+  selector: 'app-track-effects',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './track-effects.component.html',
+  styleUrls: ['./track-effects.component.scss']
+})
+export class TrackEffectsComponent {
+  @Input({ required: true }) track!: AudioTrack;
+  @Output() close = new EventEmitter<void>();
+
+  readonly sections = SECTIONS;
+  /** Whether a slider gesture holds an edit group open */
+  private isAdjusting = false;
+
+  constructor(private timelineService: TimelineService) {}
+
+  /**
+   * Sliders of an effect
+   */
+  getParameters<K extends EffectType>(type: K): EffectParameter<K>[] {
+    return PARAMETERS[type];
+  }
+
+  /**
+   * Current value of an effect parameter
+   */
+  getValue<K extends EffectType>(type: K, key: NumericSetting<K>): number {
+    const settings: TrackEffects[K] = this.track.effects[type];
+    return settings[key as keyof TrackEffects[K]] as number;
+  }
+
+  /**
+   * Switch an effect in or out of the chain
+   */
+  onEnabledChange(event: Event, type: EffectType): void {
+    const enabled = (event.target as HTMLInputElement).checked;
+    this.timelineService.updateTrackEffect(this.track.id, type, { enabled });
+  }
+
+  /**
+   * Start a slider gesture so it undoes as one step
+   */
+  onSliderPointerDown(): void {
+    this.onSliderPointerUp();
+    this.timelineService.beginEditGroup('Change Effect');
+    this.isAdjusting = true;
+  }
+
+  /**
+   * Finish a slider gesture, however it ends. Safe to call more than once.
+   */
+  onSliderPointerUp(): void {
+    if (this.isAdjusting) {
+      this.isAdjusting = false;
+      this.timelineService.endEditGroup();
+    }
+  }
+
+  /**
+   * Update an effect parameter from its slider
+   */
+  onParameterChange<K extends EffectType>(event: Event, type: K, key: NumericSetting<K>): void {
+    const value = parseFloat((event.target as HTMLInputElement).value);
+    const settings = { [key]: value } as Partial<TrackEffects[K]>;
+    this.timelineService.updateTrackEffect(this.track.id, type, settings);
+  }
+
+  /**
+   * Switch the filter between low-pass and high-pass
+   */
+  onFilterTypeChange(event: Event): void {
+    const type = (event.target as HTMLSelectElement).value as FilterType;
+    this.timelineService.updateTrackEffect(this.track.id, 'filter', { type });
+  }
+}
@@ -0,0 +1,240 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AudioTrack, AUTOMATION_PARAMETERS } from '../../models';
+import { TimelineService } from '../../services/timeline.service';
+import { LevelMeterComponent } from '../level-meter/level-meter.component';
+import { getCamelotCode, getKeyName, KeyEstimate, transposeKey } from '../../utils/key-detection';
+
+/**
+ * Controls column at the head of a track's lane: mute, solo, mix, pitch and track tools
+ */
+@Component({
+  selector: 'app-track-header',
+  standalone: true,
+  imports: [CommonModule, LevelMeterComponent],
+  templateUrl: './track-header.component.html',
+  styleUrls: ['./track-header.component.scss']
+})
+export class TrackHeaderComponent {
+  @Input({ required: true }) track!: AudioTrack;
+  @Input() tracks: AudioTrack[] = []; // Every track, to align this one with
+  @Input() isEffectsOpen = false;
+  @Input() isAutomationOpen = false;
+  @Output() toggleEffects = new EventEmitter<void>();
+  @Output() toggleAutomation = new EventEmitter<void>();
+
+  /** Progress of splitting the track into stems, from 0 to 1, while it runs */
+  stemProgress?: number;
+  /** Confidence of the track's last alignment, from 0 to 1 */
+  alignmentConfidence?: number;
+  /** Whether a volume slider gesture holds an edit group open */
+  private isAdjustingVolume = false;
+  /** Whether a pan slider gesture holds an edit group open */
+  private isAdjustingPan = false;
+
+  constructor(private timelineService: TimelineService) {}
+
+  /**
+   * Remove the track
+   */
+  removeTrack(): void {
+    this.timelineService.removeTrack(this.track.id);
+  }
+
+  /**
+   * Split the track's clips at the playhead
+   */
+  splitTrack(): void {
+    this.timelineService.splitTrack(this.track.id);
+  }
+
+  /**
+   * Split the track into vocal, drum, bass and remaining stem tracks
+   */
+  async splitIntoStems(): Promise<void> {
+    if (this.stemProgress !== undefined) return;
+
+    this.stemProgress = 0;
+    try {
+      await this.timelineService.splitIntoStems(this.track.id, progress => (this.stemProgress = progress));
+    } catch (error) {
+      console.error('Error splitting into stems:', error);
+      alert('Failed to split the track into stems');
+    } finally {
+      this.stemProgress = undefined;
+    }
+  }
+
+  /**
+   * Line the track's onsets up with the track picked in its "Align to" menu
+   */
+  async onAlignChange(event: Event): Promise<void> {
+    const select = event.target as HTMLSelectElement;
+    const referenceId = select.value;
+    select.value = ''; // Back to the prompt, so the same track can be picked again
+    if (!referenceId) return;
+
+    try {
+      const estimate = await this.timelineService.alignTrack(this.track.id, referenceId);
+      if (estimate) {
+        this.alignmentConfidence = estimate.confidence;
+      } else {
+        alert('Nothing to line up: one of the tracks is silent');
+      }
+    } catch (error) {
+      console.error('Error aligning tracks:', error);
+      alert('Failed to align the tracks');
+    }
+  }
+
+  /**
+   * Set the project tempo from the track's detected tempo
+   */
+  matchTempo(): void {
+    this.timelineService.matchTempoToTrack(this.track.id);
+  }
+
+  /**
+   * Toggle track mute
+   */
+  toggleMute(): void {
+    this.timelineService.toggleTrackMute(this.track.id);
+  }
+
+  /**
+   * Toggle track solo
+   */
+  toggleSolo(): void {
+    this.timelineService.toggleTrackSolo(this.track.id);
+  }
+
+  /**
+   * Toggle time-stretching the track to the project tempo
+   */
+  toggleWarp(): void {
+    this.timelineService.toggleTrackWarp(this.track.id);
+  }
+
+  /**
+   * Whether any of the track's insert effects is switched on
+   */
+  hasActiveEffects(): boolean {
+    return Object.values(this.track.effects).some(effect => effect.enabled);
+  }
+
+  /**
+   * Whether any of the track's parameters has automation breakpoints
+   */
+  hasAutomation(): boolean {
+    return AUTOMATION_PARAMETERS.some(parameter => this.track.automation[parameter].hasPoints());
+  }
+
+  /**
+   * Start a volume slider gesture so it undoes as one step
+   */
+  onVolumePointerDown(): void {
+    this.onVolumePointerUp();
+    this.timelineService.beginEditGroup('Change Volume');
+    this.isAdjustingVolume = true;
+  }
+
+  /**
+   * Finish a volume slider gesture, however it ends. Safe to call more than once.
+   */
+  onVolumePointerUp(): void {
+    if (this.isAdjustingVolume) {
+      this.isAdjustingVolume = false;
+      this.timelineService.endEditGroup();
+    }
+  }
+
+  /**
+   * Update track volume
+   */
+  onVolumeChange(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const volume = parseFloat(input.value);
+    this.timelineService.updateTrackVolume(this.track.id, volume);
+  }
+
+  /**
+   * Start a pan slider gesture so it undoes as one step
+   */
+  onPanPointerDown(): void {
+    this.onPanPointerUp();
+    this.timelineService.beginEditGroup('Change Pan');
+    this.isAdjustingPan = true;
+  }
+
+  /**
+   * Finish a pan slider gesture, however it ends. Safe to call more than once.
+   */
+  onPanPointerUp(): void {
+    if (this.isAdjustingPan) {
+      this.isAdjustingPan = false;
+      this.timelineService.endEditGroup();
+    }
+  }
+
+  /**
+   * Update track pan
+   */
+  onPanChange(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.timelineService.updateTrackPan(this.track.id, parseFloat(input.value));
+  }
+
+  /**
+   * Return the track's pan to the center
+   */
+  centerPan(): void {
+    this.timelineService.updateTrackPan(this.track.id, 0);
+  }
+
+  /**
+   * Pan position as shown beside the slider, e.g. "30L"
+   */
+  formatPan(pan: number): string {
+    const amount = Math.round(Math.abs(pan) * 100);
+    return amount === 0 ? 'C' : `${amount}${pan < 0 ? 'L' : 'R'}`;
+  }
+
+  /**
+   * Shift the track's pitch from one of its semitone/cent inputs
+   */
+  onPitchChange(event: Event, unit: 'semitones' | 'cents'): void {
+    const input = event.target as HTMLInputElement;
+    const value = Math.round(parseFloat(input.value) || 0);
+    const semitones = unit === 'semitones' ? value : this.track.pitchSemitones;
+    const cents = unit === 'cents' ? value : this.track.pitchCents;
+
+    this.timelineService.setTrackPitch(this.track.id, semitones, cents);
+    // Reflect clamping even when the model value didn't change
+    input.value = String(unit === 'semitones' ? this.track.pitchSemitones : this.track.pitchCents);
+  }
+
+  /**
+   * Camelot code of the track's key after its pitch shift
+   */
+  getCamelotCode(key: KeyEstimate): string {
+    return getCamelotCode(transposeKey(key, this.track.pitchSemitones));
+  }
+
+  /**
+   * Tooltip naming the track's detected key and, when shifted, the key it plays in
+   */
+  getKeyTitle(key: KeyEstimate): string {
+    const confidence = `confidence ${(key.confidence * 100).toFixed(0)}%`;
+    if (this.track.pitchSemitones === 0) {
+      return `${getKeyName(key)} (${confidence})`;
+    }
+    return `${getKeyName(key)} → ${getKeyName(transposeKey(key, this.track.pitchSemitones))} (${confidence})`;
+  }
+
+  /**
+   * Track tracks by id in the "Align to" menu
+   */
+  trackById(_index: number, track: AudioTrack): string {
+    return track.id;
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  Input,
+  OnChanges,
+  ViewChild
+} from '@angular/core';
+import { AudioClip } from '../../models';
+import { AudioService } from '../../services/audio.service';
+
+/** Browsers cap canvas dimensions; beyond this the canvas is stretched instead */
+const MAX_CANVAS_WIDTH = 8192;
+
+@Component({
+  selector: 'app-waveform',
+  standalone: true,
+  templateUrl: './waveform.component.html',
+  styleUrls: ['./waveform.component.scss']
+})
+export class WaveformComponent implements AfterViewInit, OnChanges {
+  @ViewChild('waveformCanvas', { static: true }) canvasRef!: ElementRef<HTMLCanvasElement>;
+
+  @Input() clip!: AudioClip;
+  @Input() width = 0;
+  @Input() sourceOffset = 0;
+  @Input() sourceDuration = 0;
+  @Input() color = 'rgba(255, 255, 255, 0.6)';
+
+  constructor(private audioService: AudioService) {}
+
+  ngAfterViewInit(): void {
+    this.draw();
+  }
+
+  ngOnChanges(): void {
+    this.draw();
+  }
+
+  /**
+   * Draw min/max peaks, one lane per channel
+   */
+  private draw(): void {
+    const canvas = this.canvasRef?.nativeElement;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !this.clip) {
+      return;
+    }
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = Math.max(1, Math.min(MAX_CANVAS_WIDTH, Math.round(this.width * pixelRatio)));
+    canvas.height = Math.max(1, Math.round(canvas.offsetHeight * pixelRatio));
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const peaks = this.audioService.getWaveformData(
+      this.clip,
+      canvas.width,
+      this.sourceOffset,
+      this.sourceOffset + this.sourceDuration
+    );
+    if (!peaks || peaks.length === 0) {
+      return;
+    }
+
+    const laneHeight = canvas.height / peaks.length;
+    ctx.fillStyle = this.color;
+
+    peaks.forEach((channel, index) => {
+      const center = laneHeight * index + laneHeight / 2;
+      const scale = laneHeight / 2;
+
+      for (let x = 0; x < channel.min.length; x++) {
+        const top = center - channel.max[x] * scale;
+        const bottom = center - channel.min[x] * scale;
+        ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+      }
+    });
+  }
+}
@@ -0,0 +1,101 @@
+import { AudioClip } from './audio-clip.model';
+
+describe('AudioClip', () => {
+  let clip: AudioClip;
+
+  beforeEach(() => {
+    clip = new AudioClip(new File([], 'loop.wav'));
+    clip.setAudioBuffer(new AudioBuffer({ length: 10 * 8000, numberOfChannels: 1, sampleRate: 8000 }));
+    clip.setStartTime(5);
+  });
+
+  it('should trim the head without moving the tail', () => {
+    clip.trimStart(7);
+
+    expect(clip.startTime).toBe(7);
+    expect(clip.sourceOffset).toBe(2);
+    expect(clip.duration).toBe(8);
+    expect(clip.getEndTime()).toBe(15);
+  });
+
+  it('should not trim the head past the start of the audio', () => {
+    clip.trimStart(7);
+    clip.trimStart(1);
+
+    expect(clip.startTime).toBe(5);
+    expect(clip.sourceOffset).toBe(0);
+  });
+
+  it('should clamp the tail to the end of the audio', () => {
+    clip.trimEnd(8);
+    expect(clip.duration).toBe(3);
+
+    clip.trimEnd(100);
+    expect(clip.getEndTime()).toBe(15);
+  });
+
+  it('should split into two clips sharing the buffer', () => {
+    clip.trimStart(6);
+    const tail = clip.splitAt(9);
+
+    expect(tail).not.toBeNull();
+    expect(clip.getEndTime()).toBe(9);
+    expect(tail!.startTime).toBe(9);
+    expect(tail!.sourceOffset).toBe(4);
+    expect(tail!.getEndTime()).toBe(15);
+    expect(tail!.audioBuffer).toBe(clip.audioBuffer);
+    expect(tail!.id).not.toBe(clip.id);
+  });
+
+  it('should not split outside the clip', () => {
+    expect(clip.splitAt(20)).toBeNull();
+  });
+
+  it('should map timeline time through the stretch ratio', () => {
+    const stretched = new AudioBuffer({ length: 20 * 8000, numberOfChannels: 1, sampleRate: 8000 });
+    clip.setStretch(2, stretched);
+
+    expect(clip.duration).toBe(20);
+    expect(clip.getSourceTime(9)).toBe(2);
+    expect(clip.getPlaybackRegion(9)).toEqual({ offset: 4, duration: 16 });
+    expect(clip.getPlaybackBuffer()).toBe(stretched);
+  });
+
+  it('should play a pitch-shifted buffer faster without changing the clip length', () => {
+    clip.setStretch(1, new AudioBuffer({ length: 20 * 8000, numberOfChannels: 1, sampleRate: 8000 }), 2);
+
+    expect(clip.duration).toBe(10);
+    expect(clip.getPlaybackRate()).toBe(2);
+    expect(clip.getPlaybackRegion(9)).toEqual({ offset: 8, duration: 12 });
+  });
+
+  it('should cut the played region at a loop end inside the clip', () => {
+    expect(clip.getPlaybackRegion(6, 9)).toEqual({ offset: 1, duration: 3 });
+    expect(clip.getPlaybackRegion(6, 20)).toEqual({ offset: 1, duration: 9 });
+  });
+
+  it('should split a stretched clip in source time', () => {
+    clip.setStretch(2, new AudioBuffer({ length: 20 * 8000, numberOfChannels: 1, sampleRate: 8000 }));
+    const tail = clip.splitAt(9)!;
+
+    expect(clip.sourceDuration).toBe(2);
+    expect(tail.sourceOffset).toBe(2);
+    expect(tail.getEndTime()).toBe(25);
+  });
+
+  it('should hand the fade-out to the tail when split', () => {
+    clip.setFades({ fadeIn: 1, fadeOut: 2, fadeInCurve: 'linear', fadeOutCurve: 'linear' });
+    const tail = clip.splitAt(9)!;
+
+    expect(clip.getFadeLengths()).toEqual({ fadeIn: 1, fadeOut: 0 });
+    expect(tail.getFadeLengths()).toEqual({ fadeIn: 0, fadeOut: 2 });
+  });
+
+  it('should shape the gain with its fades', () => {
+    clip.setFades({ fadeIn: 2, fadeOut: 4, fadeInCurve: 'linear', fadeOutCurve: 'linear' });
+
+    expect(clip.getFadeGainAt(1)).toBeCloseTo(0.5);
+    expect(clip.getFadeGainAt(4)).toBe(1);
+    expect(clip.getFadeGainAt(9)).toBeCloseTo(0.25);
+  });
+});
@@ -0,0 +1,256 @@
+import { TempoEstimate } from '../utils/tempo-detection';
+import { KeyEstimate } from '../utils/key-detection';
+import { FadeCurve, getFadeGain } from '../utils/fades';
+
+/** Shortest region a clip can be trimmed to, in seconds */
+export const MIN_CLIP_DURATION = 0.05;
+
+export interface ClipFades {
+  fadeIn: number; // Timeline seconds from the clip's start
+  fadeOut: number; // Timeline seconds before the clip's end
+  fadeInCurve: FadeCurve;
+  fadeOutCurve: FadeCurve;
+}
+
+/**
+ * A region of an audio file placed on a track lane.
+ * Several clips may share one AudioBuffer, each playing its own region of it.
+ */
+export class AudioClip {
+  id: string;
+  name: string;
+  audioBuffer: AudioBuffer | null;
+  file: File;
+  startTime: number; // Position on timeline in seconds
+  sourceOffset: number; // Start of the played region within the buffer, in seconds
+  sourceDuration: number; // Length of the played region, in seconds
+  tempo?: TempoEstimate; // Detected from the whole source file
+  key?: KeyEstimate; // Detected from the whole source file
+  stretchRatio: number; // Timeline seconds per source second; above 1 plays slower
+  pitchRatio: number; // Frequency multiplier; 2 is an octave up
+  stretchedBuffer: AudioBuffer | null; // audioBuffer stretched by stretchRatio × pitchRatio
+  fadeIn: number;
+  fadeOut: number;
+  fadeInCurve: FadeCurve;
+  fadeOutCurve: FadeCurve;
+
+  constructor(file: File, id?: string) {
+    this.id = id || this.generateId();
+    this.name = file.name;
+    this.file = file;
+    this.audioBuffer = null;
+    this.startTime = 0;
+    this.sourceOffset = 0;
+    this.sourceDuration = 0;
+    this.stretchRatio = 1;
+    this.pitchRatio = 1;
+    this.stretchedBuffer = null;
+    this.fadeIn = 0;
+    this.fadeOut = 0;
+    this.fadeInCurve = 'equal-power';
+    this.fadeOutCurve = 'equal-power';
+  }
+
+  private generateId(): string {
+    return `clip_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Length the clip occupies on the timeline
+   */
+  get duration(): number {
+    return this.sourceDuration * this.stretchRatio;
+  }
+
+  setAudioBuffer(buffer: AudioBuffer): void {
+    this.audioBuffer = buffer;
+    this.sourceOffset = 0;
+    this.sourceDuration = buffer.duration;
+    this.setStretch(1, null);
+  }
+
+  /**
+   * Play the clip stretched in time and shifted in pitch.
+   * The buffer must be the source stretched by ratio × pitchRatio: played back
+   * pitchRatio times faster, it then lasts ratio times as long at the shifted pitch.
+   * Without a buffer the original audio plays unchanged.
+   */
+  setStretch(ratio: number, stretchedBuffer: AudioBuffer | null, pitchRatio = 1): void {
+    this.stretchRatio = stretchedBuffer ? ratio : 1;
+    this.pitchRatio = stretchedBuffer ? pitchRatio : 1;
+    this.stretchedBuffer = stretchedBuffer;
+  }
+
+  /**
+   * Buffer to play: the time-stretched one if the clip is stretched
+   */
+  getPlaybackBuffer(): AudioBuffer | null {
+    return this.stretchedBuffer ?? this.audioBuffer;
+  }
+
+  /**
+   * Rate the playback buffer plays at, which raises the pitch by pitchRatio
+   */
+  getPlaybackRate(): number {
+    return this.pitchRatio;
+  }
+
+  /**
+   * Offset within the playback buffer that plays at a timeline time, and how much of
+   * the buffer plays from there to the end of the clip, or to an earlier cut such as
+   * a loop end (both in buffer seconds)
+   */
+  getPlaybackRegion(
+    timelineTime: number,
+    untilTime = Infinity
+  ): { offset: number; duration: number } {
+    const bufferSecondsPerSource = this.stretchRatio * this.pitchRatio;
+    const sourceTime = this.getSourceTime(timelineTime);
+    const sourceEnd = untilTime < this.getEndTime()
+      ? this.getSourceTime(untilTime)
+      : this.sourceOffset + this.sourceDuration;
+    return {
+      offset: sourceTime * bufferSecondsPerSource,
+      duration: (sourceEnd - sourceTime) * bufferSecondsPerSource
+    };
+  }
+
+  /**
+   * Full length of the underlying audio, regardless of trimming
+   */
+  getBufferDuration(): number {
+    return this.audioBuffer ? this.audioBuffer.duration : this.sourceOffset + this.sourceDuration;
+  }
+
+  setStartTime(time: number): void {
+    this.startTime = Math.max(0, time);
+  }
+
+  getEndTime(): number {
+    return this.startTime + this.duration;
+  }
+
+  /**
+   * Set the played region of the buffer, clamped to the audio that exists
+   */
+  setRegion(sourceOffset: number, sourceDuration: number): void {
+    const bufferDuration = this.getBufferDuration();
+    this.sourceOffset = Math.max(0, Math.min(sourceOffset, bufferDuration - MIN_CLIP_DURATION));
+    this.sourceDuration = Math.max(
+      MIN_CLIP_DURATION,
+      Math.min(sourceDuration, bufferDuration - this.sourceOffset)
+    );
+  }
+
+  /**
+   * Move the clip's head to a timeline time, keeping its tail where it is
+   */
+  trimStart(time: number): void {
+    const endTime = this.getEndTime();
+    const earliest = Math.max(0, this.startTime - this.sourceOffset * this.stretchRatio);
+    const newStart = Math.max(earliest, Math.min(time, endTime - MIN_CLIP_DURATION));
+
+    this.sourceOffset += (newStart - this.startTime) / this.stretchRatio;
+    this.sourceDuration = (endTime - newStart) / this.stretchRatio;
+    this.startTime = newStart;
+  }
+
+  /**
+   * Move the clip's tail to a timeline time, keeping its head where it is
+   */
+  trimEnd(time: number): void {
+    this.setRegion(this.sourceOffset, (time - this.startTime) / this.stretchRatio);
+  }
+
+  /**
+   * Position within the buffer that plays at a timeline time
+   */
+  getSourceTime(timelineTime: number): number {
+    return this.sourceOffset + (timelineTime - this.startTime) / this.stretchRatio;
+  }
+
+  getFades(): ClipFades {
+    return {
+      fadeIn: this.fadeIn,
+      fadeOut: this.fadeOut,
+      fadeInCurve: this.fadeInCurve,
+      fadeOutCurve: this.fadeOutCurve
+    };
+  }
+
+  setFades(fades: ClipFades): void {
+    this.fadeIn = Math.max(0, fades.fadeIn);
+    this.fadeOut = Math.max(0, fades.fadeOut);
+    this.fadeInCurve = fades.fadeInCurve;
+    this.fadeOutCurve = fades.fadeOutCurve;
+  }
+
+  /**
+   * Fade lengths that fit the clip's current length. Trimming or stretching a clip
+   * keeps its stored fades, which shrink here while they don't fit.
+   */
+  getFadeLengths(): { fadeIn: number; fadeOut: number } {
+    const fadeIn = Math.min(this.fadeIn, this.duration);
+    return { fadeIn, fadeOut: Math.min(this.fadeOut, this.duration - fadeIn) };
+  }
+
+  /**
+   * Gain of the fades at a time measured from the clip's start
+   */
+  getFadeGainAt(clipTime: number): number {
+    const { fadeIn, fadeOut } = this.getFadeLengths();
+    const fadeInGain = fadeIn > 0 ? getFadeGain(this.fadeInCurve, clipTime / fadeIn) : 1;
+    const fadeOutGain = fadeOut > 0
+      ? getFadeGain(this.fadeOutCurve, (this.duration - clipTime) / fadeOut)
+      : 1;
+    return fadeInGain * fadeOutGain;
+  }
+
+  /**
+   * Whether the clip is sounding at a timeline time
+   */
+  containsTime(time: number): boolean {
+    return time >= this.startTime && time < this.getEndTime();
+  }
+
+  /**
+   * Cut the clip at a timeline time. This clip keeps the head and the returned
+   * clip, sharing the same buffer, takes the tail. Returns null if the time is
+   * not inside the clip.
+   */
+  splitAt(time: number): AudioClip | null {
+    const splitOffset = time - this.startTime;
+    if (splitOffset < MIN_CLIP_DURATION || this.duration - splitOffset < MIN_CLIP_DURATION) {
+      return null;
+    }
+
+    const sourceSplit = splitOffset / this.stretchRatio;
+    const tail = this.clone();
+    tail.startTime = time;
+    tail.sourceOffset = this.sourceOffset + sourceSplit;
+    tail.sourceDuration = this.sourceDuration - sourceSplit;
+    tail.fadeIn = 0;
+
+    // The head keeps the fade-in, the tail the fade-out
+    this.sourceDuration = sourceSplit;
+    this.fadeOut = 0;
+    return tail;
+  }
+
+  /**
+   * Copy the clip under a fresh id, sharing the same buffer
+   */
+  clone(): AudioClip {
+    const cloned = new AudioClip(this.file);
+    cloned.name = this.name;
+    cloned.audioBuffer = this.audioBuffer;
+    cloned.startTime = this.startTime;
+    cloned.sourceOffset = this.sourceOffset;
+    cloned.sourceDuration = this.sourceDuration;
+    cloned.tempo = this.tempo;
+    cloned.key = this.key;
+    cloned.setStretch(this.stretchRatio, this.stretchedBuffer, this.pitchRatio);
+    cloned.setFades(this.getFades());
+    return cloned;
+  }
+}
@@ -0,0 +1,53 @@
+import { AudioClip } from './audio-clip.model';
+import { AudioTrack } from './audio-track.model';
+
+describe('AudioTrack', () => {
+  let track: AudioTrack;
+
+  function createClip(startTime: number, duration: number): AudioClip {
+    const clip = new AudioClip(new File([], 'loop.wav'));
+    clip.sourceDuration = duration;
+    clip.setStartTime(startTime);
+    return clip;
+  }
+
+  beforeEach(() => {
+    track = new AudioTrack('Drums');
+    track.addClip(createClip(4, 2));
+    track.addClip(createClip(10, 3));
+  });
+
+  it('should toggle mute state', () => {
+    expect(track.isMuted).toBe(false);
+    track.toggleMute();
+    expect(track.isMuted).toBe(true);
+  });
+
+  it('should span from its first to its last clip', () => {
+    expect(track.startTime).toBe(4);
+    expect(track.getEndTime()).toBe(13);
+  });
+
+  it('should move all clips together', () => {
+    track.setStartTime(1);
+
+    expect(track.clips.map(clip => clip.startTime)).toEqual([1, 7]);
+  });
+
+  it('should not share effects settings with its clones', () => {
+    const cloned = track.clone();
+    track.setEffect('delay', { enabled: true, time: 0.5 });
+
+    expect(track.effects.delay.time).toBe(0.5);
+    expect(track.effects.delay.feedback).toBe(cloned.effects.delay.feedback);
+    expect(cloned.effects.delay.enabled).toBe(false);
+  });
+
+  it('should clamp pan to the stereo field and keep it in clones', () => {
+    track.setPan(-3);
+    expect(track.pan).toBe(-1);
+
+    track.setPan(0.25);
+    expect(track.clone().pan).toBe(0.25);
+  });
+});
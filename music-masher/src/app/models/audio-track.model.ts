@@ -1,26 +1,45 @@
+import { AudioClip } from './audio-clip.model';
+import { TempoEstimate } from '../utils/tempo-detection';
+import { KeyEstimate } from '../utils/key-detection';
+import { cloneEffects, createDefaultEffects, EffectType, TrackEffects } from './track-effects.model';
+import { AUTOMATION_PARAMETERS, createTrackAutomation, TrackAutomation } from './automation.model';
+
+/**
+ * A lane on the timeline holding any number of clips, with shared mixer settings
+ */
 export class AudioTrack {
   id: string;
   name: string;
-  audioBuffer: AudioBuffer | null;
-  file: File;
-  startTime: number; // Position on timeline in seconds
-  duration: number;
+  clips: AudioClip[];
   volume: number; // 0 to 1
+  pan: number; // -1 (left) to 1 (right)
   isMuted: boolean;
   isSolo: boolean;
   color: string;
+  warp: boolean; // Time-stretch clips to the project tempo
+  pitchSemitones: number;
+  pitchCents: number;
+  effects: TrackEffects;
+  automation: TrackAutomation;
+  outputBusId: string | null; // Group bus the track feeds, or null for the master
+  sends: Record<string, number>; // Post-fader send level per aux bus id, 0 to 1
 
-  constructor(file: File, id?: string) {
+  constructor(name: string, id?: string) {
     this.id = id || this.generateId();
-    this.name = file.name;
-    this.file = file;
-    this.audioBuffer = null;
-    this.startTime = 0;
-    this.duration = 0;
+    this.name = name;
+    this.clips = [];
     this.volume = 1.0;
+    this.pan = 0;
     this.isMuted = false;
     this.isSolo = false;
     this.color = this.generateRandomColor();
+    this.warp = false;
+    this.pitchSemitones = 0;
+    this.pitchCents = 0;
+    this.effects = createDefaultEffects();
+    this.automation = createTrackAutomation();
+    this.outputBusId = null;
+    this.sends = {};
   }
 
   private generateId(): string {
@@ -35,19 +54,93 @@ export class AudioTrack {
     return colors[Math.floor(Math.random() * colors.length)];
   }
 
-  setAudioBuffer(buffer: AudioBuffer): void {
-    this.audioBuffer = buffer;
-    this.duration = buffer.duration;
+  /**
+   * Start of the earliest clip on the lane
+   */
+  get startTime(): number {
+    return this.clips.length > 0 ? Math.min(...this.clips.map(clip => clip.startTime)) : 0;
+  }
+
+  addClip(clip: AudioClip, index: number = this.clips.length): void {
+    this.clips.splice(Math.max(0, Math.min(index, this.clips.length)), 0, clip);
+  }
+
+  removeClip(clipId: string): void {
+    this.clips = this.clips.filter(clip => clip.id !== clipId);
+  }
+
+  getClip(clipId: string): AudioClip | undefined {
+    return this.clips.find(clip => clip.id === clipId);
+  }
+
+  /**
+   * Tempo of the track's first analysed clip
+   */
+  getTempo(): TempoEstimate | undefined {
+    return this.clips.find(clip => clip.tempo)?.tempo;
   }
 
+  /**
+   * Key of the track's first analysed clip
+   */
+  getKey(): KeyEstimate | undefined {
+    return this.clips.find(clip => clip.key)?.key;
+  }
+
+  /**
+   * Set the pitch shift, clamped to two octaves either way
+   */
+  setPitch(semitones: number, cents: number): void {
+    this.pitchSemitones = Math.max(-24, Math.min(24, Math.round(semitones)));
+    this.pitchCents = Math.max(-100, Math.min(100, Math.round(cents)));
+  }
+
+  /**
+   * Frequency multiplier of the pitch shift
+   */
+  getPitchRatio(): number {
+    return Math.pow(2, (this.pitchSemitones + this.pitchCents / 100) / 12);
+  }
+
+  /**
+   * Change some settings of one insert effect
+   */
+  setEffect<K extends EffectType>(type: K, settings: Partial<TrackEffects[K]>): void {
+    this.effects = { ...this.effects, [type]: { ...this.effects[type], ...settings } };
+  }
+
+  /**
+   * Shift every clip so the earliest starts at a time, keeping their spacing
+   */
   setStartTime(time: number): void {
-    this.startTime = Math.max(0, time);
+    const delta = Math.max(0, time) - this.startTime;
+    this.clips.forEach(clip => clip.setStartTime(clip.startTime + delta));
   }
 
   setVolume(volume: number): void {
     this.volume = Math.max(0, Math.min(1, volume));
   }
 
+  setPan(pan: number): void {
+    this.pan = Math.max(-1, Math.min(1, pan));
+  }
+
+  /**
+   * Level sent to an aux bus, 0 when there is no send
+   */
+  getSend(busId: string): number {
+    return this.sends[busId] ?? 0;
+  }
+
+  /**
+   * Set the level sent to an aux bus, dropping the send at 0
+   */
+  setSend(busId: string, level: number): void {
+    const { [busId]: _, ...others } = this.sends;
+    const clamped = Math.max(0, Math.min(1, level));
+    this.sends = clamped > 0 ? { ...others, [busId]: clamped } : others;
+  }
+
   toggleMute(): void {
     this.isMuted = !this.isMuted;
   }
@@ -56,19 +149,31 @@ export class AudioTrack {
     this.isSolo = !this.isSolo;
   }
 
+  /**
+   * End of the last clip on the lane
+   */
   getEndTime(): number {
-    return this.startTime + this.duration;
+    return this.clips.length > 0 ? Math.max(...this.clips.map(clip => clip.getEndTime())) : 0;
   }
 
+  /**
+   * Copy the lane settings under a fresh id, without clips
+   */
   clone(): AudioTrack {
-    const cloned = new AudioTrack(this.file, `${this.id}_clone`);
-    cloned.audioBuffer = this.audioBuffer;
-    cloned.startTime = this.startTime;
-    cloned.duration = this.duration;
+    const cloned = new AudioTrack(this.name);
     cloned.volume = this.volume;
+    cloned.pan = this.pan;
     cloned.isMuted = this.isMuted;
     cloned.isSolo = this.isSolo;
     cloned.color = this.color;
+    cloned.warp = this.warp;
+    cloned.setPitch(this.pitchSemitones, this.pitchCents);
+    cloned.effects = cloneEffects(this.effects);
+    cloned.outputBusId = this.outputBusId;
+    cloned.sends = { ...this.sends };
+    AUTOMATION_PARAMETERS.forEach(parameter => {
+      cloned.automation[parameter] = this.automation[parameter].clone();
+    });
     return cloned;
   }
 }
@@ -0,0 +1,33 @@
+import { AutomationLane } from './automation.model';
+
+describe('AutomationLane', () => {
+  it('should keep points in time order', () => {
+    const lane = new AutomationLane('volume');
+    lane.addPoint(4, 0.5);
+    const index = lane.addPoint(2, 1);
+
+    expect(index).toBe(0);
+    expect(lane.points.map(point => point.time)).toEqual([2, 4]);
+  });
+
+  it('should interpolate between points and hold beyond them', () => {
+    const lane = new AutomationLane('volume', [{ time: 2, value: 1 }, { time: 4, value: 0 }]);
+
+    expect(lane.getValueAt(0)).toBe(1);
+    expect(lane.getValueAt(3)).toBeCloseTo(0.5);
+    expect(lane.getValueAt(10)).toBe(0);
+  });
+
+  it('should interpolate cutoff on a log scale', () => {
+    const lane = new AutomationLane('cutoff', [{ time: 0, value: 100 }, { time: 2, value: 10000 }]);
+
+    expect(lane.getValueAt(1)).toBeCloseTo(1000);
+  });
+
+  it('should clamp values and keep moved points between their neighbours', () => {
+    const lane = new AutomationLane('pan', [{ time: 1, value: 0 }, { time: 3, value: 0 }]);
+    lane.movePoint(0, 5, -4);
+
+    expect(lane.points[0]).toEqual({ time: 3, value: -1 });
+  });
+});
@@ -0,0 +1,120 @@
+export type AutomationParameter = 'volume' | 'pan' | 'cutoff';
+
+export interface AutomationPoint {
+  time: number; // seconds on the timeline
+  value: number;
+}
+
+export interface AutomationRange {
+  label: string;
+  min: number;
+  max: number;
+  defaultValue: number;
+  exponential: boolean; // Ramp and draw on a log scale, e.g. for frequencies
+}
+
+export const AUTOMATION_RANGES: Record<AutomationParameter, AutomationRange> = {
+  volume: { label: 'Volume', min: 0, max: 1, defaultValue: 1, exponential: false },
+  pan: { label: 'Pan', min: -1, max: 1, defaultValue: 0, exponential: false },
+  cutoff: { label: 'Filter Cutoff', min: 20, max: 20000, defaultValue: 8000, exponential: true }
+};
+
+export const AUTOMATION_PARAMETERS = Object.keys(AUTOMATION_RANGES) as AutomationParameter[];
+
+/**
+ * Breakpoints of one parameter over time, kept sorted by time.
+ * Values are interpolated between points and held before the first and after the last;
+ * a lane without points leaves the parameter at its static setting.
+ */
+export class AutomationLane {
+  points: AutomationPoint[];
+
+  constructor(readonly parameter: AutomationParameter, points: AutomationPoint[] = []) {
+    this.points = [];
+    points.forEach(point => this.addPoint(point.time, point.value));
+  }
+
+  get range(): AutomationRange {
+    return AUTOMATION_RANGES[this.parameter];
+  }
+
+  hasPoints(): boolean {
+    return this.points.length > 0;
+  }
+
+  /**
+   * Insert a point in time order, returning its index
+   */
+  addPoint(time: number, value: number): number {
+    const point = { time: Math.max(0, time), value: this.clampValue(value) };
+    const index = this.points.findIndex(existing => existing.time > point.time);
+    const insertAt = index === -1 ? this.points.length : index;
+    this.points.splice(insertAt, 0, point);
+    return insertAt;
+  }
+
+  /**
+   * Move a point, keeping it between its neighbours so the order never changes
+   */
+  movePoint(index: number, time: number, value: number): void {
+    const point = this.points[index];
+    if (!point) {
+      return;
+    }
+
+    const earliest = index > 0 ? this.points[index - 1].time : 0;
+    const latest = index < this.points.length - 1 ? this.points[index + 1].time : Infinity;
+    point.time = Math.max(earliest, Math.min(latest, time));
+    point.value = this.clampValue(value);
+  }
+
+  removePoint(index: number): void {
+    this.points.splice(index, 1);
+  }
+
+  /**
+   * Value of the envelope at a time
+   */
+  getValueAt(time: number): number {
+    if (this.points.length === 0) {
+      return this.range.defaultValue;
+    }
+
+    const nextIndex = this.points.findIndex(point => point.time > time);
+    if (nextIndex === 0) {
+      return this.points[0].value;
+    }
+    if (nextIndex === -1) {
+      return this.points[this.points.length - 1].value;
+    }
+
+    const previous = this.points[nextIndex - 1];
+    const next = this.points[nextIndex];
+    const progress = (time - previous.time) / (next.time - previous.time);
+
+    return this.range.exponential
+      ? previous.value * Math.pow(next.value / previous.value, progress)
+      : previous.value + (next.value - previous.value) * progress;
+  }
+
+  clone(): AutomationLane {
+    return new AutomationLane(this.parameter, this.points);
+  }
+
+  private clampValue(value: number): number {
+    return Math.max(this.range.min, Math.min(this.range.max, value));
+  }
+}
+
+export type TrackAutomation = Record<AutomationParameter, AutomationLane>;
+
+/**
+ * Empty automation lanes for every parameter
+ */
+export function createTrackAutomation(): TrackAutomation {
+  return {
+    volume: new AutomationLane('volume'),
+    pan: new AutomationLane('pan'),
+    cutoff: new AutomationLane('cutoff')
+  };
+}
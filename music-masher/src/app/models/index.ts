@@ -1,2 +1,9 @@
+export * from './audio-clip.model';
 export * from './audio-track.model';
+export * from './track-effects.model';
+export * from './automation.model';
+export * from './mix-bus.model';
+export * from './marker.model';
 export * from './timeline.model';
+export * from './project.model';
+export * from './session.model';
@@ -0,0 +1,23 @@
+/**
+ * A named position on the timeline, such as the start of the intro or the drop.
+ * Markers show on the ruler, can be jumped between and act as snap targets.
+ */
+export class Marker {
+  id: string;
+  name: string;
+  time: number; // Position on timeline in seconds
+
+  constructor(name: string, time: number, id?: string) {
+    this.id = id || this.generateId();
+    this.name = name;
+    this.time = Math.max(0, time);
+  }
+
+  private generateId(): string {
+    return `marker_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  setTime(time: number): void {
+    this.time = Math.max(0, time);
+  }
+}
@@ -0,0 +1,73 @@
+import { createDefaultEffects, EffectType, TrackEffects } from './track-effects.model';
+
+export type BusKind = 'group' | 'aux';
+
+export type AuxEffectType = 'reverb' | 'delay';
+
+/**
+ * A mixer bus between the tracks and the master.
+ * Group buses sum the tracks routed into them under one fader, mute and solo;
+ * aux buses take post-fader sends from any track and return them through shared effects.
+ */
+export class MixBus {
+  id: string;
+  name: string;
+  kind: BusKind;
+  volume: number; // 0 to 1
+  isMuted: boolean;
+  isSolo: boolean; // Groups only; aux returns stay audible while anything is soloed
+  effects: TrackEffects;
+
+  constructor(name: string, kind: BusKind, id?: string) {
+    this.id = id || this.generateId();
+    this.name = name;
+    this.kind = kind;
+    this.volume = 1.0;
+    this.isMuted = false;
+    this.isSolo = false;
+    this.effects = createDefaultEffects();
+  }
+
+  private generateId(): string {
+    return `bus_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * The effect an aux bus returns, if it has one switched on
+   */
+  getAuxEffect(): AuxEffectType | undefined {
+    if (this.effects.reverb.enabled) {
+      return 'reverb';
+    }
+    return this.effects.delay.enabled ? 'delay' : undefined;
+  }
+
+  /**
+   * Change some settings of one of the bus effects
+   */
+  setEffect<K extends EffectType>(type: K, settings: Partial<TrackEffects[K]>): void {
+    this.effects = { ...this.effects, [type]: { ...this.effects[type], ...settings } };
+  }
+
+  setVolume(volume: number): void {
+    this.volume = Math.max(0, Math.min(1, volume));
+  }
+
+  toggleMute(): void {
+    this.isMuted = !this.isMuted;
+  }
+
+  toggleSolo(): void {
+    this.isSolo = !this.isSolo;
+  }
+}
+
+/**
+ * An aux bus returning one fully wet effect, since the dry signal already reaches
+ * the master through the sending tracks
+ */
+export function createAuxBus(name: string, effect: AuxEffectType): MixBus {
+  const bus = new MixBus(name, 'aux');
+  bus.setEffect(effect, { enabled: true, mix: 1 });
+  return bus;
+}
@@ -0,0 +1,88 @@
+import { LoopRegion, MetronomeSettings, RulerMode, SnapDivision, TimeSignature } from './timeline.model';
+import { TrackEffects } from './track-effects.model';
+import { ClipFades } from './audio-clip.model';
+import { AutomationParameter, AutomationPoint } from './automation.model';
+import { BusKind } from './mix-bus.model';
+import { TempoEstimate } from '../utils/tempo-detection';
+import { KeyEstimate } from '../utils/key-detection';
+
+export const PROJECT_SCHEMA_VERSION = 2;
+export const PROJECT_MANIFEST_NAME = 'project.json';
+export const PROJECT_FILE_EXTENSION = '.mmproj';
+
+/**
+ * Where a clip's source audio lives: inside the bundle, alongside it on disk,
+ * or in the browser's autosave storage
+ */
+export type SerializedAudioSource =
+  | { kind: 'embedded'; path: string; fileName: string; mimeType: string }
+  | { kind: 'referenced'; fileName: string; mimeType: string; size: number }
+  | { kind: 'stored'; key: string; fileName: string; mimeType: string };
+
+export interface SerializedClip {
+  id: string;
+  name: string;
+  startTime: number;
+  sourceOffset: number;
+  sourceDuration?: number; // Whole buffer when absent
+  tempo?: TempoEstimate; // Re-detected when absent
+  key?: KeyEstimate; // Re-detected when absent
+  fades: ClipFades;
+  audio: SerializedAudioSource;
+}
+
+export interface SerializedTrack {
+  id: string;
+  name: string;
+  volume: number;
+  pan: number;
+  isMuted: boolean;
+  isSolo: boolean;
+  color: string;
+  warp: boolean;
+  pitchSemitones: number;
+  pitchCents: number;
+  effects: TrackEffects;
+  automation: Record<AutomationParameter, AutomationPoint[]>;
+  outputBusId: string | null;
+  sends: Record<string, number>;
+  clips: SerializedClip[];
+}
+
+export interface SerializedBus {
+  id: string;
+  name: string;
+  kind: BusKind;
+  volume: number;
+  isMuted: boolean;
+  isSolo: boolean;
+  effects: TrackEffects;
+}
+
+export interface SerializedMarker {
+  id: string;
+  name: string;
+  time: number;
+}
+
+export interface SerializedTimeline {
+  bpm: number;
+  timeSignature: TimeSignature;
+  snap: SnapDivision;
+  rulerMode: RulerMode;
+  masterVolume: number;
+  zoom: number;
+  loop: LoopRegion | null;
+  isLooping: boolean;
+  metronome: MetronomeSettings;
+  markers: SerializedMarker[];
+  buses: SerializedBus[];
+  tracks: SerializedTrack[];
+}
+
+export interface ProjectManifest {
+  version: number;
+  name: string;
+  savedAt: string;
+  timeline: SerializedTimeline;
+}
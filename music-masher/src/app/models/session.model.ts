@@ -0,0 +1,24 @@
+import { ProjectManifest } from './project.model';
+
+/**
+ * An autosaved timeline. Audio is stored separately and shared between sessions by key.
+ */
+export interface SessionRecord {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  manifest: ProjectManifest;
+  audioKeys: string[];
+}
+
+export interface StoredAudioRecord {
+  key: string;
+  file: File;
+}
+
+export interface SessionSummary {
+  id: string;
+  updatedAt: number;
+  trackCount: number;
+  trackNames: string[];
+}
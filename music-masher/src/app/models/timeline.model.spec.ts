@@ -0,0 +1,194 @@
+import { AudioClip } from './audio-clip.model';
+import { AudioTrack } from './audio-track.model';
+import { Marker } from './marker.model';
+import { MixBus } from './mix-bus.model';
+import { MAX_COUNT_IN_BARS, MIN_LOOP_SECONDS, Timeline } from './timeline.model';
+
+describe('Timeline grid', () => {
+  let timeline: Timeline;
+
+  beforeEach(() => {
+    timeline = new Timeline();
+    timeline.setBpm(120);
+  });
+
+  it('should derive beat and bar lengths from the tempo and time signature', () => {
+    expect(timeline.getBeatDuration()).toBe(0.5);
+    expect(timeline.getBarDuration()).toBe(2);
+
+    timeline.setTimeSignature({ beatsPerBar: 6, beatUnit: 8 });
+    expect(timeline.getBeatDuration()).toBe(0.25);
+    expect(timeline.getBarDuration()).toBe(1.5);
+  });
+
+  it('should snap to the selected division', () => {
+    timeline.snap = 'beat';
+    expect(timeline.snapTime(1.3)).toBe(1.5);
+
+    timeline.snap = '1/16';
+    expect(timeline.snapTime(1.3)).toBe(1.25);
+
+    timeline.snap = 'off';
+    expect(timeline.snapTime(1.3)).toBe(1.3);
+  });
+
+  it('should count bars and beats from 1', () => {
+    expect(timeline.getBarBeat(0)).toEqual({ bar: 1, beat: 1 });
+    expect(timeline.getBarBeat(2.5)).toEqual({ bar: 2, beat: 2 });
+  });
+});
+
+describe('Timeline loop region', () => {
+  let timeline: Timeline;
+
+  beforeEach(() => {
+    timeline = new Timeline();
+  });
+
+  it('should order the loop bounds and keep a minimum length', () => {
+    timeline.setLoop(8, 4);
+    expect(timeline.loop).toEqual({ start: 4, end: 8 });
+
+    timeline.setLoop(3, 3);
+    expect(timeline.loop!.end - timeline.loop!.start).toBe(MIN_LOOP_SECONDS);
+  });
+
+  it('should only report the loop while looping is on', () => {
+    timeline.setLoop(0, 4);
+    expect(timeline.getActiveLoop()).toBeUndefined();
+
+    timeline.isLooping = true;
+    expect(timeline.getActiveLoop()).toEqual({ start: 0, end: 4 });
+
+    timeline.clearLoop();
+    expect(timeline.getActiveLoop()).toBeUndefined();
+    expect(timeline.isLooping).toBeFalse();
+  });
+});
+
+describe('Timeline playhead', () => {
+  it('should keep the playhead within the timeline unless it is extended', () => {
+    const timeline = new Timeline();
+    timeline.addTrack(new AudioTrack('Empty'));
+    expect(timeline.duration).toBe(60);
+
+    timeline.setCurrentTime(75);
+    expect(timeline.currentTime).toBe(60);
+
+    timeline.extendDuration(75);
+    timeline.setCurrentTime(75);
+    expect(timeline.currentTime).toBe(75);
+
+    timeline.updateDuration();
+    expect(timeline.duration).toBe(60);
+  });
+});
+
+describe('Timeline metronome', () => {
+  it('should keep the volume and count-in in range', () => {
+    const timeline = new Timeline();
+    timeline.setMetronome({ volume: 2, countInBars: 9 });
+
+    expect(timeline.metronome).toEqual({ isEnabled: false, volume: 1, countInBars: MAX_COUNT_IN_BARS });
+  });
+
+  it('should time the count-in in bars of the current tempo and meter', () => {
+    const timeline = new Timeline();
+    timeline.setBpm(120);
+    timeline.setTimeSignature({ beatsPerBar: 3, beatUnit: 4 });
+    timeline.setMetronome({ countInBars: 2 });
+
+    expect(timeline.getCountInDuration()).toBeCloseTo(3);
+  });
+});
+
+describe('Timeline markers', () => {
+  let timeline: Timeline;
+
+  beforeEach(() => {
+    timeline = new Timeline();
+    timeline.addMarker(new Marker('Drop', 32));
+    timeline.addMarker(new Marker('Intro', 0));
+    timeline.addMarker(new Marker('Chorus', 16));
+  });
+
+  it('should keep markers in time order', () => {
+    expect(timeline.markers.map(marker => marker.name)).toEqual(['Intro', 'Chorus', 'Drop']);
+  });
+
+  it('should find the markers either side of a time', () => {
+    expect(timeline.getNextMarker(16)?.name).toBe('Drop');
+    expect(timeline.getPreviousMarker(16)?.name).toBe('Intro');
+    expect(timeline.getNextMarker(32)).toBeUndefined();
+  });
+
+  it('should only snap to a marker within the tolerance', () => {
+    expect(timeline.findMarkerTime(15.8, 0.25)).toBe(16);
+    expect(timeline.findMarkerTime(15.5, 0.25)).toBeUndefined();
+  });
+});
+
+describe('Timeline crossfades', () => {
+  function addClip(timeline: Timeline, startTime: number, duration: number): AudioClip {
+    const clip = new AudioClip(new File([], 'loop.wav'));
+    clip.sourceDuration = duration;
+    clip.setStartTime(startTime);
+    const track = new AudioTrack('Loop');
+    track.addClip(clip);
+    timeline.addTrack(track);
+    return clip;
+  }
+
+  it('should find staggered overlaps between tracks', () => {
+    const timeline = new Timeline();
+    const first = addClip(timeline, 0, 10);
+    const second = addClip(timeline, 8, 10);
+
+    const [candidate, ...others] = timeline.findCrossfades();
+    expect(others.length).toBe(0);
+    expect(candidate.outgoing).toBe(first);
+    expect(candidate.incoming).toBe(second);
+    expect(candidate.start).toBe(8);
+    expect(candidate.end).toBe(10);
+  });
+
+  it('should not offer a crossfade into a clip that ends inside another', () => {
+    const timeline = new Timeline();
+    addClip(timeline, 0, 10);
+    addClip(timeline, 2, 4);
+
+    expect(timeline.findCrossfades().length).toBe(0);
+  });
+});
+
+describe('Timeline group buses', () => {
+  let timeline: Timeline;
+  let vocals: AudioTrack;
+  let drums: AudioTrack;
+  let group: MixBus;
+
+  beforeEach(() => {
+    timeline = new Timeline();
+    vocals = new AudioTrack('Vocals');
+    drums = new AudioTrack('Drums');
+    group = new MixBus('Vox', 'group');
+    timeline.addTrack(vocals);
+    timeline.addTrack(drums);
+    timeline.addBus(group);
+    vocals.outputBusId = group.id;
+  });
+
+  it('should silence the tracks of a muted group', () => {
+    group.toggleMute();
+
+    expect(timeline.isTrackAudible(vocals)).toBe(false);
+    expect(timeline.isTrackAudible(drums)).toBe(true);
+  });
+
+  it('should hear only the tracks of a soloed group', () => {
+    group.toggleSolo();
+
+    expect(timeline.isTrackAudible(vocals)).toBe(true);
+    expect(timeline.isTrackAudible(drums)).toBe(false);
+  });
+});
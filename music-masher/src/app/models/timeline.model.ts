@@ -1,19 +1,87 @@
+import { AudioClip } from './audio-clip.model';
 import { AudioTrack } from './audio-track.model';
+import { MixBus } from './mix-bus.model';
+import { Marker } from './marker.model';
+
+export interface TimeSignature {
+  beatsPerBar: number;
+  beatUnit: number; // Note value of one beat, e.g. 4 for quarter notes
+}
+
+export type SnapDivision = 'bar' | 'beat' | '1/8' | '1/16' | 'off';
+
+export type RulerMode = 'time' | 'bars';
+
+/**
+ * Two clips on different tracks where one starts while the other is still playing
+ * and ends after it, so the overlap can become a crossfade
+ */
+export interface CrossfadeCandidate {
+  outgoing: AudioClip;
+  incoming: AudioClip;
+  incomingTrackId: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Stretch of the timeline that playback cycles through while looping is on
+ */
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+/**
+ * Click track settings. The metronome plays along with the transport but is never exported.
+ */
+export interface MetronomeSettings {
+  isEnabled: boolean;
+  volume: number; // 0 to 1
+  countInBars: number; // Bars clicked before playback or recording starts
+}
+
+/** How close to a marker the playhead counts as being on it when jumping between markers */
+const MARKER_EPSILON = 0.01;
+
+export const MIN_BPM = 20;
+/** Shortest loop region, so a cycle always outlasts the transport's look-ahead */
+export const MIN_LOOP_SECONDS = 0.25;
+export const MAX_BPM = 300;
+export const MAX_COUNT_IN_BARS = 4;
 
 export class Timeline {
   tracks: AudioTrack[];
+  buses: MixBus[];
+  markers: Marker[]; // Ordered by time
   currentTime: number;
   zoom: number; // pixels per second
   isPlaying: boolean;
   bpm: number;
+  timeSignature: TimeSignature;
+  snap: SnapDivision;
+  rulerMode: RulerMode;
+  masterVolume: number; // 0 to 1
+  loop: LoopRegion | null;
+  isLooping: boolean;
+  metronome: MetronomeSettings;
   duration: number;
 
   constructor() {
     this.tracks = [];
+    this.buses = [];
+    this.markers = [];
     this.currentTime = 0;
     this.zoom = 50; // 50 pixels per second by default
     this.isPlaying = false;
     this.bpm = 120;
+    this.timeSignature = { beatsPerBar: 4, beatUnit: 4 };
+    this.snap = 'off';
+    this.rulerMode = 'time';
+    this.masterVolume = 1;
+    this.loop = null;
+    this.isLooping = false;
+    this.metronome = { isEnabled: false, volume: 0.5, countInBars: 0 };
     this.duration = 0;
   }
 
@@ -22,6 +90,11 @@ export class Timeline {
     this.updateDuration();
   }
 
+  insertTrack(track: AudioTrack, index: number): void {
+    this.tracks.splice(Math.max(0, Math.min(index, this.tracks.length)), 0, track);
+    this.updateDuration();
+  }
+
   removeTrack(trackId: string): void {
     this.tracks = this.tracks.filter(track => track.id !== trackId);
     this.updateDuration();
@@ -31,16 +104,170 @@ export class Timeline {
     return this.tracks.find(track => track.id === trackId);
   }
 
+  addBus(bus: MixBus, index: number = this.buses.length): void {
+    this.buses.splice(Math.max(0, Math.min(index, this.buses.length)), 0, bus);
+  }
+
+  removeBus(busId: string): void {
+    this.buses = this.buses.filter(bus => bus.id !== busId);
+  }
+
+  getBus(busId: string): MixBus | undefined {
+    return this.buses.find(bus => bus.id === busId);
+  }
+
+  getGroupBuses(): MixBus[] {
+    return this.buses.filter(bus => bus.kind === 'group');
+  }
+
+  getAuxBuses(): MixBus[] {
+    return this.buses.filter(bus => bus.kind === 'aux');
+  }
+
+  /**
+   * Add a marker, keeping the markers in time order
+   */
+  addMarker(marker: Marker): void {
+    this.markers.push(marker);
+    this.sortMarkers();
+  }
+
+  removeMarker(markerId: string): void {
+    this.markers = this.markers.filter(marker => marker.id !== markerId);
+  }
+
+  getMarker(markerId: string): Marker | undefined {
+    return this.markers.find(marker => marker.id === markerId);
+  }
+
+  /**
+   * Restore time order after a marker moved
+   */
+  sortMarkers(): void {
+    this.markers.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * First marker after a time
+   */
+  getNextMarker(time: number): Marker | undefined {
+    return this.markers.find(marker => marker.time > time + MARKER_EPSILON);
+  }
+
+  /**
+   * Last marker before a time
+   */
+  getPreviousMarker(time: number): Marker | undefined {
+    return [...this.markers].reverse().find(marker => marker.time < time - MARKER_EPSILON);
+  }
+
+  /**
+   * Time of the marker closest to a time, if one lies within the tolerance
+   */
+  findMarkerTime(time: number, tolerance: number): number | undefined {
+    let closest: number | undefined;
+    this.markers.forEach(marker => {
+      const distance = Math.abs(marker.time - time);
+      if (distance <= tolerance && (closest === undefined || distance < Math.abs(closest - time))) {
+        closest = marker.time;
+      }
+    });
+    return closest;
+  }
+
+  /**
+   * Group bus a track feeds, if it is routed to one that still exists
+   */
+  getTrackGroup(track: AudioTrack): MixBus | undefined {
+    const bus = track.outputBusId ? this.getBus(track.outputBusId) : undefined;
+    return bus?.kind === 'group' ? bus : undefined;
+  }
+
+  /**
+   * Whether a track contributes to the mix, honouring its own and its group's mute and solo
+   */
+  isTrackAudible(track: AudioTrack): boolean {
+    const group = this.getTrackGroup(track);
+    if (track.isMuted || group?.isMuted) {
+      return false;
+    }
+
+    // While anything is soloed, only soloed tracks and the tracks of soloed groups are heard
+    return !this.hasAnySolo() || track.isSolo || !!group?.isSolo;
+  }
+
+  /**
+   * Find a clip and the lane it sits on
+   */
+  findClip(clipId: string): { track: AudioTrack; clip: AudioClip } | undefined {
+    for (const track of this.tracks) {
+      const clip = track.getClip(clipId);
+      if (clip) {
+        return { track, clip };
+      }
+    }
+    return undefined;
+  }
+
+  getClip(clipId: string): AudioClip | undefined {
+    return this.findClip(clipId)?.clip;
+  }
+
+  /**
+   * Every pair of clips on different tracks that overlap in a staggered way
+   */
+  findCrossfades(): CrossfadeCandidate[] {
+    const candidates: CrossfadeCandidate[] = [];
+
+    this.tracks.forEach(outgoingTrack => {
+      this.tracks
+        .filter(incomingTrack => incomingTrack !== outgoingTrack)
+        .forEach(incomingTrack => {
+          outgoingTrack.clips.forEach(outgoing => {
+            incomingTrack.clips
+              .filter(incoming =>
+                incoming.startTime > outgoing.startTime &&
+                incoming.startTime < outgoing.getEndTime() &&
+                incoming.getEndTime() > outgoing.getEndTime()
+              )
+              .forEach(incoming => {
+                candidates.push({
+                  outgoing,
+                  incoming,
+                  incomingTrackId: incomingTrack.id,
+                  start: incoming.startTime,
+                  end: outgoing.getEndTime()
+                });
+              });
+          });
+        });
+    });
+
+    return candidates;
+  }
+
   updateDuration(): void {
     if (this.tracks.length === 0) {
       this.duration = 0;
       return;
     }
-    
-    const maxEndTime = Math.max(
-      ...this.tracks.map(track => track.getEndTime())
-    );
-    this.duration = Math.max(maxEndTime, 60); // Minimum 60 seconds
+
+    this.duration = Math.max(this.getLastTrackEndTime(), 60); // Minimum 60 seconds
+  }
+
+  /**
+   * Lengthen the timeline to reach a time, e.g. while recording past the end.
+   * The next updateDuration() shrinks it back to the tracks.
+   */
+  extendDuration(time: number): void {
+    this.duration = Math.max(this.duration, time);
+  }
+
+  getLastTrackEndTime(): number {
+    if (this.tracks.length === 0) {
+      return 0;
+    }
+    return Math.max(...this.tracks.map(track => track.getEndTime()));
   }
 
   setCurrentTime(time: number): void {
@@ -51,6 +278,111 @@ export class Timeline {
     this.zoom = Math.max(10, Math.min(200, zoom)); // Between 10 and 200 pixels per second
   }
 
+  setMasterVolume(volume: number): void {
+    this.masterVolume = Math.max(0, Math.min(1, volume));
+  }
+
+  /**
+   * Set the loop region from two times in either order, at least MIN_LOOP_SECONDS long
+   */
+  setLoop(from: number, to: number): void {
+    const start = Math.max(0, Math.min(from, to));
+    const end = Math.max(start + MIN_LOOP_SECONDS, Math.max(from, to));
+    this.loop = { start, end };
+  }
+
+  clearLoop(): void {
+    this.loop = null;
+    this.isLooping = false;
+  }
+
+  /**
+   * The loop region while looping is on
+   */
+  getActiveLoop(): LoopRegion | undefined {
+    return this.isLooping && this.loop ? this.loop : undefined;
+  }
+
+  /**
+   * Change some metronome settings, keeping volume and count-in in range
+   */
+  setMetronome(settings: Partial<MetronomeSettings>): void {
+    const metronome = { ...this.metronome, ...settings };
+    this.metronome = {
+      isEnabled: metronome.isEnabled,
+      volume: Math.max(0, Math.min(1, metronome.volume)),
+      countInBars: Math.max(0, Math.min(MAX_COUNT_IN_BARS, Math.round(metronome.countInBars)))
+    };
+  }
+
+  /**
+   * Length of the metronome count-in in seconds
+   */
+  getCountInDuration(): number {
+    return this.metronome.countInBars * this.getBarDuration();
+  }
+
+  setBpm(bpm: number): void {
+    this.bpm = Math.max(MIN_BPM, Math.min(MAX_BPM, bpm));
+  }
+
+  setTimeSignature(timeSignature: TimeSignature): void {
+    this.timeSignature = {
+      beatsPerBar: Math.max(1, Math.min(16, Math.round(timeSignature.beatsPerBar))),
+      beatUnit: [2, 4, 8, 16].includes(timeSignature.beatUnit) ? timeSignature.beatUnit : 4
+    };
+  }
+
+  /**
+   * Length of one beat in seconds; the BPM counts quarter notes
+   */
+  getBeatDuration(): number {
+    return (60 / this.bpm) * (4 / this.timeSignature.beatUnit);
+  }
+
+  getBarDuration(): number {
+    return this.getBeatDuration() * this.timeSignature.beatsPerBar;
+  }
+
+  /**
+   * Spacing of the snap grid in seconds, or 0 when snapping is off
+   */
+  getSnapInterval(): number {
+    const quarter = 60 / this.bpm;
+    switch (this.snap) {
+      case 'bar':
+        return this.getBarDuration();
+      case 'beat':
+        return this.getBeatDuration();
+      case '1/8':
+        return quarter / 2;
+      case '1/16':
+        return quarter / 4;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Round a time to the nearest grid line
+   */
+  snapTime(time: number): number {
+    const interval = this.getSnapInterval();
+    const snapped = interval > 0 ? Math.round(time / interval) * interval : time;
+    return Math.max(0, snapped);
+  }
+
+  /**
+   * Bar and beat (both counted from 1) playing at a time
+   */
+  getBarBeat(time: number): { bar: number; beat: number } {
+    const beats = Math.floor(Math.max(0, time) / this.getBeatDuration() + 1e-6);
+    return {
+      bar: Math.floor(beats / this.timeSignature.beatsPerBar) + 1,
+      beat: (beats % this.timeSignature.beatsPerBar) + 1
+    };
+  }
+
   play(): void {
     this.isPlaying = true;
   }
@@ -65,9 +397,7 @@ export class Timeline {
   }
 
   getActiveTracks(time: number): AudioTrack[] {
-    return this.tracks.filter(track => {
-      return time >= track.startTime && time < track.getEndTime();
-    });
+    return this.tracks.filter(track => track.clips.some(clip => clip.containsTime(time)));
   }
 
   getSoloTracks(): AudioTrack[] {
@@ -78,6 +408,13 @@ export class Timeline {
     return this.tracks.some(track => track.isSolo);
   }
 
+  /**
+   * Whether any track or group bus is soloed
+   */
+  hasAnySolo(): boolean {
+    return this.hasAnySoloTracks() || this.getGroupBuses().some(bus => bus.isSolo);
+  }
+
   clear(): void {
     this.tracks = [];
     this.currentTime = 0;
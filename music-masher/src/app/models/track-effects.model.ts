@@ -0,0 +1,75 @@
+export interface EqSettings {
+  enabled: boolean;
+  low: number; // Gain in dB
+  mid: number;
+  high: number;
+}
+
+export type FilterType = 'lowpass' | 'highpass';
+
+export interface FilterSettings {
+  enabled: boolean;
+  type: FilterType;
+  frequency: number; // Hz
+  resonance: number; // Q
+}
+
+export interface CompressorSettings {
+  enabled: boolean;
+  threshold: number; // dB
+  ratio: number;
+  attack: number; // seconds
+  release: number; // seconds
+}
+
+export interface DelaySettings {
+  enabled: boolean;
+  time: number; // seconds
+  feedback: number; // 0 to 0.9
+  mix: number; // 0 (dry) to 1 (wet)
+}
+
+export interface ReverbSettings {
+  enabled: boolean;
+  decay: number; // seconds
+  mix: number; // 0 (dry) to 1 (wet)
+}
+
+/**
+ * A track's insert effects, processed in declaration order
+ */
+export interface TrackEffects {
+  eq: EqSettings;
+  filter: FilterSettings;
+  compressor: CompressorSettings;
+  delay: DelaySettings;
+  reverb: ReverbSettings;
+}
+
+export type EffectType = keyof TrackEffects;
+
+/**
+ * Effects settings of a new track, every effect bypassed
+ */
+export function createDefaultEffects(): TrackEffects {
+  return {
+    eq: { enabled: false, low: 0, mid: 0, high: 0 },
+    filter: { enabled: false, type: 'lowpass', frequency: 8000, resonance: 1 },
+    compressor: { enabled: false, threshold: -24, ratio: 4, attack: 0.003, release: 0.25 },
+    delay: { enabled: false, time: 0.375, feedback: 0.35, mix: 0.3 },
+    reverb: { enabled: false, decay: 2, mix: 0.25 }
+  };
+}
+
+/**
+ * Deep copy of a set of effects settings
+ */
+export function cloneEffects(effects: TrackEffects): TrackEffects {
+  return {
+    eq: { ...effects.eq },
+    filter: { ...effects.filter },
+    compressor: { ...effects.compressor },
+    delay: { ...effects.delay },
+    reverb: { ...effects.reverb }
+  };
+}
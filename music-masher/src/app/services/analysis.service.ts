@@ -0,0 +1,49 @@
+import { Injectable } from '@angular/core';
+import { detectTempo, TempoEstimate } from '../utils/tempo-detection';
+import { detectKey, KeyEstimate } from '../utils/key-detection';
+import { AlignmentEstimate, findAlignment } from '../utils/alignment';
+import { AudioTrack } from '../models';
+
+/**
+ * Musical analysis of decoded audio. Tempo and key are cached per buffer so clips
+ * cut from the same file are only analysed once.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AnalysisService {
+  private tempoCache = new WeakMap<AudioBuffer, TempoEstimate | null>();
+  private keyCache = new WeakMap<AudioBuffer, KeyEstimate | null>();
+
+  /**
+   * Estimate the tempo and downbeat of a buffer.
+   * Runs after yielding to the event loop so the UI can render the new clip first.
+   */
+  async analyzeTempo(buffer: AudioBuffer): Promise<TempoEstimate | null> {
+    if (!this.tempoCache.has(buffer)) {
+      await new Promise(resolve => setTimeout(resolve));
+      this.tempoCache.set(buffer, detectTempo(buffer));
+    }
+    return this.tempoCache.get(buffer) ?? null;
+  }
+
+  /**
+   * Estimate the key of a buffer
+   */
+  async analyzeKey(buffer: AudioBuffer): Promise<KeyEstimate | null> {
+    if (!this.keyCache.has(buffer)) {
+      await new Promise(resolve => setTimeout(resolve));
+      this.keyCache.set(buffer, detectKey(buffer));
+    }
+    return this.keyCache.get(buffer) ?? null;
+  }
+
+  /**
+   * Find where to start a track so its onsets line up with a reference track's,
+   * as both are currently placed on the timeline
+   */
+  async findAlignment(reference: AudioTrack, target: AudioTrack): Promise<AlignmentEstimate | null> {
+    await new Promise(resolve => setTimeout(resolve));
+    return findAlignment(reference.clips, target.clips);
+  }
+}
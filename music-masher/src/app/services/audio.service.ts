@@ -1,5 +1,44 @@
 import { Injectable } from '@angular/core';
-import { AudioTrack } from '../models';
+import { AudioClip, AudioTrack, AutomationLane, MixBus } from '../models';
+import { ChannelPeaks, PeakPyramid } from '../utils/peak-pyramid';
+import { EffectsChain } from '../utils/effects-chain';
+
+/** Ramp applied to every clip start and end so cuts don't click */
+const DECLICK_SECONDS = 0.005;
+const FADE_CURVE_POINTS_PER_SECOND = 500;
+const MIN_FADE_CURVE_POINTS = 16;
+const MAX_FADE_CURVE_POINTS = 4096;
+/** Samples each meter reads per frame, about 40ms at 48kHz */
+const METER_FFT_SIZE = 2048;
+
+/**
+ * Splits a signal into one analyser per channel, for stereo metering
+ */
+export interface MeterTap {
+  input: AudioNode;
+  analysers: AnalyserNode[]; // Left, right
+}
+
+/**
+ * A track's signal path: clips feed the effects chain, then the volume fader and the panner,
+ * which also feeds the track's aux sends
+ */
+export interface TrackChannel {
+  input: AudioNode;
+  effects: EffectsChain;
+  fader: GainNode;
+  panner: StereoPannerNode;
+  sends: Map<string, GainNode>; // Aux bus id -> send level
+}
+
+/**
+ * A bus's signal path: tracks or sends feed the effects chain, then the bus fader
+ */
+export interface BusChannel {
+  input: AudioNode;
+  effects: EffectsChain;
+  fader: GainNode;
+}
 
 @Injectable({
   providedIn: 'root'
@@ -7,12 +46,17 @@ import { AudioTrack } from '../models';
 export class AudioService {
   private audioContext: AudioContext;
   private masterGainNode: GainNode;
-  private activeSources: Map<string, AudioBufferSourceNode> = new Map();
+  private masterMeter: MeterTap;
+  private channelMeters = new Map<string, MeterTap>();
+  private peakCache = new WeakMap<AudioBuffer, PeakPyramid>();
 
   constructor() {
     this.audioContext = new AudioContext();
     this.masterGainNode = this.audioContext.createGain();
     this.masterGainNode.connect(this.audioContext.destination);
+
+    this.masterMeter = this.createMeterTap();
+    this.masterGainNode.connect(this.masterMeter.input);
   }
 
   /**
@@ -30,178 +74,262 @@ export class AudioService {
   }
 
   /**
-   * Play a single track at a specific timeline time
-   * @param track The track to play
-   * @param timelineTime The current timeline time
-   * @param contextStartTime Optional AudioContext time to start playback (for synchronization)
+   * Create a track's insert effects and volume fader, routed into its group bus when
+   * getBusInput resolves one and into the destination otherwise, with a send into every
+   * aux bus it has a level for.
+   * Every clip on the lane connects into the channel's input.
+   * Works against any context so live playback and offline rendering share the same graph.
    */
-  playTrack(track: AudioTrack, timelineTime: number = 0, contextStartTime?: number): AudioBufferSourceNode | null {
-    if (!track.audioBuffer || track.isMuted) {
-      return null;
-    }
-
-    // Calculate if track should be playing at this timeline time
-    if (timelineTime < track.startTime || timelineTime >= track.getEndTime()) {
-      return null;
-    }
-
-    const source = this.audioContext.createBufferSource();
-    source.buffer = track.audioBuffer;
-
-    const gainNode = this.audioContext.createGain();
-    gainNode.gain.value = track.volume;
-
-    source.connect(gainNode);
-    gainNode.connect(this.masterGainNode);
-
-    // Calculate offset into the track's audio buffer
-    const bufferOffset = Math.max(0, timelineTime - track.startTime);
-    
-    // Calculate when to start in AudioContext time
-    // If contextStartTime is provided, use it; otherwise start immediately with a small delay
-    const startTime = contextStartTime !== undefined 
-      ? contextStartTime 
-      : this.audioContext.currentTime + 0.01; // Small delay to ensure source is ready
-    
-    // Only start if we haven't reached the end of the track
-    if (bufferOffset < track.duration) {
-      source.start(startTime, bufferOffset);
-      this.activeSources.set(track.id, source);
-      return source;
-    }
+  createTrackChannel(
+    context: BaseAudioContext,
+    track: AudioTrack,
+    destination: AudioNode,
+    getBusInput: (busId: string) => AudioNode | undefined = () => undefined
+  ): TrackChannel {
+    const panner = context.createStereoPanner();
+    panner.pan.value = track.pan;
+    panner.connect((track.outputBusId && getBusInput(track.outputBusId)) || destination);
+
+    const fader = context.createGain();
+    fader.gain.value = track.volume;
+    fader.connect(panner);
+
+    const sends = new Map<string, GainNode>();
+    Object.entries(track.sends).forEach(([busId, level]) => {
+      const busInput = getBusInput(busId);
+      if (busInput) {
+        const send = context.createGain();
+        send.gain.value = level;
+        panner.connect(send).connect(busInput);
+        sends.set(busId, send);
+      }
+    });
 
-    return null;
+    const effects = new EffectsChain(context, track.effects, fader);
+    return { input: effects.input, effects, fader, panner, sends };
   }
 
   /**
-   * Play multiple tracks simultaneously with proper synchronization
-   * Only starts tracks that aren't already playing to avoid restarting
+   * Create a bus's effects and fader, routed into the destination
    */
-  playTracks(tracks: AudioTrack[], currentTime: number, hasSoloTracks: boolean): void {
-    // Get tracks that should be playing right now but aren't already playing
-    const tracksToStart = tracks.filter(track => {
-      // Skip if already playing
-      if (this.activeSources.has(track.id)) {
-        return false;
-      }
+  createBusChannel(context: BaseAudioContext, bus: MixBus, destination: AudioNode): BusChannel {
+    const fader = context.createGain();
+    fader.gain.value = this.getBusGain(bus);
+    fader.connect(destination);
 
-      // Skip if no audio buffer
-      if (!track.audioBuffer) {
-        return false;
-      }
-
-      // Skip if muted
-      if (track.isMuted) {
-        return false;
-      }
-
-      // If there are solo tracks, only play solo tracks
-      if (hasSoloTracks && !track.isSolo) {
-        return false;
-      }
+    const effects = new EffectsChain(context, bus.effects, fader);
+    return { input: effects.input, effects, fader };
+  }
 
-      // Track should be playing if currentTime is within its range
-      return currentTime >= track.startTime && currentTime < track.getEndTime();
-    });
+  /**
+   * Level of a bus fader, silent while the bus is muted
+   */
+  getBusGain(bus: MixBus): number {
+    return bus.isMuted ? 0 : bus.volume;
+  }
 
-    if (tracksToStart.length === 0) {
-      return;
+  /**
+   * Schedule a track's automation envelopes on its channel, from a timeline position
+   * that plays at a context time. Parameters without breakpoints are reset to their
+   * static setting, and cutoff automation only applies while the filter is on.
+   */
+  applyAutomation(
+    channel: TrackChannel,
+    track: AudioTrack,
+    fromTime: number,
+    contextTime: number
+  ): void {
+    const toContextTime = (time: number) => contextTime + (time - fromTime);
+    const { volume, pan, cutoff } = track.automation;
+
+    this.scheduleEnvelope(channel.fader.gain, volume, track.volume, fromTime, toContextTime);
+    this.scheduleEnvelope(channel.panner.pan, pan, track.pan, fromTime, toContextTime);
+
+    const frequency = channel.effects.getFilterFrequency();
+    if (frequency) {
+      const staticCutoff = track.effects.filter.frequency;
+      this.scheduleEnvelope(frequency, cutoff, staticCutoff, fromTime, toContextTime);
     }
+  }
 
-    // Use a single AudioContext time for all tracks to ensure perfect synchronization
-    // Use a consistent small delay to batch tracks detected in the same update cycle
-    const syncStartTime = this.audioContext.currentTime + 0.05;
-
-    // Prepare all sources first, then start them all at once
-    const sourcesToStart: Array<{source: AudioBufferSourceNode; trackId: string; bufferOffset: number}> = [];
-    
-    tracksToStart.forEach(track => {
-      if (!track.audioBuffer) {
-        return;
-      }
+  /**
+   * Disconnect every node of a track channel
+   */
+  disconnectTrackChannel(channel: TrackChannel): void {
+    channel.effects.disconnect();
+    channel.fader.disconnect();
+    channel.panner.disconnect();
+    channel.sends.forEach(send => send.disconnect());
+  }
 
-      // Calculate how far into the track we are
-      // Use the track's startTime to calculate the offset, not currentTime
-      // This ensures tracks that start at the same timeline time start at the same buffer position
-      const bufferOffset = Math.max(0, currentTime - track.startTime);
-      
-      // Don't start if we're past the end
-      if (bufferOffset >= track.duration) {
-        return;
-      }
+  /**
+   * Disconnect every node of a bus channel
+   */
+  disconnectBusChannel(channel: BusChannel): void {
+    channel.effects.disconnect();
+    channel.fader.disconnect();
+  }
 
-      const source = this.audioContext.createBufferSource();
-      source.buffer = track.audioBuffer;
+  /**
+   * Play a clip from a timeline position at a context time, routed through a gain
+   * carrying its fades into its track's input. Playback stops at the clip's end,
+   * or earlier at untilTime, e.g. where a loop wraps around.
+   */
+  startClip(
+    context: BaseAudioContext,
+    clip: AudioClip,
+    trackInput: AudioNode,
+    timelineTime: number,
+    contextTime: number,
+    untilTime = Infinity
+  ): AudioBufferSourceNode {
+    const source = context.createBufferSource();
+    source.buffer = clip.getPlaybackBuffer();
+    source.playbackRate.value = clip.getPlaybackRate();
+
+    const fadeGain = context.createGain();
+    const fromClipTime = timelineTime - clip.startTime;
+    const toClipTime = Math.min(clip.duration, untilTime - clip.startTime);
+    this.scheduleClipFades(fadeGain.gain, clip, fromClipTime, toClipTime, contextTime);
+    source.connect(fadeGain).connect(trackInput);
+
+    // Play only the clip's region of the buffer
+    const { offset, duration } = clip.getPlaybackRegion(timelineTime, untilTime);
+    source.start(contextTime, offset, duration);
+
+    return source;
+  }
 
-      const gainNode = this.audioContext.createGain();
-      gainNode.gain.value = track.volume;
+  /**
+   * Schedule a clip's fade envelope between two points within it. Every start and end
+   * also gets a few milliseconds of ramp, so cutting into a waveform doesn't click.
+   */
+  private scheduleClipFades(
+    gain: AudioParam,
+    clip: AudioClip,
+    fromClipTime: number,
+    toClipTime: number,
+    contextTime: number
+  ): void {
+    const duration = clip.duration;
+    const { fadeIn, fadeOut } = clip.getFadeLengths();
+    const envelope = (clipTime: number) =>
+      clip.getFadeGainAt(clipTime) *
+      Math.min(1, (clipTime - fromClipTime) / DECLICK_SECONDS) *
+      Math.min(1, (toClipTime - clipTime) / DECLICK_SECONDS);
+
+    // Only the head and tail ramps need curves; the gain holds at 1 in between
+    const headEnd = Math.min(toClipTime, Math.max(fadeIn, fromClipTime + DECLICK_SECONDS));
+    const tailStart = Math.max(
+      fromClipTime,
+      Math.min(duration - fadeOut, toClipTime - DECLICK_SECONDS)
+    );
+    const segments = headEnd >= tailStart
+      ? [[fromClipTime, toClipTime]]
+      : [[fromClipTime, headEnd], [tailStart, toClipTime]];
+
+    segments
+      .filter(([start, end]) => end > start)
+      .forEach(([start, end]) => {
+        const points = Math.ceil((end - start) * FADE_CURVE_POINTS_PER_SECOND);
+        const length = Math.max(MIN_FADE_CURVE_POINTS, Math.min(MAX_FADE_CURVE_POINTS, points));
+        const curve = new Float32Array(length);
+        for (let i = 0; i < length; i++) {
+          curve[i] = envelope(start + ((end - start) * i) / (length - 1));
+        }
+        gain.setValueCurveAtTime(curve, contextTime + start - fromClipTime, end - start);
+      });
+  }
 
-      source.connect(gainNode);
-      gainNode.connect(this.masterGainNode);
+  /**
+   * Replace a parameter's schedule with an envelope's ramps from a timeline position on,
+   * or with a static value when the envelope has no breakpoints
+   */
+  private scheduleEnvelope(
+    param: AudioParam,
+    lane: AutomationLane,
+    staticValue: number,
+    fromTime: number,
+    toContextTime: (time: number) => number
+  ): void {
+    const startTime = toContextTime(fromTime);
+    // Events before the start still belong to what is playing, e.g. the previous loop pass
+    param.cancelScheduledValues(startTime);
+
+    if (!lane.hasPoints()) {
+      param.setValueAtTime(staticValue, startTime);
+      return;
+    }
 
-      sourcesToStart.push({
-        source,
-        trackId: track.id,
-        bufferOffset
+    param.setValueAtTime(lane.getValueAt(fromTime), startTime);
+    lane.points
+      .filter(point => point.time > fromTime)
+      .forEach(point => {
+        if (lane.range.exponential) {
+          param.exponentialRampToValueAtTime(point.value, toContextTime(point.time));
+        } else {
+          param.linearRampToValueAtTime(point.value, toContextTime(point.time));
+        }
       });
-    });
+  }
 
-    // Start all tracks at the exact same AudioContext time for perfect synchronization
-    sourcesToStart.forEach(({source, trackId, bufferOffset}) => {
-      source.start(syncStartTime, bufferOffset);
-      this.activeSources.set(trackId, source);
+  /**
+   * Set master volume
+   */
+  setMasterVolume(volume: number): void {
+    this.masterGainNode.gain.value = Math.max(0, Math.min(1, volume));
+  }
 
-      // Clean up when track ends
-      source.addEventListener('ended', () => {
-        this.activeSources.delete(trackId);
-      });
-    });
+  /**
+   * Meter tap on the master output
+   */
+  getMasterMeter(): MeterTap {
+    return this.masterMeter;
   }
 
   /**
-   * Check and start any tracks that should begin playing at the current time
-   * This is called periodically to start tracks as they become active
+   * Meter tap on a track's or bus's live output, kept across channel rebuilds
    */
-  updatePlayback(tracks: AudioTrack[], currentTime: number, hasSoloTracks: boolean): void {
-    // This will only start tracks that aren't already playing
-    this.playTracks(tracks, currentTime, hasSoloTracks);
+  getChannelMeter(channelId: string): MeterTap {
+    let meter = this.channelMeters.get(channelId);
+    if (!meter) {
+      meter = this.createMeterTap();
+      this.channelMeters.set(channelId, meter);
+    }
+    return meter;
   }
 
   /**
-   * Stop all currently playing audio sources
+   * Disconnect and forget the meter of a removed track or bus
    */
-  stopAll(): void {
-    this.activeSources.forEach((source, trackId) => {
-      try {
-        source.stop();
-      } catch (error) {
-        // Source may have already stopped
-        console.warn(`Could not stop source for track ${trackId}:`, error);
-      }
+  releaseChannelMeter(channelId: string): void {
+    this.channelMeters.get(channelId)?.input.disconnect();
+    this.channelMeters.delete(channelId);
+  }
+
+  private createMeterTap(): MeterTap {
+    const splitter = this.audioContext.createChannelSplitter(2);
+    const analysers = [0, 1].map(channel => {
+      const analyser = this.audioContext.createAnalyser();
+      analyser.fftSize = METER_FFT_SIZE;
+      splitter.connect(analyser, channel);
+      return analyser;
     });
-    this.activeSources.clear();
+    return { input: splitter, analysers };
   }
 
   /**
-   * Stop a specific track
+   * Get the live playback context
    */
-  stopTrack(trackId: string): void {
-    const source = this.activeSources.get(trackId);
-    if (source) {
-      try {
-        source.stop();
-      } catch (error) {
-        console.warn(`Could not stop track ${trackId}:`, error);
-      }
-      this.activeSources.delete(trackId);
-    }
+  getContext(): AudioContext {
+    return this.audioContext;
   }
 
   /**
-   * Set master volume
+   * Node that live track graphs connect into
    */
-  setMasterVolume(volume: number): void {
-    this.masterGainNode.gain.value = Math.max(0, Math.min(1, volume));
+  getMasterInput(): AudioNode {
+    return this.masterGainNode;
   }
 
   /**
@@ -211,6 +339,13 @@ export class AudioService {
     return this.audioContext.currentTime;
   }
 
+  /**
+   * Get the sample rate of the playback context
+   */
+  getSampleRate(): number {
+    return this.audioContext.sampleRate;
+  }
+
   /**
    * Resume audio context if suspended (required for some browsers)
    */
@@ -221,37 +356,44 @@ export class AudioService {
   }
 
   /**
-   * Get visualization data for a track
+   * Get min/max waveform peaks for every channel of a clip, one pair per pixel.
+   * Covers the clip's played region unless a buffer time range is given.
+   * Peaks come from a cached pyramid, so zoom changes don't rescan the samples.
    */
-  getWaveformData(track: AudioTrack, width: number): Float32Array | null {
-    if (!track.audioBuffer) {
+  getWaveformData(
+    clip: AudioClip,
+    width: number,
+    startTime: number = clip.sourceOffset,
+    endTime: number = clip.sourceOffset + clip.sourceDuration
+  ): ChannelPeaks[] | null {
+    if (!clip.audioBuffer || width <= 0) {
       return null;
     }
 
-    const rawData = track.audioBuffer.getChannelData(0);
-    const samples = width;
-    const blockSize = Math.floor(rawData.length / samples);
-    const filteredData = new Float32Array(samples);
-
-    for (let i = 0; i < samples; i++) {
-      const blockStart = blockSize * i;
-      let sum = 0;
-      
-      for (let j = 0; j < blockSize; j++) {
-        sum += Math.abs(rawData[blockStart + j]);
-      }
-      
-      filteredData[i] = sum / blockSize;
-    }
+    const buffer = clip.audioBuffer;
+    return this.getPeakPyramid(buffer).getPeaks(
+      Math.floor(startTime * buffer.sampleRate),
+      Math.floor(endTime * buffer.sampleRate),
+      width
+    );
+  }
 
-    return filteredData;
+  /**
+   * Get (building on first use) the peak pyramid for a buffer
+   */
+  private getPeakPyramid(buffer: AudioBuffer): PeakPyramid {
+    let pyramid = this.peakCache.get(buffer);
+    if (!pyramid) {
+      pyramid = new PeakPyramid(buffer);
+      this.peakCache.set(buffer, pyramid);
+    }
+    return pyramid;
   }
 
   /**
    * Clean up resources
    */
   destroy(): void {
-    this.stopAll();
     this.audioContext.close();
   }
 }
@@ -0,0 +1,262 @@
+import { Subject } from 'rxjs';
+import {
+  AudioClip,
+  AudioTrack,
+  PROJECT_SCHEMA_VERSION,
+  SessionRecord,
+  StoredAudioRecord,
+  Timeline
+} from '../models';
+import { AudioService } from './audio.service';
+import { AutosaveService, AutosaveStatus } from './autosave.service';
+import { ProjectService } from './project.service';
+import { TimelineService } from './timeline.service';
+
+/** The real setTimeout, taken before the mock clock replaces it, for work the database does off the page's clock */
+const setDatabaseTimeout = setTimeout;
+
+/**
+ * An IDBRequest that succeeds on a later microtask, once the caller has attached its handlers
+ */
+class FakeRequest<T> {
+  result!: T;
+  error: DOMException | null = null;
+  onsuccess: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+}
+
+/**
+ * In-memory stand-in for the autosave database. Like IndexedDB, transactions commit on a later
+ * task once their requests have settled, and abort with a quota error if they leave more audio stored than
+ * the quota allows.
+ */
+class FakeDatabase {
+  readonly sessions = new Map<string, SessionRecord>();
+  readonly audio = new Map<string, StoredAudioRecord>();
+  audioQuota = Infinity; // Audio records that fit in storage
+
+  transaction(): IDBTransaction {
+    return new FakeTransaction(this) as unknown as IDBTransaction;
+  }
+
+  restore(sessions: Map<string, SessionRecord>, audio: Map<string, StoredAudioRecord>): void {
+    this.sessions.clear();
+    sessions.forEach((record, key) => this.sessions.set(key, record));
+    this.audio.clear();
+    audio.forEach((record, key) => this.audio.set(key, record));
+  }
+}
+
+class FakeTransaction {
+  oncomplete: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+  error: DOMException | null = null;
+  private pending = 0;
+  private isFinished = false;
+  private readonly sessionsBefore: Map<string, SessionRecord>;
+  private readonly audioBefore: Map<string, StoredAudioRecord>;
+
+  constructor(private db: FakeDatabase) {
+    this.sessionsBefore = new Map(db.sessions);
+    this.audioBefore = new Map(db.audio);
+  }
+
+  objectStore(name: string): IDBObjectStore {
+    const store: Map<string, SessionRecord | StoredAudioRecord> = name === 'sessions' ? this.db.sessions : this.db.audio;
+    const keyOf = (value: SessionRecord | StoredAudioRecord) => 'id' in value ? value.id : value.key;
+    const fake = {
+      get: (key: string) => this.request(() => store.get(key)),
+      getKey: (key: string) => this.request(() => store.has(key) ? key : undefined),
+      getAll: () => this.request(() => Array.from(store.values())),
+      getAllKeys: () => this.request(() => Array.from(store.keys())),
+      put: (value: SessionRecord | StoredAudioRecord) => this.request(() => {
+        store.set(keyOf(value), value);
+        return keyOf(value);
+      }),
+      delete: (key: string) => this.request(() => {
+        store.delete(key);
+      })
+    };
+    return fake as unknown as IDBObjectStore;
+  }
+
+  private request<T>(run: () => T): FakeRequest<T> {
+    const request = new FakeRequest<T>();
+    this.pending++;
+    Promise.resolve().then(() => {
+      request.result = run();
+      request.onsuccess?.();
+      this.pending--;
+      setDatabaseTimeout(() => this.commit());
+    });
+    return request;
+  }
+
+  private commit(): void {
+    if (this.pending > 0 || this.isFinished) {
+      return;
+    }
+
+    this.isFinished = true;
+    if (this.db.audio.size > this.db.audioQuota) {
+      this.db.restore(this.sessionsBefore, this.audioBefore);
+      this.error = new DOMException('Quota exceeded', 'QuotaExceededError');
+      this.onabort?.();
+    } else {
+      this.oncomplete?.();
+    }
+  }
+}
+
+describe('AutosaveService', () => {
+  const debounceMs = 1500;
+
+  let db: FakeDatabase;
+  let timelines: Subject<Timeline>;
+  let projectService: ProjectService;
+  let service: AutosaveService;
+  let statuses: AutosaveStatus[];
+
+  function createTimeline(...fileNames: string[]): Timeline {
+    const timeline = new Timeline();
+    fileNames.forEach(fileName => {
+      const track = new AudioTrack(fileName);
+      track.addClip(new AudioClip(new File([fileName], fileName, { lastModified: 1 })));
+      timeline.addTrack(track);
+    });
+    return timeline;
+  }
+
+  function addSession(id: string, updatedAt: number, audioKeys: string[]): void {
+    db.sessions.set(id, {
+      id,
+      createdAt: updatedAt,
+      updatedAt,
+      manifest: {
+        version: PROJECT_SCHEMA_VERSION,
+        name: 'Autosave',
+        savedAt: '',
+        timeline: projectService.serializeTimeline(new Timeline(), () => {
+          throw new Error('No clips to serialize');
+        })
+      },
+      audioKeys
+    });
+    audioKeys.forEach(key => db.audio.set(key, { key, file: new File([key], key) }));
+  }
+
+  /** Let pending requests run and their transactions commit */
+  async function flush(): Promise<void> {
+    for (let i = 0; i < 50; i++) {
+      await new Promise(resolve => setDatabaseTimeout(resolve));
+    }
+  }
+
+  async function save(timeline: Timeline): Promise<void> {
+    timelines.next(timeline);
+    jasmine.clock().tick(debounceMs);
+    await flush();
+  }
+
+  function getCurrentSession(): SessionRecord {
+    const [session] = Array.from(db.sessions.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+    return session;
+  }
+
+  beforeEach(() => {
+    // The debounce reads the time from Date as well as waiting on a timer
+    jasmine.clock().install().mockDate();
+    db = new FakeDatabase();
+    timelines = new Subject<Timeline>();
+    statuses = [];
+
+    spyOn(indexedDB, 'open').and.callFake(() => {
+      const request = new FakeRequest<IDBDatabase>();
+      Promise.resolve().then(() => {
+        request.result = db as unknown as IDBDatabase;
+        request.onsuccess?.();
+      });
+      return request as unknown as IDBOpenDBRequest;
+    });
+
+    const timelineService = jasmine.createSpyObj<TimelineService>('TimelineService', ['getTimeline']);
+    timelineService.getTimeline.and.returnValue(timelines);
+    // Serializing a timeline touches neither audio nor the live timeline
+    projectService = new ProjectService({} as AudioService, {} as TimelineService);
+
+    service = new AutosaveService(timelineService, projectService);
+    service.getStatus().subscribe(status => statuses.push(status));
+    service.start();
+  });
+
+  afterEach(() => {
+    service.stop();
+    jasmine.clock().uninstall();
+  });
+
+  it('should save once the timeline has settled, and not again until it changes', async () => {
+    const timeline = createTimeline('drums.wav');
+    timelines.next(timeline);
+    jasmine.clock().tick(debounceMs - 500);
+    timeline.setBpm(140);
+    timelines.next(timeline);
+    jasmine.clock().tick(debounceMs - 1);
+    expect(statuses).not.toContain('saving');
+
+    jasmine.clock().tick(1);
+    await flush();
+    expect(statuses.filter(status => status === 'saving').length).toBe(1);
+    expect(getCurrentSession().manifest.timeline.bpm).toBe(140);
+
+    // Playback moves the playhead but leaves the saved state alone
+    timeline.setCurrentTime(1);
+    await save(timeline);
+    expect(statuses.filter(status => status === 'saving').length).toBe(1);
+
+    timeline.setBpm(150);
+    await save(timeline);
+    expect(statuses.filter(status => status === 'saving').length).toBe(2);
+  });
+
+  it('should prune old sessions and retry when storage is full', async () => {
+    addSession('session_old', 1, ['old.wav']);
+    addSession('session_older', 0, ['older.wav']);
+    db.audioQuota = 3;
+
+    await save(createTimeline('drums.wav', 'bass.wav'));
+
+    expect(statuses).toEqual(['idle', 'saving', 'saved']);
+    expect(db.sessions.size).toBe(1);
+    expect(Array.from(db.audio.keys()).sort()).toEqual([...getCurrentSession().audioKeys].sort());
+    expect(db.audio.size).toBe(2);
+  });
+
+  it('should report a save that still does not fit after pruning', async () => {
+    const warn = spyOn(console, 'warn');
+    addSession('session_old', 1, ['old.wav']);
+    db.audioQuota = 1;
+
+    await save(createTimeline('drums.wav', 'bass.wav'));
+
+    expect(statuses).toEqual(['idle', 'saving', 'quota-exceeded']);
+    expect(warn).toHaveBeenCalled();
+    expect(db.sessions.size).toBe(0);
+    expect(db.audio.size).toBe(0);
+  });
+
+  it('should delete stored audio no session uses', async () => {
+    addSession('session_old', 1, ['old.wav']);
+    db.audio.set('orphan.wav', { key: 'orphan.wav', file: new File([], 'orphan.wav') });
+
+    await save(createTimeline('drums.wav'));
+    expect(db.audio.has('orphan.wav')).toBeFalse();
+    expect(db.audio.has('old.wav')).toBeTrue();
+
+    const deleted = service.deleteSession('session_old');
+    await flush();
+    await deleted;
+    expect(db.audio.has('old.wav')).toBeFalse();
+    expect(Array.from(db.audio.keys())).toEqual(getCurrentSession().audioKeys);
+  });
+});
@@ -0,0 +1,314 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subscription } from 'rxjs';
+import { debounceTime, distinctUntilChanged, filter, map } from 'rxjs/operators';
+import {
+  AudioClip,
+  ProjectManifest,
+  SessionRecord,
+  SessionSummary,
+  StoredAudioRecord,
+  Timeline,
+  PROJECT_SCHEMA_VERSION
+} from '../models';
+import { ProjectService } from './project.service';
+import { TimelineService } from './timeline.service';
+import {
+  isQuotaError,
+  openDatabase,
+  requestToPromise,
+  transactionDone
+} from '../utils/indexed-db';
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'quota-exceeded' | 'error';
+
+const DB_NAME = 'music-masher';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const AUDIO_STORE = 'audio';
+const AUTOSAVE_DEBOUNCE_MS = 1500;
+const MAX_SESSIONS = 5;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AutosaveService {
+  private dbPromise?: Promise<IDBDatabase>;
+  private sessionId = this.generateSessionId();
+  private createdAt = Date.now();
+  private subscription?: Subscription;
+  private statusSubject = new BehaviorSubject<AutosaveStatus>('idle');
+
+  constructor(
+    private timelineService: TimelineService,
+    private projectService: ProjectService
+  ) {}
+
+  /**
+   * Get autosave status as observable
+   */
+  getStatus(): Observable<AutosaveStatus> {
+    return this.statusSubject.asObservable();
+  }
+
+  /**
+   * Start saving the timeline whenever its persisted state changes.
+   * Playback ticks don't change the snapshot, so they never trigger a write.
+   */
+  start(): void {
+    if (this.subscription || !this.isSupported()) {
+      return;
+    }
+
+    this.subscription = this.timelineService.getTimeline()
+      .pipe(
+        map(timeline => {
+          const manifest = this.createManifest(timeline);
+          return { timeline, manifest, json: JSON.stringify(manifest) };
+        }),
+        distinctUntilChanged((a, b) => a.json === b.json),
+        filter(({ timeline }) => timeline.tracks.length > 0),
+        debounceTime(AUTOSAVE_DEBOUNCE_MS)
+      )
+      .subscribe(({ timeline, manifest }) => {
+        this.saveSession(timeline, manifest);
+      });
+  }
+
+  /**
+   * Stop autosaving
+   */
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = undefined;
+  }
+
+  /**
+   * List previous sessions, most recent first, excluding the one in progress
+   */
+  async listSessions(): Promise<SessionSummary[]> {
+    if (!this.isSupported()) {
+      return [];
+    }
+
+    try {
+      const sessions = await this.getAllSessions();
+      return sessions
+        .filter(session => session.id !== this.sessionId)
+        .map(session => ({
+          id: session.id,
+          updatedAt: session.updatedAt,
+          trackCount: session.manifest.timeline.tracks.length,
+          trackNames: session.manifest.timeline.tracks.map(track => track.name)
+        }));
+    } catch (error) {
+      console.warn('Could not read autosaved sessions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Restore a previous session into the timeline and continue saving into it
+   */
+  async restoreSession(sessionId: string): Promise<string[]> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction([SESSION_STORE, AUDIO_STORE], 'readonly');
+    const session: SessionRecord | undefined = await requestToPromise(
+      transaction.objectStore(SESSION_STORE).get(sessionId)
+    );
+
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const audioStore = transaction.objectStore(AUDIO_STORE);
+    const audio = new Map<string, File>();
+    for (const key of session.audioKeys) {
+      const record: StoredAudioRecord | undefined = await requestToPromise(audioStore.get(key));
+      if (record) {
+        audio.set(key, record.file);
+      }
+    }
+
+    const manifest = this.projectService.migrateManifest(session.manifest);
+    const { timeline, missingFiles } = await this.projectService.restoreTimeline(
+      manifest.timeline,
+      clip => clip.audio.kind === 'stored' ? audio.get(clip.audio.key) : undefined
+    );
+
+    this.sessionId = session.id;
+    this.createdAt = session.createdAt;
+    this.timelineService.loadTimeline(timeline);
+    return missingFiles;
+  }
+
+  /**
+   * Delete a session and any audio no other session uses
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(SESSION_STORE, 'readwrite');
+    transaction.objectStore(SESSION_STORE).delete(sessionId);
+    await transactionDone(transaction);
+    await this.removeOrphanedAudio();
+  }
+
+  /**
+   * Write the current session and its audio, pruning old data if storage is full
+   */
+  private async saveSession(timeline: Timeline, manifest: ProjectManifest): Promise<void> {
+    this.statusSubject.next('saving');
+
+    try {
+      await this.writeSession(timeline, manifest);
+      this.statusSubject.next('saved');
+    } catch (error) {
+      if (!isQuotaError(error)) {
+        console.error('Autosave failed:', error);
+        this.statusSubject.next('error');
+        return;
+      }
+
+      // Free space by dropping everything but this session, then try once more
+      try {
+        await this.pruneSessions(1);
+        await this.writeSession(timeline, manifest);
+        this.statusSubject.next('saved');
+      } catch (retryError) {
+        console.warn('Autosave skipped, storage quota exceeded:', retryError);
+        this.statusSubject.next('quota-exceeded');
+      }
+    }
+  }
+
+  /**
+   * Store the session record and any audio not already stored
+   */
+  private async writeSession(timeline: Timeline, manifest: ProjectManifest): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction([SESSION_STORE, AUDIO_STORE], 'readwrite');
+    const audioStore = transaction.objectStore(AUDIO_STORE);
+    const files = new Map<string, File>();
+    timeline.tracks
+      .flatMap(track => track.clips)
+      .forEach(clip => files.set(this.getAudioKey(clip.file), clip.file));
+    const audioKeys = Array.from(files.keys());
+
+    files.forEach((file, key) => {
+      const existing = audioStore.getKey(key);
+      existing.onsuccess = () => {
+        if (existing.result === undefined) {
+          audioStore.put({ key, file } as StoredAudioRecord);
+        }
+      };
+    });
+
+    const updatedAt = Date.now();
+    const record: SessionRecord = {
+      id: this.sessionId,
+      createdAt: this.createdAt,
+      updatedAt,
+      manifest: { ...manifest, savedAt: new Date(updatedAt).toISOString() },
+      audioKeys
+    };
+    transaction.objectStore(SESSION_STORE).put(record);
+
+    await transactionDone(transaction);
+    await this.pruneSessions(MAX_SESSIONS);
+  }
+
+  /**
+   * Keep only the most recent sessions (always keeping the current one) and drop unused audio
+   */
+  private async pruneSessions(keep: number): Promise<void> {
+    const sessions = await this.getAllSessions();
+    const stale = sessions
+      .filter(session => session.id !== this.sessionId)
+      .slice(Math.max(0, keep - 1));
+
+    if (stale.length > 0) {
+      const db = await this.getDatabase();
+      const transaction = db.transaction(SESSION_STORE, 'readwrite');
+      stale.forEach(session => transaction.objectStore(SESSION_STORE).delete(session.id));
+      await transactionDone(transaction);
+    }
+
+    await this.removeOrphanedAudio();
+  }
+
+  /**
+   * Delete stored audio that no session references any more
+   */
+  private async removeOrphanedAudio(): Promise<void> {
+    const referenced = new Set((await this.getAllSessions()).flatMap(session => session.audioKeys));
+
+    const db = await this.getDatabase();
+    const transaction = db.transaction(AUDIO_STORE, 'readwrite');
+    const store = transaction.objectStore(AUDIO_STORE);
+    const keys = await requestToPromise(store.getAllKeys());
+
+    keys
+      .filter(key => !referenced.has(key as string))
+      .forEach(key => store.delete(key));
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * All sessions, most recently updated first
+   */
+  private async getAllSessions(): Promise<SessionRecord[]> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(SESSION_STORE, 'readonly');
+    const sessions: SessionRecord[] = await requestToPromise(transaction.objectStore(SESSION_STORE).getAll());
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Snapshot of the timeline state that gets persisted
+   */
+  private createManifest(timeline: Timeline): ProjectManifest {
+    return {
+      version: PROJECT_SCHEMA_VERSION,
+      name: 'Autosave',
+      savedAt: '', // Stamped on write so it doesn't defeat change detection
+      timeline: this.projectService.serializeTimeline(timeline, (clip: AudioClip) => ({
+        kind: 'stored',
+        key: this.getAudioKey(clip.file),
+        fileName: clip.file.name,
+        mimeType: clip.file.type
+      }))
+    };
+  }
+
+  /**
+   * Identify a source file so the same audio is only stored once
+   */
+  private getAudioKey(file: File): string {
+    return `${file.name}_${file.size}_${file.lastModified}`;
+  }
+
+  /**
+   * Open the autosave database once and reuse the connection
+   */
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          db.createObjectStore(AUDIO_STORE, { keyPath: 'key' });
+        }
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private generateSessionId(): string {
+    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
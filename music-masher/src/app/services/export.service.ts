@@ -0,0 +1,84 @@
+import { Injectable } from '@angular/core';
+import { Timeline } from '../models';
+import { AudioService } from './audio.service';
+import { encodeWav, WavBitDepth } from '../utils/wav-encoder';
+import { downloadBlob } from '../utils/download';
+
+export interface MixdownOptions {
+  bitDepth: WavBitDepth;
+  trimToLastTrack: boolean;
+  sampleRate?: number;
+}
+
+const EXPORT_CHANNELS = 2;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ExportService {
+  constructor(private audioService: AudioService) {}
+
+  /**
+   * Render every audible track of the timeline into a single buffer
+   */
+  async renderMix(timeline: Timeline, options: MixdownOptions): Promise<AudioBuffer> {
+    const duration = options.trimToLastTrack
+      ? timeline.getLastTrackEndTime()
+      : timeline.duration;
+
+    if (duration <= 0) {
+      throw new Error('Nothing to export');
+    }
+
+    const sampleRate = options.sampleRate ?? this.audioService.getSampleRate();
+    const context = new OfflineAudioContext(
+      EXPORT_CHANNELS,
+      Math.ceil(duration * sampleRate),
+      sampleRate
+    );
+
+    const master = context.createGain();
+    master.gain.value = timeline.masterVolume;
+    master.connect(context.destination);
+
+    const busInputs = new Map(
+      timeline.buses.map(bus => [bus.id, this.audioService.createBusChannel(context, bus, master).input])
+    );
+
+    timeline.tracks
+      .filter(track => timeline.isTrackAudible(track))
+      .forEach(track => {
+        const channel = this.audioService.createTrackChannel(
+          context,
+          track,
+          master,
+          busId => busInputs.get(busId)
+        );
+        this.audioService.applyAutomation(channel, track, 0, 0);
+
+        track.clips
+          .filter(clip => clip.audioBuffer)
+          .forEach(clip => {
+            this.audioService.startClip(context, clip, channel.input, clip.startTime, clip.startTime);
+          });
+      });
+
+    return context.startRendering();
+  }
+
+  /**
+   * Render the timeline and encode it as a WAV file
+   */
+  async exportWav(timeline: Timeline, options: MixdownOptions): Promise<Blob> {
+    const rendered = await this.renderMix(timeline, options);
+    return encodeWav(rendered, options.bitDepth);
+  }
+
+  /**
+   * Render the timeline and download it as a WAV file
+   */
+  async downloadMix(timeline: Timeline, options: MixdownOptions, fileName = 'mix.wav'): Promise<void> {
+    const blob = await this.exportWav(timeline, options);
+    downloadBlob(blob, fileName);
+  }
+}
@@ -0,0 +1,178 @@
+import { Injectable } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { TimelineService } from './timeline.service';
+import { RecordingService } from './recording.service';
+import { createTimelineActions } from './timeline-actions';
+import { getKeyCombo, isTextInput, usesArrowKeys } from '../utils/keyboard';
+
+/** Where remapped shortcuts are kept between visits */
+const STORAGE_KEY = 'music-masher.keybindings';
+
+/**
+ * Something the user can run from a keyboard shortcut or the command palette
+ */
+export interface AppAction {
+  id: string;
+  label: string;
+  category: string;
+  defaultKeys: string[]; // Key combos as written by getKeyCombo, e.g. "Ctrl+Z"
+  run(): void;
+}
+
+/**
+ * Central registry of every action and the shortcuts bound to them.
+ * A shortcut belongs to at most one action; remapped shortcuts are remembered in localStorage.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class KeybindingService {
+  private actions: AppAction[];
+  private bindings = new Map<string, string[]>(); // action id -> key combos
+  private paletteSubject = new Subject<void>();
+
+  constructor(timelineService: TimelineService, recordingService: RecordingService) {
+    this.actions = [
+      ...createTimelineActions(timelineService),
+      {
+        id: 'transport.record',
+        label: 'Record / Stop Recording',
+        category: 'Transport',
+        defaultKeys: ['R'],
+        run: () => {
+          recordingService.toggleRecording().catch(() => alert('Could not open the audio input'));
+        }
+      },
+      {
+        id: 'app.commandPalette',
+        label: 'Show Command Palette',
+        category: 'General',
+        defaultKeys: ['Ctrl+K', 'Ctrl+Shift+P'],
+        run: () => this.openPalette()
+      }
+    ];
+    this.loadBindings();
+  }
+
+  /**
+   * Every registered action, in palette order
+   */
+  getActions(): AppAction[] {
+    return this.actions;
+  }
+
+  /**
+   * Shortcuts currently bound to an action
+   */
+  getKeys(actionId: string): string[] {
+    return this.bindings.get(actionId) ?? [];
+  }
+
+  /**
+   * Action a shortcut is bound to
+   */
+  getActionForKey(combo: string): AppAction | undefined {
+    return this.actions.find(action => this.getKeys(action.id).includes(combo));
+  }
+
+  /**
+   * Run an action by id
+   */
+  run(actionId: string): void {
+    this.actions.find(action => action.id === actionId)?.run();
+  }
+
+  /**
+   * Run the action bound to a key press, returning whether there was one.
+   * Keys typed into text fields, and arrows on sliders and selects, are left alone.
+   */
+  handleKeyDown(event: KeyboardEvent): boolean {
+    if (isTextInput(event.target)) {
+      return false;
+    }
+    if (event.key.startsWith('Arrow') && usesArrowKeys(event.target)) {
+      return false;
+    }
+
+    const combo = getKeyCombo(event);
+    const action = combo ? this.getActionForKey(combo) : undefined;
+    if (!action) {
+      return false;
+    }
+
+    event.preventDefault();
+    action.run();
+    return true;
+  }
+
+  /**
+   * Bind shortcuts to an action, taking them away from any other action
+   */
+  setKeys(actionId: string, keys: string[]): void {
+    this.bindings.forEach((bound, id) => {
+      if (id !== actionId) {
+        this.bindings.set(id, bound.filter(combo => !keys.includes(combo)));
+      }
+    });
+    this.bindings.set(actionId, [...keys]);
+    this.saveBindings();
+  }
+
+  /**
+   * Go back to the default shortcuts for every action
+   */
+  resetKeys(): void {
+    this.actions.forEach(action => this.bindings.set(action.id, [...action.defaultKeys]));
+    this.saveBindings();
+  }
+
+  /**
+   * Ask the command palette to open
+   */
+  openPalette(): void {
+    this.paletteSubject.next();
+  }
+
+  /**
+   * Emits whenever the command palette should open
+   */
+  getPaletteRequests(): Observable<void> {
+    return this.paletteSubject.asObservable();
+  }
+
+  /**
+   * Start from the defaults and apply the shortcuts the user remapped
+   */
+  private loadBindings(): void {
+    let saved: Record<string, string[]> = {};
+    try {
+      saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    } catch (error) {
+      console.warn('Ignoring unreadable keybindings:', error);
+    }
+
+    this.actions.forEach(action => {
+      const keys = saved[action.id];
+      this.bindings.set(action.id, Array.isArray(keys) ? keys : [...action.defaultKeys]);
+    });
+  }
+
+  /**
+   * Remember the shortcuts that differ from the defaults
+   */
+  private saveBindings(): void {
+    const changed: Record<string, string[]> = {};
+    this.actions.forEach(action => {
+      const keys = this.getKeys(action.id);
+      if (keys.join(' ') !== action.defaultKeys.join(' ')) {
+        changed[action.id] = keys;
+      }
+    });
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(changed));
+    } catch (error) {
+      console.warn('Could not save keybindings:', error);
+    }
+  }
+}
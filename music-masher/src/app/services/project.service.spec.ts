@@ -0,0 +1,100 @@
+import { PROJECT_SCHEMA_VERSION } from '../models';
+import { AudioService } from './audio.service';
+import { ProjectService } from './project.service';
+import { TimelineService } from './timeline.service';
+
+describe('ProjectService manifests', () => {
+  let service: ProjectService;
+
+  beforeEach(() => {
+    // Reading manifests touches neither audio nor the live timeline
+    service = new ProjectService({} as AudioService, {} as TimelineService);
+  });
+
+  it('should migrate a v1 manifest of single-file tracks into lanes of clips', () => {
+    const manifest = service.migrateManifest({
+      name: 'Old Mashup',
+      timeline: {
+        bpm: 128,
+        tracks: [{
+          id: 'track_1',
+          name: 'drums.wav',
+          volume: 0.8,
+          isMuted: true,
+          isSolo: false,
+          color: '#FF6B6B',
+          startTime: 4,
+          sourceOffset: 1,
+          sourceDuration: 10,
+          audio: { kind: 'referenced', fileName: 'drums.wav', mimeType: 'audio/wav', size: 1024 }
+        }]
+      }
+    });
+
+    expect(manifest.version).toBe(PROJECT_SCHEMA_VERSION);
+    expect(manifest.name).toBe('Old Mashup');
+    expect(manifest.timeline.bpm).toBe(128);
+
+    const [track] = manifest.timeline.tracks;
+    expect(track.id).toBe('track_1');
+    expect(track.volume).toBe(0.8);
+    expect(track.isMuted).toBeTrue();
+    expect(track.clips.length).toBe(1);
+
+    const [clip] = track.clips;
+    expect(clip.id).toBe('track_1_clip');
+    expect(clip.name).toBe('drums.wav');
+    expect(clip.startTime).toBe(4);
+    expect(clip.sourceOffset).toBe(1);
+    expect(clip.sourceDuration).toBe(10);
+    expect(clip.audio).toEqual({ kind: 'referenced', fileName: 'drums.wav', mimeType: 'audio/wav', size: 1024 });
+  });
+
+  it('should fill in missing or mistyped track and clip fields with defaults', () => {
+    const manifest = service.migrateManifest({
+      version: PROJECT_SCHEMA_VERSION,
+      timeline: {
+        snap: 'sometimes',
+        tracks: [{
+          id: 'track_1',
+          name: 'Vocals',
+          volume: 'loud',
+          effects: { eq: { low: 3, high: 'bright' } },
+          automation: { volume: [{ time: 1, value: 0.5 }, { time: 'later' }] },
+          sends: { bus_1: 0.4, bus_2: 'half' },
+          clips: [{ audio: { kind: 'embedded', path: 'audio/vocals.wav', fileName: 'vocals.wav' } }]
+        }]
+      }
+    });
+
+    expect(manifest.name).toBe('Untitled');
+    expect(manifest.timeline.snap).toBe('off');
+    expect(manifest.timeline.metronome).toEqual({ isEnabled: false, volume: 0.5, countInBars: 0 });
+
+    const [track] = manifest.timeline.tracks;
+    expect(track.volume).toBe(1);
+    expect(track.pan).toBe(0);
+    expect(track.warp).toBeFalse();
+    expect(track.outputBusId).toBeNull();
+    expect(track.effects.eq.low).toBe(3);
+    expect(track.effects.eq.high).toBe(0);
+    expect(track.effects.reverb.enabled).toBeFalse();
+    expect(track.automation.volume).toEqual([{ time: 1, value: 0.5 }]);
+    expect(track.automation.pan).toEqual([]);
+    expect(track.sends).toEqual({ bus_1: 0.4 });
+
+    const [clip] = track.clips;
+    expect(clip.name).toBe('vocals.wav');
+    expect(clip.startTime).toBe(0);
+    expect(clip.sourceOffset).toBe(0);
+    expect(clip.sourceDuration).toBeUndefined();
+    expect(clip.tempo).toBeUndefined();
+    expect(clip.fades).toEqual({ fadeIn: 0, fadeOut: 0, fadeInCurve: 'equal-power', fadeOutCurve: 'equal-power' });
+    expect(clip.audio).toEqual({ kind: 'embedded', path: 'audio/vocals.wav', fileName: 'vocals.wav', mimeType: '' });
+  });
+
+  it('should reject a manifest saved by a newer version', () => {
+    expect(() => service.parseManifest(JSON.stringify({ version: PROJECT_SCHEMA_VERSION + 1, timeline: {} })))
+      .toThrowError(/newer version/);
+  });
+});
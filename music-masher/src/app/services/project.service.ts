@@ -0,0 +1,608 @@
+import { Injectable } from '@angular/core';
+import {
+  AudioClip,
+  AudioTrack,
+  AutomationLane,
+  AutomationParameter,
+  AutomationPoint,
+  ClipFades,
+  FilterType,
+  Marker,
+  MixBus,
+  Timeline,
+  TrackEffects,
+  ProjectManifest,
+  SerializedAudioSource,
+  SerializedBus,
+  SerializedClip,
+  SerializedTimeline,
+  SerializedTrack,
+  PROJECT_FILE_EXTENSION,
+  PROJECT_MANIFEST_NAME,
+  PROJECT_SCHEMA_VERSION,
+  AUTOMATION_PARAMETERS,
+  RulerMode,
+  SnapDivision,
+  cloneEffects,
+  createDefaultEffects
+} from '../models';
+import { AudioService } from './audio.service';
+import { TimelineService } from './timeline.service';
+import { createZip, readZip, ZipEntry } from '../utils/zip';
+import { downloadBlob } from '../utils/download';
+import { FADE_CURVES } from '../utils/fades';
+import { TempoEstimate } from '../utils/tempo-detection';
+import { KeyEstimate, KeyMode } from '../utils/key-detection';
+
+export interface ProjectSaveOptions {
+  name: string;
+  embedAudio: boolean;
+}
+
+export interface ProjectLoadResult {
+  name: string;
+  missingFiles: string[];
+}
+
+/** A JSON object read from a manifest, whose fields are checked before use */
+type RawManifest = Record<string, unknown>;
+
+const SNAP_DIVISIONS: SnapDivision[] = ['bar', 'beat', '1/8', '1/16', 'off'];
+const RULER_MODES: RulerMode[] = ['time', 'bars'];
+const KEY_MODES: KeyMode[] = ['major', 'minor'];
+const FILTER_TYPES: FilterType[] = ['lowpass', 'highpass'];
+
+function asRecord(value: unknown): RawManifest {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as RawManifest : {};
+}
+
+/**
+ * The object entries of a JSON array; anything else in it is dropped
+ */
+function asRecords(value: unknown): RawManifest[] {
+  return Array.isArray(value) ? value.filter(item => typeof item === 'object' && item !== null).map(asRecord) : [];
+}
+
+function asNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function asString(value: unknown, fallback: string): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+function asBoolean(value: unknown, fallback: boolean): boolean {
+  return typeof value === 'boolean' ? value : fallback;
+}
+
+function asOption<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.find(option => option === value) ?? fallback;
+}
+
+/**
+ * Settings object with each default replaced by the raw value of the same key, where that has the same type
+ */
+function mergeSettings<T extends object>(defaults: T, value: unknown): T {
+  const raw = asRecord(value);
+  return Object.fromEntries(Object.entries(defaults).map(([key, fallback]) => [
+    key,
+    typeof raw[key] === typeof fallback ? raw[key] : fallback
+  ])) as T;
+}
+
+/**
+ * Upgrades a manifest from the keyed version to the next one.
+ * Add an entry here whenever PROJECT_SCHEMA_VERSION is bumped.
+ */
+const MANIFEST_MIGRATIONS: Record<number, (manifest: RawManifest) => RawManifest> = {
+  // v2 split tracks into lanes of clips: every v1 track becomes a lane holding one clip
+  1: manifest => {
+    const timeline = asRecord(manifest['timeline']);
+
+    return {
+      ...manifest,
+      version: 2,
+      timeline: {
+        ...timeline,
+        tracks: asRecords(timeline['tracks']).map(track => ({
+          id: track['id'],
+          name: track['name'],
+          volume: track['volume'],
+          isMuted: track['isMuted'],
+          isSolo: track['isSolo'],
+          color: track['color'],
+          clips: [{
+            id: typeof track['id'] === 'string' ? `${track['id']}_clip` : undefined,
+            name: track['name'],
+            startTime: track['startTime'],
+            sourceOffset: track['sourceOffset'],
+            sourceDuration: track['sourceDuration'],
+            audio: track['audio']
+          }]
+        }))
+      }
+    };
+  }
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ProjectService {
+  constructor(
+    private audioService: AudioService,
+    private timelineService: TimelineService
+  ) {}
+
+  /**
+   * Serialise the timeline state, describing each clip's audio with the given resolver
+   */
+  serializeTimeline(
+    timeline: Timeline,
+    resolveAudio: (clip: AudioClip) => SerializedAudioSource
+  ): SerializedTimeline {
+    return {
+      bpm: timeline.bpm,
+      timeSignature: { ...timeline.timeSignature },
+      snap: timeline.snap,
+      rulerMode: timeline.rulerMode,
+      zoom: timeline.zoom,
+      masterVolume: timeline.masterVolume,
+      loop: timeline.loop ? { ...timeline.loop } : null,
+      isLooping: timeline.isLooping,
+      metronome: { ...timeline.metronome },
+      markers: timeline.markers.map(marker => ({ id: marker.id, name: marker.name, time: marker.time })),
+      buses: timeline.buses.map(bus => ({
+        id: bus.id,
+        name: bus.name,
+        kind: bus.kind,
+        volume: bus.volume,
+        isMuted: bus.isMuted,
+        isSolo: bus.isSolo,
+        effects: cloneEffects(bus.effects)
+      })),
+      tracks: timeline.tracks.map(track => ({
+        id: track.id,
+        name: track.name,
+        volume: track.volume,
+        pan: track.pan,
+        isMuted: track.isMuted,
+        isSolo: track.isSolo,
+        color: track.color,
+        warp: track.warp,
+        pitchSemitones: track.pitchSemitones,
+        pitchCents: track.pitchCents,
+        effects: cloneEffects(track.effects),
+        automation: {
+          volume: track.automation.volume.points.map(point => ({ ...point })),
+          pan: track.automation.pan.points.map(point => ({ ...point })),
+          cutoff: track.automation.cutoff.points.map(point => ({ ...point }))
+        },
+        outputBusId: track.outputBusId,
+        sends: { ...track.sends },
+        clips: track.clips.map(clip => ({
+          id: clip.id,
+          name: clip.name,
+          startTime: clip.startTime,
+          sourceOffset: clip.sourceOffset,
+          sourceDuration: clip.sourceDuration,
+          tempo: clip.tempo,
+          key: clip.key,
+          fades: clip.getFades(),
+          audio: resolveAudio(clip)
+        }))
+      }))
+    };
+  }
+
+  /**
+   * Rebuild a timeline, decoding each clip's audio from the file the resolver returns.
+   * Clips whose audio cannot be found are skipped and reported by file name.
+   * Clips cut from the same source share one decoded buffer.
+   */
+  async restoreTimeline(
+    serialized: SerializedTimeline,
+    resolveFile: (clip: SerializedClip) => File | undefined
+  ): Promise<{ timeline: Timeline; missingFiles: string[] }> {
+    const timeline = new Timeline();
+    const missingFiles = new Set<string>();
+    const decoded = new Map<string, Promise<{ file: File; audioBuffer: AudioBuffer }>>();
+
+    timeline.setBpm(serialized.bpm);
+    timeline.setTimeSignature(serialized.timeSignature);
+    timeline.snap = serialized.snap;
+    timeline.rulerMode = serialized.rulerMode;
+    timeline.setZoom(serialized.zoom);
+    timeline.setMasterVolume(serialized.masterVolume);
+    if (serialized.loop) {
+      timeline.setLoop(serialized.loop.start, serialized.loop.end);
+      timeline.isLooping = serialized.isLooping;
+    }
+    timeline.setMetronome(serialized.metronome);
+    serialized.markers.forEach(marker => {
+      timeline.addMarker(new Marker(marker.name, marker.time, marker.id));
+    });
+    serialized.buses.forEach(serializedBus => {
+      const bus = new MixBus(serializedBus.name, serializedBus.kind, serializedBus.id);
+      bus.setVolume(serializedBus.volume);
+      bus.isMuted = serializedBus.isMuted;
+      bus.isSolo = serializedBus.isSolo;
+      bus.effects = cloneEffects(serializedBus.effects);
+      timeline.addBus(bus);
+    });
+
+    for (const serializedTrack of serialized.tracks) {
+      const track = new AudioTrack(serializedTrack.name, serializedTrack.id);
+      track.setVolume(serializedTrack.volume);
+      track.setPan(serializedTrack.pan);
+      track.isMuted = serializedTrack.isMuted;
+      track.isSolo = serializedTrack.isSolo;
+      track.color = serializedTrack.color;
+      track.warp = serializedTrack.warp;
+      track.setPitch(serializedTrack.pitchSemitones, serializedTrack.pitchCents);
+      track.effects = cloneEffects(serializedTrack.effects);
+      AUTOMATION_PARAMETERS.forEach(parameter => {
+        const points = serializedTrack.automation[parameter];
+        track.automation[parameter] = new AutomationLane(parameter, points);
+      });
+      track.outputBusId = serializedTrack.outputBusId;
+      Object.entries(serializedTrack.sends).forEach(([busId, level]) => track.setSend(busId, level));
+
+      for (const serializedClip of serializedTrack.clips) {
+        const sourceKey = JSON.stringify(serializedClip.audio);
+        if (!decoded.has(sourceKey)) {
+          const file = resolveFile(serializedClip);
+          if (!file) {
+            missingFiles.add(serializedClip.audio.fileName);
+            continue;
+          }
+          decoded.set(sourceKey, this.audioService.loadAudioFile(file)
+            .then(audioBuffer => ({ file, audioBuffer })));
+        }
+
+        const { file, audioBuffer } = await decoded.get(sourceKey)!;
+        const clip = new AudioClip(file, serializedClip.id);
+        clip.setAudioBuffer(audioBuffer);
+        clip.setRegion(
+          serializedClip.sourceOffset,
+          serializedClip.sourceDuration ?? audioBuffer.duration - serializedClip.sourceOffset
+        );
+        clip.name = serializedClip.name;
+        clip.tempo = serializedClip.tempo;
+        clip.key = serializedClip.key;
+        clip.setStartTime(serializedClip.startTime);
+        clip.setFades(serializedClip.fades);
+        track.addClip(clip);
+      }
+
+      timeline.addTrack(track);
+    }
+
+    return { timeline, missingFiles: Array.from(missingFiles) };
+  }
+
+  /**
+   * Parse a manifest of any supported version and bring it up to the current schema
+   */
+  parseManifest(json: string): ProjectManifest {
+    return this.migrateManifest(JSON.parse(json));
+  }
+
+  /**
+   * Bring a manifest object of any supported version up to the current schema
+   */
+  migrateManifest(value: unknown): ProjectManifest {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error('Project manifest is not an object');
+    }
+
+    let manifest = asRecord(value);
+    let version = asNumber(manifest['version'], 1);
+
+    if (version > PROJECT_SCHEMA_VERSION) {
+      throw new Error(`Project was saved by a newer version (schema ${version})`);
+    }
+
+    while (version < PROJECT_SCHEMA_VERSION) {
+      const migrate = MANIFEST_MIGRATIONS[version];
+      if (!migrate) {
+        throw new Error(`No migration from project schema ${version}`);
+      }
+      manifest = migrate(manifest);
+      version++;
+    }
+
+    return this.normalizeManifest(manifest);
+  }
+
+  /**
+   * Package the timeline as a project bundle
+   */
+  async createBundle(timeline: Timeline, options: ProjectSaveOptions): Promise<Blob> {
+    // Each source file is embedded once, however many clips were cut from it
+    const embeddedPaths = new Map<File, string>();
+    const audioEntries: ZipEntry[] = [];
+    if (options.embedAudio) {
+      for (const clip of timeline.tracks.flatMap(track => track.clips)) {
+        if (!embeddedPaths.has(clip.file)) {
+          const path = this.getEmbeddedPath(clip);
+          embeddedPaths.set(clip.file, path);
+          audioEntries.push({ name: path, data: new Uint8Array(await clip.file.arrayBuffer()) });
+        }
+      }
+    }
+
+    const serialized = this.serializeTimeline(timeline, clip => {
+      const fileName = clip.file.name;
+      const mimeType = clip.file.type;
+      const path = embeddedPaths.get(clip.file);
+      return path
+        ? { kind: 'embedded', path, fileName, mimeType }
+        : { kind: 'referenced', fileName, mimeType, size: clip.file.size };
+    });
+
+    const manifest: ProjectManifest = {
+      version: PROJECT_SCHEMA_VERSION,
+      name: options.name,
+      savedAt: new Date().toISOString(),
+      timeline: serialized
+    };
+
+    return createZip([
+      { name: PROJECT_MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+      ...audioEntries
+    ]);
+  }
+
+  /**
+   * Save the timeline as a project bundle and download it
+   */
+  async downloadProject(timeline: Timeline, options: ProjectSaveOptions): Promise<void> {
+    const bundle = await this.createBundle(timeline, options);
+    downloadBlob(bundle, `${options.name}${PROJECT_FILE_EXTENSION}`);
+  }
+
+  /**
+   * Open a project bundle and replace the current timeline with it.
+   * Any extra files are used to resolve audio the project references rather than embeds.
+   */
+  async openProject(files: File[]): Promise<ProjectLoadResult> {
+    const bundleFile = files.find(file => this.isProjectFile(file));
+    if (!bundleFile) {
+      throw new Error('No project file selected');
+    }
+
+    const entries = readZip(await bundleFile.arrayBuffer());
+    const manifestData = entries.get(PROJECT_MANIFEST_NAME);
+    if (!manifestData) {
+      throw new Error('Project manifest is missing');
+    }
+
+    const manifest = this.parseManifest(new TextDecoder().decode(manifestData));
+    const audioFiles = files.filter(file => file !== bundleFile);
+
+    const { timeline, missingFiles } = await this.restoreTimeline(manifest.timeline, clip => {
+      const audio = clip.audio;
+      if (audio.kind === 'embedded') {
+        const data = entries.get(audio.path);
+        return data ? new File([data], audio.fileName, { type: audio.mimeType }) : undefined;
+      }
+      return audioFiles.find(file => file.name === audio.fileName);
+    });
+
+    this.timelineService.loadTimeline(timeline);
+    return { name: manifest.name, missingFiles };
+  }
+
+  /**
+   * Whether a file looks like a project bundle
+   */
+  isProjectFile(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return name.endsWith(PROJECT_FILE_EXTENSION) || name.endsWith('.zip');
+  }
+
+  /**
+   * Location of a clip's audio inside the bundle
+   */
+  private getEmbeddedPath(clip: AudioClip): string {
+    return `audio/${clip.id}/${clip.file.name}`;
+  }
+
+  /**
+   * Fill in defaults so fields added to newer schemas never arrive undefined,
+   * and replace any field of the wrong type
+   */
+  private normalizeManifest(manifest: RawManifest): ProjectManifest {
+    const timeline = asRecord(manifest['timeline']);
+    const timeSignature = asRecord(timeline['timeSignature']);
+    const loop = asRecord(timeline['loop']);
+
+    return {
+      version: PROJECT_SCHEMA_VERSION,
+      name: asString(manifest['name'], 'Untitled'),
+      savedAt: asString(manifest['savedAt'], new Date().toISOString()),
+      timeline: {
+        bpm: asNumber(timeline['bpm'], 120),
+        timeSignature: {
+          beatsPerBar: asNumber(timeSignature['beatsPerBar'], 4),
+          beatUnit: asNumber(timeSignature['beatUnit'], 4)
+        },
+        snap: asOption(timeline['snap'], SNAP_DIVISIONS, 'off'),
+        rulerMode: asOption(timeline['rulerMode'], RULER_MODES, 'time'),
+        zoom: asNumber(timeline['zoom'], 50),
+        masterVolume: asNumber(timeline['masterVolume'], 1),
+        loop: typeof loop['start'] === 'number' && typeof loop['end'] === 'number'
+          ? { start: loop['start'], end: loop['end'] }
+          : null,
+        isLooping: asBoolean(timeline['isLooping'], false),
+        metronome: mergeSettings({ isEnabled: false, volume: 0.5, countInBars: 0 }, timeline['metronome']),
+        markers: asRecords(timeline['markers']).map(marker => ({
+          id: asString(marker['id'], ''),
+          name: asString(marker['name'], 'Marker'),
+          time: asNumber(marker['time'], 0)
+        })),
+        buses: asRecords(timeline['buses']).map(bus => this.normalizeBus(bus)),
+        tracks: asRecords(timeline['tracks']).map(track => this.normalizeTrack(track))
+      }
+    };
+  }
+
+  /**
+   * Fill in defaults for a single track entry
+   */
+  private normalizeTrack(track: RawManifest): SerializedTrack {
+    const sends = Object.entries(asRecord(track['sends']))
+      .filter((entry): entry is [string, number] => typeof entry[1] === 'number');
+
+    return {
+      id: asString(track['id'], ''),
+      name: asString(track['name'], 'Track'),
+      volume: asNumber(track['volume'], 1),
+      pan: asNumber(track['pan'], 0),
+      isMuted: asBoolean(track['isMuted'], false),
+      isSolo: asBoolean(track['isSolo'], false),
+      color: asString(track['color'], '#4ECDC4'),
+      warp: asBoolean(track['warp'], false),
+      pitchSemitones: asNumber(track['pitchSemitones'], 0),
+      pitchCents: asNumber(track['pitchCents'], 0),
+      effects: this.normalizeEffects(track['effects']),
+      automation: this.normalizeAutomation(track['automation']),
+      outputBusId: typeof track['outputBusId'] === 'string' ? track['outputBusId'] : null,
+      sends: Object.fromEntries(sends),
+      clips: asRecords(track['clips']).map(clip => this.normalizeClip(clip))
+    };
+  }
+
+  /**
+   * Fill in defaults for a single mixer bus entry
+   */
+  private normalizeBus(bus: RawManifest): SerializedBus {
+    return {
+      id: asString(bus['id'], ''),
+      name: asString(bus['name'], 'Bus'),
+      kind: bus['kind'] === 'aux' ? 'aux' : 'group',
+      volume: asNumber(bus['volume'], 1),
+      isMuted: asBoolean(bus['isMuted'], false),
+      isSolo: asBoolean(bus['isSolo'], false),
+      effects: this.normalizeEffects(bus['effects'])
+    };
+  }
+
+  /**
+   * Fill in defaults for a track's effects, setting by setting
+   */
+  private normalizeEffects(value: unknown): TrackEffects {
+    const effects = asRecord(value);
+    const defaults = createDefaultEffects();
+    return {
+      eq: mergeSettings(defaults.eq, effects['eq']),
+      filter: {
+        ...mergeSettings(defaults.filter, effects['filter']),
+        type: asOption(asRecord(effects['filter'])['type'], FILTER_TYPES, defaults.filter.type)
+      },
+      compressor: mergeSettings(defaults.compressor, effects['compressor']),
+      delay: mergeSettings(defaults.delay, effects['delay']),
+      reverb: mergeSettings(defaults.reverb, effects['reverb'])
+    };
+  }
+
+  /**
+   * Keep the well-formed breakpoints of each automation lane
+   */
+  private normalizeAutomation(value: unknown): Record<AutomationParameter, AutomationPoint[]> {
+    const automation = asRecord(value);
+    const normalizePoints = (points: unknown): AutomationPoint[] =>
+      asRecords(points).flatMap(point =>
+        typeof point['time'] === 'number' && typeof point['value'] === 'number'
+          ? [{ time: point['time'], value: point['value'] }]
+          : []
+      );
+
+    return {
+      volume: normalizePoints(automation['volume']),
+      pan: normalizePoints(automation['pan']),
+      cutoff: normalizePoints(automation['cutoff'])
+    };
+  }
+
+  /**
+   * Fill in defaults for a single clip entry
+   */
+  private normalizeClip(clip: RawManifest): SerializedClip {
+    const audio = asRecord(clip['audio']);
+    const fileName = asString(audio['fileName'], asString(clip['name'], 'unknown'));
+
+    return {
+      id: asString(clip['id'], ''),
+      name: asString(clip['name'], fileName),
+      startTime: asNumber(clip['startTime'], 0),
+      sourceOffset: asNumber(clip['sourceOffset'], 0),
+      sourceDuration: typeof clip['sourceDuration'] === 'number' ? clip['sourceDuration'] : undefined,
+      tempo: this.normalizeTempo(clip['tempo']),
+      key: this.normalizeKey(clip['key']),
+      fades: this.normalizeFades(clip['fades']),
+      audio: this.normalizeAudioSource(audio, fileName)
+    };
+  }
+
+  /**
+   * A stored tempo estimate, or undefined to detect it again
+   */
+  private normalizeTempo(value: unknown): TempoEstimate | undefined {
+    const tempo = asRecord(value);
+    if (typeof tempo['bpm'] !== 'number') {
+      return undefined;
+    }
+    return {
+      bpm: tempo['bpm'],
+      firstBeat: asNumber(tempo['firstBeat'], 0),
+      downbeat: asNumber(tempo['downbeat'], asNumber(tempo['firstBeat'], 0)),
+      confidence: asNumber(tempo['confidence'], 0)
+    };
+  }
+
+  /**
+   * A stored key estimate, or undefined to detect it again
+   */
+  private normalizeKey(value: unknown): KeyEstimate | undefined {
+    const key = asRecord(value);
+    if (typeof key['tonic'] !== 'number') {
+      return undefined;
+    }
+    return {
+      tonic: key['tonic'],
+      mode: asOption(key['mode'], KEY_MODES, 'major'),
+      confidence: asNumber(key['confidence'], 0)
+    };
+  }
+
+  /**
+   * Fill in defaults for a clip's fades
+   */
+  private normalizeFades(value: unknown): ClipFades {
+    const fades = asRecord(value);
+    return {
+      fadeIn: asNumber(fades['fadeIn'], 0),
+      fadeOut: asNumber(fades['fadeOut'], 0),
+      fadeInCurve: asOption(fades['fadeInCurve'], FADE_CURVES, 'equal-power'),
+      fadeOutCurve: asOption(fades['fadeOutCurve'], FADE_CURVES, 'equal-power')
+    };
+  }
+
+  /**
+   * Fill in defaults for a clip's audio source
+   */
+  private normalizeAudioSource(audio: RawManifest, fileName: string): SerializedAudioSource {
+    const mimeType = asString(audio['mimeType'], '');
+
+    switch (audio['kind']) {
+      case 'embedded':
+        return { kind: 'embedded', path: asString(audio['path'], ''), fileName, mimeType };
+      case 'stored':
+        return { kind: 'stored', key: asString(audio['key'], ''), fileName, mimeType };
+      default:
+        return { kind: 'referenced', fileName, mimeType, size: asNumber(audio['size'], 0) };
+    }
+  }
+}
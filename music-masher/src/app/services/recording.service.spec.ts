@@ -0,0 +1,161 @@
+import { AudioTrack, Timeline } from '../models';
+import { AudioService } from './audio.service';
+import { RecordingService, RecordingState } from './recording.service';
+import { TimelineService } from './timeline.service';
+import { TransportService } from './transport.service';
+import { CapturedChunk } from '../utils/recording';
+
+describe('RecordingService', () => {
+  const sampleRate = 8000;
+  const uiRefreshMs = 50;
+  const blockSize = 128;
+
+  let now: number;
+  let position: number;
+  let timeline: Timeline;
+  let captureNode: { port: { onmessage: ((event: MessageEvent<CapturedChunk>) => void) | null }; disconnect: jasmine.Spy };
+  let timelineService: jasmine.SpyObj<TimelineService>;
+  let transportService: jasmine.SpyObj<TransportService>;
+  let service: RecordingService;
+  let state: RecordingState;
+
+  /** A stand-in for a microphone, e.g. a MediaStreamAudioDestinationNode's stream */
+  function createFakeStream(): MediaStream {
+    const stream: Partial<MediaStream> = {
+      getTracks: () => [],
+      getAudioTracks: () => []
+    };
+    return stream as MediaStream;
+  }
+
+  /**
+   * Post the captured input up to a context time, each sample holding its own frame number
+   * so the take shows exactly where it was cut
+   */
+  let capturedUntil: number;
+  function capture(untilTime: number): void {
+    const untilFrame = Math.round(untilTime * sampleRate);
+    for (; capturedUntil < untilFrame; capturedUntil += blockSize) {
+      const samples = Float32Array.from({ length: blockSize }, (_, i) => capturedUntil + i);
+      captureNode.port.onmessage?.(new MessageEvent('message', { data: { frame: capturedUntil, channels: [samples] } }));
+    }
+  }
+
+  /** Move the audio clock on, capturing input and letting the service follow the transport */
+  function advance(seconds: number): void {
+    const steps = Math.round((seconds * 1000) / uiRefreshMs);
+    for (let i = 0; i < steps; i++) {
+      now += uiRefreshMs / 1000;
+      capture(now);
+      jasmine.clock().tick(uiRefreshMs);
+    }
+  }
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    now = 10;
+    capturedUntil = now * sampleRate;
+
+    timeline = new Timeline();
+    timeline.setBpm(120);
+    timeline.setMetronome({ countInBars: 1 }); // Four beats of 0.5s
+    timeline.addTrack(new AudioTrack('Backing'));
+    timeline.setCurrentTime(4);
+
+    const context: Partial<AudioContext> = {
+      sampleRate,
+      outputLatency: 0,
+      baseLatency: 0,
+      audioWorklet: jasmine.createSpyObj<AudioWorklet>('AudioWorklet', { addModule: Promise.resolve() }),
+      createMediaStreamSource: () => jasmine.createSpyObj<MediaStreamAudioSourceNode>('source', ['connect', 'disconnect']),
+      createBuffer: (numberOfChannels: number, length: number, rate: number) =>
+        new AudioBuffer({ numberOfChannels, length, sampleRate: rate })
+    };
+    const audioService = jasmine.createSpyObj<AudioService>('AudioService', ['getContext', 'getCurrentTime', 'resumeContext']);
+    audioService.getContext.and.returnValue(context as AudioContext);
+    audioService.getCurrentTime.and.callFake(() => now);
+    audioService.resumeContext.and.resolveTo();
+
+    captureNode = { port: { onmessage: null }, disconnect: jasmine.createSpy('disconnect') };
+    spyOn(globalThis, 'AudioWorkletNode').and.returnValue(captureNode as unknown as AudioWorkletNode);
+
+    timelineService = jasmine.createSpyObj<TimelineService>('TimelineService', [
+      'getCurrentTimeline',
+      'play',
+      'pause',
+      'addRecording'
+    ]);
+    timelineService.getCurrentTimeline.and.returnValue(timeline);
+    timelineService.play.and.callFake(() => timeline.play());
+    timelineService.pause.and.callFake(() => timeline.pause());
+    timelineService.addRecording.and.callFake(file => new AudioTrack(file.name));
+
+    // Playback starts on the downbeat, after the count-in
+    const downbeat = now + 0.05 + 2;
+    position = timeline.currentTime;
+    transportService = jasmine.createSpyObj<TransportService>('TransportService', ['getContextTime', 'getPosition']);
+    transportService.getContextTime.and.returnValue(downbeat);
+    transportService.getPosition.and.callFake(() => position + Math.max(0, now - downbeat));
+
+    service = new RecordingService(audioService, timelineService, transportService);
+    service.getState().subscribe(next => (state = next));
+  });
+
+  afterEach(() => {
+    service.disarm();
+    jasmine.clock().uninstall();
+  });
+
+  it('should arm with a given stream without opening the microphone', async () => {
+    const getUserMedia = spyOn(navigator.mediaDevices, 'getUserMedia');
+
+    await service.arm(createFakeStream());
+
+    expect(state.status).toBe('armed');
+    expect(getUserMedia).not.toHaveBeenCalled();
+  });
+
+  it('should count in on the metronome and then record', async () => {
+    await service.arm(createFakeStream());
+    service.record();
+
+    expect(timelineService.play).toHaveBeenCalledWith(2, true);
+    expect(state).toEqual({ status: 'counting-in', countInBeat: 1 });
+
+    advance(0.6);
+    expect(state.countInBeat).toBe(2);
+
+    advance(1.5);
+    expect(state.status).toBe('recording');
+  });
+
+  it('should cut the take at the downbeat plus the latency and add it at the record start', async () => {
+    service.setLatencyOverride(0.02);
+    await service.arm(createFakeStream());
+    service.record();
+    advance(4);
+
+    const track = service.stopRecording()!;
+
+    expect(state.status).toBe('armed');
+    expect(timelineService.addRecording).toHaveBeenCalledTimes(1);
+    const [file, buffer, startTime] = timelineService.addRecording.calls.mostRecent().args;
+    expect(file.name).toBe('Take 1.wav');
+    expect(startTime).toBe(4);
+    expect(track.name).toBe('Take 1.wav');
+
+    // The first sample is the one captured at the downbeat plus the round-trip latency
+    const downbeatFrame = Math.round((10 + 0.05 + 2 + 0.02) * sampleRate);
+    expect(buffer.getChannelData(0)[0]).toBe(downbeatFrame);
+    expect(buffer.length).toBe(Math.round(14 * sampleRate) - downbeatFrame);
+  });
+
+  it('should drop a take stopped during the count-in', async () => {
+    await service.arm(createFakeStream());
+    service.record();
+    advance(1);
+
+    expect(service.stopRecording()).toBeUndefined();
+    expect(timelineService.addRecording).not.toHaveBeenCalled();
+  });
+});
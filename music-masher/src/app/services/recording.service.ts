@@ -0,0 +1,304 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, interval, Subscription } from 'rxjs';
+import { AudioTrack } from '../models';
+import { AudioService } from './audio.service';
+import { TimelineService } from './timeline.service';
+import { TransportService } from './transport.service';
+import { CapturedChunk, extractTake } from '../utils/recording';
+import { encodeWav } from '../utils/wav-encoder';
+
+/** How often the count-in and the transport are checked while recording */
+const UI_REFRESH_MS = 50;
+
+/** Processing that would colour a vocal take or pump with the backing track */
+const INPUT_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false
+};
+
+const CAPTURE_PROCESSOR = 'music-masher-capture';
+
+/**
+ * Audio worklet that posts every input block with the context frame it was captured at,
+ * so the take can be lined up with the transport sample-accurately
+ */
+const CAPTURE_PROCESSOR_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const channels = inputs[0];
+    if (channels.length > 0) {
+      this.port.postMessage({ frame: currentFrame, channels: channels.map(channel => channel.slice()) });
+    }
+    return true;
+  }
+}
+registerProcessor('${CAPTURE_PROCESSOR}', CaptureProcessor);
+`;
+
+export type RecordingStatus = 'idle' | 'armed' | 'counting-in' | 'recording';
+
+export interface RecordingState {
+  status: RecordingStatus;
+  countInBeat: number; // Count-in beat being played, from 1; 0 outside the count-in
+  error?: string;
+}
+
+/**
+ * The armed input: a media stream feeding the capture worklet
+ */
+interface RecordingInput {
+  stream: MediaStream;
+  isOwnStream: boolean; // Opened by arm(), so its tracks are stopped on disarm
+  source: MediaStreamAudioSourceNode;
+  capture: AudioWorkletNode;
+}
+
+/**
+ * Records microphone or line input onto a new track while the timeline plays.
+ *
+ * Arming opens the input; recording counts in on the AudioContext clock, starts the transport
+ * on the downbeat and keeps every captured block. On stop the take is cut at the context frame
+ * the downbeat was heard plus the round-trip latency, so it lands in time with what the
+ * performer was playing along to, and is added as a track at the record start time.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RecordingService {
+  private stateSubject = new BehaviorSubject<RecordingState>({ status: 'idle', countInBeat: 0 });
+  private input?: RecordingInput;
+  private processorReady?: Promise<void>;
+  private chunks: CapturedChunk[] = [];
+  private isCapturing = false;
+  private latencyOverride?: number;
+  private recordStart = 0; // Timeline time the take starts at
+  private recordEnd = Infinity; // Loop end the take is cut at, as cycling would overdub it
+  private downbeat = 0; // AudioContext time recordStart plays at
+  private countInStart = 0;
+  private beatDuration = 0;
+  private watchSubscription?: Subscription;
+  private takeCount = 0;
+
+  constructor(
+    private audioService: AudioService,
+    private timelineService: TimelineService,
+    private transportService: TransportService
+  ) {}
+
+  /**
+   * Recording status as observable
+   */
+  getState(): Observable<RecordingState> {
+    return this.stateSubject.asObservable();
+  }
+
+  /**
+   * Current recording status
+   */
+  getStatus(): RecordingStatus {
+    return this.stateSubject.value.status;
+  }
+
+  /**
+   * Round-trip latency compensated for, in seconds: the user's setting, or the browser's estimate
+   */
+  getLatency(): number {
+    return this.latencyOverride ?? this.estimateLatency();
+  }
+
+  /**
+   * Compensate for a measured round-trip latency in seconds, or undefined to use the estimate
+   */
+  setLatencyOverride(seconds?: number): void {
+    this.latencyOverride = seconds === undefined ? undefined : Math.max(0, seconds);
+  }
+
+  /**
+   * Open an input so it is ready to record. Uses the default microphone unless a stream
+   * is given, e.g. a fake stream from a MediaStreamAudioDestinationNode in tests.
+   */
+  async arm(stream?: MediaStream): Promise<void> {
+    if (this.input) {
+      return;
+    }
+
+    try {
+      const context = this.audioService.getContext();
+      await this.audioService.resumeContext();
+      await this.loadCaptureProcessor(context);
+
+      const inputStream = stream ?? await navigator.mediaDevices.getUserMedia({ audio: INPUT_CONSTRAINTS });
+      const source = context.createMediaStreamSource(inputStream);
+      const capture = new AudioWorkletNode(context, CAPTURE_PROCESSOR, { numberOfOutputs: 0 });
+      capture.port.onmessage = (event: MessageEvent<CapturedChunk>) => {
+        if (this.isCapturing) {
+          this.chunks.push(event.data);
+        }
+      };
+      source.connect(capture);
+
+      this.input = { stream: inputStream, isOwnStream: !stream, source, capture };
+      this.setState('armed');
+    } catch (error) {
+      console.error('Error opening recording input:', error);
+      this.stateSubject.next({ status: 'idle', countInBeat: 0, error: 'Could not open the audio input' });
+      throw error;
+    }
+  }
+
+  /**
+   * Close the input, abandoning any take in progress
+   */
+  disarm(): void {
+    if (this.getStatus() !== 'armed') {
+      this.stopRecording(false);
+    }
+    if (!this.input) {
+      return;
+    }
+
+    this.input.source.disconnect();
+    this.input.capture.port.onmessage = null;
+    if (this.input.isOwnStream) {
+      this.input.stream.getTracks().forEach(track => track.stop());
+    }
+    this.input = undefined;
+    this.setState('idle');
+  }
+
+  /**
+   * Count in, then play the timeline from the playhead and record over it
+   */
+  record(): void {
+    if (this.getStatus() !== 'armed') {
+      return;
+    }
+
+    const timeline = this.timelineService.getCurrentTimeline();
+    this.timelineService.pause();
+
+    this.recordStart = timeline.currentTime;
+    const loop = timeline.getActiveLoop();
+    this.recordEnd = loop && this.recordStart < loop.end ? loop.end : Infinity;
+    this.beatDuration = timeline.getBeatDuration();
+    const countIn = timeline.getCountInDuration();
+
+    // The transport clicks the metronome's count-in before starting on the downbeat
+    this.chunks = [];
+    this.isCapturing = true;
+    this.timelineService.play(countIn, true);
+    this.downbeat = this.transportService.getContextTime(this.recordStart);
+    this.countInStart = this.downbeat - countIn;
+
+    this.setState(countIn > 0 ? 'counting-in' : 'recording', countIn > 0 ? 1 : 0);
+    this.watchSubscription = interval(UI_REFRESH_MS).subscribe(() => this.watch());
+  }
+
+  /**
+   * Record button: arm the default input if needed and record, or stop the take in progress
+   */
+  async toggleRecording(): Promise<void> {
+    switch (this.getStatus()) {
+      case 'idle':
+        await this.arm();
+        this.record();
+        break;
+      case 'armed':
+        this.record();
+        break;
+      default:
+        this.stopRecording();
+    }
+  }
+
+  /**
+   * Stop the transport and, when a take was recorded, add it as a new track.
+   * Returns the new track.
+   */
+  stopRecording(keepTake = true): AudioTrack | undefined {
+    const wasRecording = this.getStatus() === 'recording';
+    if (!wasRecording && this.getStatus() !== 'counting-in') {
+      return undefined;
+    }
+
+    this.watchSubscription?.unsubscribe();
+    this.isCapturing = false;
+    this.timelineService.pause();
+    this.setState('armed');
+
+    const chunks = this.chunks;
+    this.chunks = [];
+    return wasRecording && keepTake ? this.addTake(chunks) : undefined;
+  }
+
+  /**
+   * Follow the count-in, and finish the take when the transport is stopped elsewhere
+   * or wraps around a loop
+   */
+  private watch(): void {
+    const now = this.audioService.getCurrentTime();
+    const hasWrapped = now >= this.downbeat && this.transportService.getPosition() < this.recordStart;
+    if (!this.timelineService.getCurrentTimeline().isPlaying || hasWrapped) {
+      this.stopRecording();
+      return;
+    }
+
+    if (now >= this.downbeat) {
+      if (this.getStatus() === 'counting-in') {
+        this.setState('recording');
+      }
+    } else {
+      this.setState('counting-in', Math.floor(Math.max(0, now - this.countInStart) / this.beatDuration) + 1);
+    }
+  }
+
+  /**
+   * Cut the captured audio at the compensated downbeat and add it as a track
+   */
+  private addTake(chunks: CapturedChunk[]): AudioTrack | undefined {
+    const context = this.audioService.getContext();
+    const startFrame = Math.round((this.downbeat + this.getLatency()) * context.sampleRate);
+    const maxLength = Math.round((this.recordEnd - this.recordStart) * context.sampleRate);
+    const channels = extractTake(chunks, startFrame).map(samples => samples.subarray(0, maxLength));
+    if (channels.length === 0 || channels[0].length === 0) {
+      return undefined;
+    }
+
+    const buffer = context.createBuffer(channels.length, channels[0].length, context.sampleRate);
+    channels.forEach((samples, channel) => buffer.copyToChannel(samples, channel));
+
+    this.takeCount++;
+    const file = new File([encodeWav(buffer, 32)], `Take ${this.takeCount}.wav`, { type: 'audio/wav' });
+    return this.timelineService.addRecording(file, buffer, this.recordStart);
+  }
+
+  /**
+   * Time from a sound leaving the context to the performer's response reaching it again:
+   * output latency plus the input latency the device reports
+   */
+  private estimateLatency(): number {
+    const context = this.audioService.getContext();
+    const outputLatency = (context.outputLatency || 0) + (context.baseLatency || 0);
+    const settings = this.input?.stream.getAudioTracks()[0]?.getSettings() as { latency?: number } | undefined;
+    return outputLatency + (settings?.latency ?? 0);
+  }
+
+  /**
+   * Register the capture worklet with the live context, once
+   */
+  private loadCaptureProcessor(context: AudioContext): Promise<void> {
+    if (!this.processorReady) {
+      const url = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR_SOURCE], { type: 'application/javascript' }));
+      this.processorReady = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    }
+    return this.processorReady;
+  }
+
+  private setState(status: RecordingStatus, countInBeat = 0): void {
+    const state = this.stateSubject.value;
+    if (state.status !== status || state.countInBeat !== countInBeat || state.error) {
+      this.stateSubject.next({ status, countInBeat });
+    }
+  }
+}
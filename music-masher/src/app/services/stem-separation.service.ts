@@ -0,0 +1,57 @@
+import { Injectable } from '@angular/core';
+import { separateStemsInSteps, StemName, STEM_NAMES } from '../utils/stem-separation';
+
+export type StemBuffers = Record<StemName, AudioBuffer>;
+
+/**
+ * Splits decoded audio into vocal, drum, bass and remaining stems, caching the result per
+ * buffer so clips cut from the same file are only separated once
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StemSeparationService {
+  private cache = new WeakMap<AudioBuffer, Promise<StemBuffers>>();
+
+  /**
+   * Get (separating on first use) the stems of a buffer, each as long as the buffer.
+   * Progress from 0 to 1 is reported while a new separation runs.
+   */
+  separate(buffer: AudioBuffer, onProgress?: (progress: number) => void): Promise<StemBuffers> {
+    let stems = this.cache.get(buffer);
+    if (!stems) {
+      stems = this.render(buffer, onProgress);
+      this.cache.set(buffer, stems);
+      // A failed separation can be retried
+      stems.catch(() => this.cache.delete(buffer));
+    }
+    return stems;
+  }
+
+  /**
+   * Separate every channel a few frames at a time, yielding between steps so the UI keeps updating
+   */
+  private async render(buffer: AudioBuffer, onProgress?: (progress: number) => void): Promise<StemBuffers> {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    const steps = separateStemsInSteps(channels, buffer.sampleRate);
+
+    let step = steps.next();
+    while (!step.done) {
+      onProgress?.(step.value);
+      await new Promise(resolve => setTimeout(resolve));
+      step = steps.next();
+    }
+    onProgress?.(1);
+
+    const stems = step.value;
+    return Object.fromEntries(STEM_NAMES.map(name => {
+      const result = new AudioBuffer({
+        length: buffer.length,
+        numberOfChannels: buffer.numberOfChannels,
+        sampleRate: buffer.sampleRate
+      });
+      stems[name].forEach((data, c) => result.copyToChannel(data, c));
+      return [name, result];
+    })) as StemBuffers;
+  }
+}
@@ -0,0 +1,66 @@
+import { Injectable } from '@angular/core';
+import { stretchChannels } from '../utils/time-stretch';
+
+/** Ratios closer than this are treated as the same stretch */
+const RATIO_TOLERANCE = 1e-4;
+/** Renders kept per buffer, e.g. for the same file on tracks shifted to different pitches */
+const MAX_RENDERS_PER_BUFFER = 4;
+
+interface StretchRender {
+  ratio: number;
+  buffer: Promise<AudioBuffer>;
+}
+
+/**
+ * Renders pitch-preserving time-stretched copies of audio buffers, keeping the
+ * few most recently used ratios of each buffer
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TimeStretchService {
+  private cache = new WeakMap<AudioBuffer, StretchRender[]>();
+
+  /**
+   * Get (rendering on first use) a buffer stretched by a ratio, above 1 being longer
+   */
+  getStretchedBuffer(buffer: AudioBuffer, ratio: number): Promise<AudioBuffer> {
+    const renders = this.cache.get(buffer) ?? [];
+    let render = renders.find(candidate => Math.abs(candidate.ratio - ratio) < RATIO_TOLERANCE);
+
+    if (!render) {
+      const created: StretchRender = { ratio, buffer: this.render(buffer, ratio) };
+      // A failed render can be retried
+      created.buffer.catch(() => {
+        const current = this.cache.get(buffer);
+        if (current) {
+          this.cache.set(buffer, current.filter(candidate => candidate !== created));
+        }
+      });
+      render = created;
+    }
+
+    // Most recently used first
+    const updated = [render, ...renders.filter(candidate => candidate !== render)];
+    this.cache.set(buffer, updated.slice(0, MAX_RENDERS_PER_BUFFER));
+    return render.buffer;
+  }
+
+  /**
+   * Stretch every channel, after yielding so the UI stays responsive to the click that started it
+   */
+  private async render(buffer: AudioBuffer, ratio: number): Promise<AudioBuffer> {
+    await new Promise(resolve => setTimeout(resolve));
+
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    const stretched = stretchChannels(channels, buffer.sampleRate, ratio);
+
+    const result = new AudioBuffer({
+      length: Math.max(1, stretched[0].length),
+      numberOfChannels: buffer.numberOfChannels,
+      sampleRate: buffer.sampleRate
+    });
+    stretched.forEach((data, c) => result.copyToChannel(data, c));
+    return result;
+  }
+}
@@ -0,0 +1,310 @@
+import { SnapDivision } from '../models';
+import { TimelineService } from './timeline.service';
+import { AppAction } from './keybinding.service';
+
+/** Zoom change per zoom in or out step */
+const ZOOM_STEP = 1.2;
+const DEFAULT_ZOOM = 50;
+
+const SNAP_LABELS: Record<SnapDivision, string> = {
+  bar: 'Snap to Bars',
+  beat: 'Snap to Beats',
+  '1/8': 'Snap to 1/8 Notes',
+  '1/16': 'Snap to 1/16 Notes',
+  off: 'Snap Off'
+};
+
+/**
+ * Every TimelineService action the command palette lists, with its default shortcuts.
+ * Actions on the selection do nothing while nothing is selected.
+ */
+export function createTimelineActions(timelineService: TimelineService): AppAction[] {
+  const timeline = () => timelineService.getCurrentTimeline();
+  const selectedTrackIds = () => timelineService.getSelection().trackIds;
+
+  const transport: AppAction[] = [
+    {
+      id: 'transport.playPause',
+      label: 'Play / Pause',
+      category: 'Transport',
+      defaultKeys: ['Space'],
+      run: () => (timeline().isPlaying ? timelineService.pause() : timelineService.play())
+    },
+    {
+      id: 'transport.stop',
+      label: 'Stop and Rewind',
+      category: 'Transport',
+      defaultKeys: ['Home'],
+      run: () => timelineService.stop()
+    },
+    {
+      id: 'transport.toggleLoop',
+      label: 'Toggle Loop',
+      category: 'Transport',
+      defaultKeys: ['L'],
+      run: () => timelineService.toggleLoop()
+    },
+    {
+      id: 'transport.metronome',
+      label: 'Toggle Metronome',
+      category: 'Transport',
+      defaultKeys: ['K'],
+      run: () => timelineService.toggleMetronome()
+    },
+    {
+      id: 'transport.loopSelection',
+      label: 'Loop Selected Clips',
+      category: 'Transport',
+      defaultKeys: [],
+      run: () => timelineService.loopSelection()
+    },
+    {
+      id: 'transport.clearLoop',
+      label: 'Clear Loop Region',
+      category: 'Transport',
+      defaultKeys: [],
+      run: () => timelineService.clearLoop()
+    }
+  ];
+
+  const edit: AppAction[] = [
+    {
+      id: 'edit.undo',
+      label: 'Undo',
+      category: 'Edit',
+      defaultKeys: ['Ctrl+Z'],
+      run: () => timelineService.undo()
+    },
+    {
+      id: 'edit.redo',
+      label: 'Redo',
+      category: 'Edit',
+      defaultKeys: ['Ctrl+Shift+Z', 'Ctrl+Y'],
+      run: () => timelineService.redo()
+    },
+    {
+      id: 'edit.deleteSelection',
+      label: 'Delete Selected Clips or Tracks',
+      category: 'Edit',
+      defaultKeys: ['Delete', 'Backspace'],
+      run: () => timelineService.deleteSelection()
+    },
+    {
+      id: 'edit.duplicateSelection',
+      label: 'Duplicate Selected Clips',
+      category: 'Edit',
+      defaultKeys: ['Ctrl+D'],
+      run: () => timelineService.duplicateSelection()
+    },
+    {
+      id: 'edit.splitSelection',
+      label: 'Split Selected Clips at Playhead',
+      category: 'Edit',
+      defaultKeys: ['Ctrl+E'],
+      run: () => timelineService.splitSelection()
+    },
+    {
+      id: 'edit.nudgeLeft',
+      label: 'Nudge Selected Clips Left',
+      category: 'Edit',
+      defaultKeys: ['ArrowLeft'],
+      run: () => timelineService.nudgeSelection(-1)
+    },
+    {
+      id: 'edit.nudgeRight',
+      label: 'Nudge Selected Clips Right',
+      category: 'Edit',
+      defaultKeys: ['ArrowRight'],
+      run: () => timelineService.nudgeSelection(1)
+    },
+    {
+      id: 'edit.selectAll',
+      label: 'Select All Clips',
+      category: 'Edit',
+      defaultKeys: ['Ctrl+A'],
+      run: () => timelineService.selectClips(
+        timeline().tracks.flatMap(track => track.clips.map(clip => clip.id))
+      )
+    },
+    {
+      id: 'edit.deselect',
+      label: 'Deselect All',
+      category: 'Edit',
+      defaultKeys: ['Escape'],
+      run: () => timelineService.clearSelection()
+    },
+    {
+      id: 'edit.clearAll',
+      label: 'Clear All Tracks',
+      category: 'Edit',
+      defaultKeys: [],
+      run: () => {
+        if (confirm('Remove every track?')) {
+          timelineService.clearAll();
+        }
+      }
+    }
+  ];
+
+  const track: AppAction[] = [
+    {
+      id: 'track.mute',
+      label: 'Mute Selected Tracks',
+      category: 'Track',
+      defaultKeys: ['M'],
+      run: () => timelineService.toggleSelectionMute()
+    },
+    {
+      id: 'track.solo',
+      label: 'Solo Selected Tracks',
+      category: 'Track',
+      defaultKeys: ['S'],
+      run: () => timelineService.toggleSelectionSolo()
+    },
+    {
+      id: 'track.split',
+      label: 'Split Selected Tracks at Playhead',
+      category: 'Track',
+      defaultKeys: [],
+      run: () => selectedTrackIds().forEach(trackId => timelineService.splitTrack(trackId))
+    },
+    {
+      id: 'track.warp',
+      label: 'Toggle Warp on Selected Tracks',
+      category: 'Track',
+      defaultKeys: [],
+      run: () => selectedTrackIds().forEach(trackId => timelineService.toggleTrackWarp(trackId))
+    },
+    {
+      id: 'track.splitStems',
+      label: 'Split Selected Tracks into Stems',
+      category: 'Track',
+      defaultKeys: [],
+      run: () => selectedTrackIds().forEach(trackId => {
+        timelineService.splitIntoStems(trackId).catch(() => alert('Failed to split the track into stems'));
+      })
+    },
+    {
+      id: 'track.matchTempo',
+      label: 'Set Project Tempo from Selected Track',
+      category: 'Track',
+      defaultKeys: [],
+      run: () => {
+        const [trackId] = selectedTrackIds();
+        if (trackId) {
+          timelineService.matchTempoToTrack(trackId);
+        }
+      }
+    }
+  ];
+
+  const markers: AppAction[] = [
+    {
+      id: 'markers.add',
+      label: 'Add Marker at Playhead',
+      category: 'Markers',
+      defaultKeys: ['Shift+M'],
+      run: () => {
+        const name = prompt('Marker name', `Marker ${timeline().markers.length + 1}`);
+        if (name) {
+          timelineService.addMarker(name);
+        }
+      }
+    },
+    {
+      id: 'markers.previous',
+      label: 'Jump to Previous Marker',
+      category: 'Markers',
+      defaultKeys: ['['],
+      run: () => timelineService.jumpToPreviousMarker()
+    },
+    {
+      id: 'markers.next',
+      label: 'Jump to Next Marker',
+      category: 'Markers',
+      defaultKeys: [']'],
+      run: () => timelineService.jumpToNextMarker()
+    },
+    ...Array.from({ length: 9 }, (_, i): AppAction => ({
+      id: `markers.goTo${i + 1}`,
+      label: `Jump to Marker ${i + 1}`,
+      category: 'Markers',
+      defaultKeys: [String(i + 1)],
+      run: () => {
+        const marker = timeline().markers[i];
+        if (marker) {
+          timelineService.seekToMarker(marker.id);
+        }
+      }
+    }))
+  ];
+
+  const view: AppAction[] = [
+    {
+      id: 'view.zoomIn',
+      label: 'Zoom In',
+      category: 'View',
+      defaultKeys: ['+', '='],
+      run: () => timelineService.setZoom(timeline().zoom * ZOOM_STEP)
+    },
+    {
+      id: 'view.zoomOut',
+      label: 'Zoom Out',
+      category: 'View',
+      defaultKeys: ['-'],
+      run: () => timelineService.setZoom(timeline().zoom / ZOOM_STEP)
+    },
+    {
+      id: 'view.resetZoom',
+      label: 'Reset Zoom',
+      category: 'View',
+      defaultKeys: ['0'],
+      run: () => timelineService.setZoom(DEFAULT_ZOOM)
+    },
+    {
+      id: 'view.rulerMode',
+      label: 'Toggle Ruler Between Time and Bars',
+      category: 'View',
+      defaultKeys: [],
+      run: () => timelineService.setRulerMode(timeline().rulerMode === 'bars' ? 'time' : 'bars')
+    },
+    ...(Object.keys(SNAP_LABELS) as SnapDivision[]).map((snap): AppAction => ({
+      id: `view.snap.${snap}`,
+      label: SNAP_LABELS[snap],
+      category: 'View',
+      defaultKeys: [],
+      run: () => timelineService.setSnap(snap)
+    }))
+  ];
+
+  const mixer: AppAction[] = [
+    {
+      id: 'mixer.addGroup',
+      label: 'Add Group Bus',
+      category: 'Mixer',
+      defaultKeys: [],
+      run: () => {
+        const name = prompt('Group name', `Group ${timeline().getGroupBuses().length + 1}`);
+        if (name) {
+          timelineService.addGroupBus(name);
+        }
+      }
+    },
+    {
+      id: 'mixer.addReverb',
+      label: 'Add Reverb Send',
+      category: 'Mixer',
+      defaultKeys: [],
+      run: () => timelineService.addAuxBus('Reverb', 'reverb')
+    },
+    {
+      id: 'mixer.addDelay',
+      label: 'Add Delay Send',
+      category: 'Mixer',
+      defaultKeys: [],
+      run: () => timelineService.addAuxBus('Delay', 'delay')
+    }
+  ];
+
+  return [...transport, ...edit, ...track, ...markers, ...view, ...mixer];
+}
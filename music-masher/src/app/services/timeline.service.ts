@@ -1,7 +1,95 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable, interval, Subscription } from 'rxjs';
-import { Timeline, AudioTrack } from '../models';
+import {
+  Timeline,
+  AudioClip,
+  AudioTrack,
+  AutomationLane,
+  AutomationParameter,
+  AuxEffectType,
+  ClipFades,
+  createAuxBus,
+  EffectType,
+  Marker,
+  MixBus,
+  RulerMode,
+  SnapDivision,
+  TimeSignature,
+  TrackEffects
+} from '../models';
 import { AudioService } from './audio.service';
+import { TransportService } from './transport.service';
+import { AnalysisService } from './analysis.service';
+import { TimeStretchService } from './time-stretch.service';
+import { StemBuffers, StemSeparationService } from './stem-separation.service';
+import { STEM_NAMES, StemName } from '../utils/stem-separation';
+import { encodeWav } from '../utils/wav-encoder';
+import { AlignmentEstimate } from '../utils/alignment';
+import {
+  AddBusCommand,
+  AddMarkerCommand,
+  AddTrackCommand,
+  ClearTracksCommand,
+  DuplicateClipCommand,
+  History,
+  MoveClipCommand,
+  MoveMarkerCommand,
+  MoveTrackCommand,
+  RemoveBusCommand,
+  RemoveClipCommand,
+  RemoveMarkerCommand,
+  RemoveTrackCommand,
+  RenameMarkerCommand,
+  SetAutomationCommand,
+  SetBusEffectCommand,
+  SetBusVolumeCommand,
+  SetClipFadesCommand,
+  SetEffectCommand,
+  SetMasterVolumeCommand,
+  SetPanCommand,
+  SetPitchCommand,
+  SetSendCommand,
+  SetTempoCommand,
+  SetTracksVolumeCommand,
+  SetTimeSignatureCommand,
+  SetTrackOutputCommand,
+  SetVolumeCommand,
+  ShiftClipsCommand,
+  SplitClipCommand,
+  TimelineCommand,
+  ToggleBusMuteCommand,
+  ToggleBusSoloCommand,
+  ToggleMuteCommand,
+  ToggleSoloCommand,
+  ToggleWarpCommand,
+  TrimClipCommand
+} from '../commands';
+
+/** How often the playhead is refreshed while playing */
+const UI_REFRESH_MS = 50;
+/** How far a nudge moves the selected clip when snapping is off, in seconds */
+const NUDGE_SECONDS = 0.01;
+/** Stretch and pitch ratios closer than this are not worth re-rendering */
+const RATIO_TOLERANCE = 1e-4;
+
+const STEM_LABELS: Record<StemName, string> = {
+  vocals: 'Vocals',
+  drums: 'Drums',
+  bass: 'Bass',
+  other: 'Other'
+};
+
+function isSameRatio(a: number, b: number): boolean {
+  return Math.abs(a - b) < RATIO_TOLERANCE;
+}
+
+/**
+ * Clips and tracks the selection operations act on
+ */
+export interface TimelineSelection {
+  clipIds: string[];
+  trackIds: string[]; // Tracks selected directly plus the tracks of selected clips
+}
 
 @Injectable({
   providedIn: 'root'
@@ -10,102 +98,757 @@ export class TimelineService {
   private timeline: Timeline;
   private timelineSubject: BehaviorSubject<Timeline>;
   private playbackSubscription?: Subscription;
-  private playbackStartTime: number = 0;
-  private pausedAt: number = 0;
+  private history = new History();
+  private selectedClipIds = new Set<string>();
+  private selectedTrackIds = new Set<string>();
+
+  constructor(
+    private audioService: AudioService,
+    private transportService: TransportService,
+    private analysisService: AnalysisService,
+    private timeStretchService: TimeStretchService,
+    private stemSeparationService: StemSeparationService
+  ) {
+    this.timeline = new Timeline();
+    this.timelineSubject = new BehaviorSubject<Timeline>(this.timeline);
+  }
+
+  /**
+   * Get timeline as observable
+   */
+  getTimeline(): Observable<Timeline> {
+    return this.timelineSubject.asObservable();
+  }
+
+  /**
+   * Get current timeline state
+   */
+  getCurrentTimeline(): Timeline {
+    return this.timeline;
+  }
+
+  /**
+   * Select a clip; additive toggles it in or out of the current selection
+   */
+  selectClip(clipId: string, additive = false): void {
+    if (!additive) {
+      this.clearSelectedIds();
+    }
+    if (additive && this.selectedClipIds.has(clipId)) {
+      this.selectedClipIds.delete(clipId);
+    } else {
+      this.selectedClipIds.add(clipId);
+    }
+    this.notifyUpdate();
+  }
+
+  /**
+   * Select several clips at once, e.g. from a rubber band; additive keeps the current selection
+   */
+  selectClips(clipIds: string[], additive = false): void {
+    if (!additive) {
+      this.clearSelectedIds();
+    }
+    clipIds.forEach(clipId => this.selectedClipIds.add(clipId));
+    this.notifyUpdate();
+  }
+
+  /**
+   * Select a whole track; additive toggles it in or out of the current selection
+   */
+  selectTrack(trackId: string, additive = false): void {
+    if (!additive) {
+      this.clearSelectedIds();
+    }
+    if (additive && this.selectedTrackIds.has(trackId)) {
+      this.selectedTrackIds.delete(trackId);
+    } else {
+      this.selectedTrackIds.add(trackId);
+    }
+    this.notifyUpdate();
+  }
+
+  /**
+   * Deselect everything
+   */
+  clearSelection(): void {
+    this.clearSelectedIds();
+    this.notifyUpdate();
+  }
+
+  /**
+   * Selected clips and tracks that still exist, in timeline order
+   */
+  getSelection(): TimelineSelection {
+    const clipIds = this.timeline.tracks
+      .flatMap(track => track.clips)
+      .filter(clip => this.selectedClipIds.has(clip.id))
+      .map(clip => clip.id);
+    const trackIds = this.timeline.tracks
+      .filter(track => this.selectedTrackIds.has(track.id) ||
+        track.clips.some(clip => this.selectedClipIds.has(clip.id)))
+      .map(track => track.id);
+    return { clipIds, trackIds };
+  }
+
+  /**
+   * Whether a clip is part of the selection
+   */
+  isClipSelected(clipId: string): boolean {
+    return this.selectedClipIds.has(clipId);
+  }
+
+  /**
+   * Move every selected clip by the same amount, each staying on its track
+   */
+  moveSelection(delta: number): void {
+    const clips = this.getSelectedClips();
+    if (clips.length === 0) {
+      return;
+    }
+
+    // Stop at the start of the timeline as a block so the clips keep their spacing
+    const shift = Math.max(delta, -Math.min(...clips.map(clip => clip.startTime)));
+    if (shift !== 0) {
+      this.execute(new ShiftClipsCommand(clips.map(clip => clip.id), shift));
+      clips.forEach(clip => this.transportService.invalidateClip(clip.id));
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Move the selected clips one grid step, or a few milliseconds when snapping is off
+   */
+  nudgeSelection(direction: -1 | 1): void {
+    this.moveSelection(direction * (this.timeline.getSnapInterval() || NUDGE_SECONDS));
+  }
+
+  /**
+   * Remove the selected clips, or the selected tracks when no clips are selected
+   */
+  deleteSelection(): void {
+    const { clipIds, trackIds } = this.getSelection();
+    this.history.beginGroup('Delete Selection');
+    if (clipIds.length > 0) {
+      clipIds.forEach(clipId => this.removeClip(clipId));
+    } else {
+      trackIds.forEach(trackId => this.removeTrack(trackId));
+    }
+    this.history.endGroup();
+    this.clearSelection();
+  }
+
+  /**
+   * Copy the selected clips as a block right after the selection, then select the copies
+   */
+  duplicateSelection(): void {
+    const clips = this.getSelectedClips();
+    if (clips.length === 0) {
+      return;
+    }
+
+    const start = Math.min(...clips.map(clip => clip.startTime));
+    const end = Math.max(...clips.map(clip => clip.getEndTime()));
+    this.history.beginGroup(clips.length > 1 ? 'Duplicate Clips' : 'Duplicate Clip');
+    const copies = clips
+      .map(clip => this.duplicateClip(clip.id, clip.startTime + end - start))
+      .filter((copy): copy is AudioClip => copy !== undefined);
+    this.history.endGroup();
+    this.selectClips(copies.map(copy => copy.id));
+  }
+
+  /**
+   * Split every selected clip that plays at a timeline time (the playhead by default)
+   */
+  splitSelection(time: number = this.timeline.currentTime): void {
+    this.history.beginGroup('Split Clip');
+    this.getSelectedClips()
+      .filter(clip => clip.containsTime(time))
+      .forEach(clip => this.splitClip(clip.id, time));
+    this.history.endGroup();
+  }
+
+  /**
+   * Cycle playback through the span of the selected clips
+   */
+  loopSelection(): void {
+    const clips = this.getSelectedClips();
+    if (clips.length > 0) {
+      this.setLoop(
+        Math.min(...clips.map(clip => clip.startTime)),
+        Math.max(...clips.map(clip => clip.getEndTime()))
+      );
+    }
+  }
+
+  /**
+   * Mute the selected tracks, or unmute them all if the first is muted
+   */
+  toggleSelectionMute(): void {
+    const tracks = this.getSelectedTracks();
+    const mute = !tracks[0]?.isMuted;
+    this.history.beginGroup('Toggle Mute');
+    tracks
+      .filter(track => track.isMuted !== mute)
+      .forEach(track => this.toggleTrackMute(track.id));
+    this.history.endGroup();
+  }
+
+  /**
+   * Solo the selected tracks, or unsolo them all if the first is soloed
+   */
+  toggleSelectionSolo(): void {
+    const tracks = this.getSelectedTracks();
+    const solo = !tracks[0]?.isSolo;
+    this.history.beginGroup('Toggle Solo');
+    tracks
+      .filter(track => track.isSolo !== solo)
+      .forEach(track => this.toggleTrackSolo(track.id));
+    this.history.endGroup();
+  }
+
+  /**
+   * Set every selected track to the same volume
+   */
+  setSelectionVolume(volume: number): void {
+    const tracks = this.getSelectedTracks();
+    if (tracks.length === 0) {
+      return;
+    }
+
+    this.execute(new SetTracksVolumeCommand(
+      new Map(tracks.map(track => [track.id, track.volume])),
+      volume
+    ));
+    tracks.forEach(track => this.transportService.setTrackVolume(track.id, track.volume));
+    this.notifyUpdate();
+  }
+
+  /**
+   * Add a new track to the timeline, holding a single clip of the file
+   */
+  async addTrack(file: File): Promise<void> {
+    try {
+      const clip = new AudioClip(file);
+      const audioBuffer = await this.audioService.loadAudioFile(file);
+      clip.setAudioBuffer(audioBuffer);
+
+      // All clips start at time 0 by default so they can be layered/mixed together
+      // Users can drag clips to different positions if needed
+      clip.setStartTime(0);
+
+      const track = new AudioTrack(file.name);
+      track.addClip(clip);
+
+      this.execute(new AddTrackCommand(track));
+      this.notifyUpdate();
+      this.analyzeClips([clip]);
+    } catch (error) {
+      console.error('Error adding track:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a new track holding an already decoded recording, starting at a timeline time
+   */
+  addRecording(file: File, buffer: AudioBuffer, startTime: number): AudioTrack {
+    const clip = new AudioClip(file);
+    clip.setAudioBuffer(buffer);
+    clip.setStartTime(startTime);
+
+    const track = new AudioTrack(file.name.replace(/\.wav$/, ''));
+    track.addClip(clip);
+
+    this.execute(new AddTrackCommand(track));
+    this.notifyUpdate();
+    return track;
+  }
+
+  /**
+   * Split a track into vocal, drum, bass and remaining stems, each on a new track right below it
+   * with the same clips in the same places. The original is muted so the mix sounds the same.
+   * Progress from 0 to 1 is reported while separating. Returns the new tracks.
+   */
+  async splitIntoStems(trackId: string, onProgress?: (progress: number) => void): Promise<AudioTrack[]> {
+    const track = this.timeline.getTrack(trackId);
+    if (!track) {
+      return [];
+    }
+
+    try {
+      // Separate each file once, however many clips were cut from it
+      const sources = new Map(
+        track.clips
+          .filter(clip => clip.audioBuffer)
+          .map(clip => [clip.audioBuffer!, clip.file] as const)
+      );
+      const separated = new Map<AudioBuffer, { buffers: StemBuffers; files: Record<StemName, File> }>();
+      for (const [i, [buffer, file]] of [...sources].entries()) {
+        const buffers = await this.stemSeparationService.separate(
+          buffer,
+          progress => onProgress?.((i + progress) / sources.size)
+        );
+        separated.set(buffer, { buffers, files: this.encodeStems(file, buffers) });
+      }
+
+      // The track may have been removed while separating
+      if (!this.timeline.getTrack(trackId)) {
+        return [];
+      }
+
+      const stemTracks = STEM_NAMES.map(name => {
+        const stemTrack = track.clone();
+        stemTrack.name = `${track.name} (${STEM_LABELS[name]})`;
+        stemTrack.isMuted = false;
+        stemTrack.isSolo = false;
+
+        track.clips.forEach(clip => {
+          const stems = clip.audioBuffer && separated.get(clip.audioBuffer);
+          if (!stems) {
+            return;
+          }
+
+          // Same region of the same-length audio, so the stem lines up sample for sample
+          const stemClip = clip.clone();
+          stemClip.file = stems.files[name];
+          stemClip.name = stemClip.file.name;
+          stemClip.audioBuffer = stems.buffers[name];
+          stemClip.setStretch(1, null);
+          stemTrack.addClip(stemClip);
+        });
+        return stemTrack;
+      });
+
+      this.history.beginGroup('Split into Stems');
+      const index = this.timeline.tracks.indexOf(track);
+      stemTracks.forEach((stemTrack, i) => this.execute(new AddTrackCommand(stemTrack, index + 1 + i)));
+      if (!track.isMuted) {
+        this.execute(new ToggleMuteCommand(trackId));
+        this.transportService.invalidateTrack(trackId);
+      }
+      this.history.endGroup();
+
+      this.notifyUpdate();
+      this.syncRendering();
+      return stemTracks;
+    } catch (error) {
+      console.error('Error splitting into stems:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a track from the timeline
+   */
+  removeTrack(trackId: string): void {
+    this.execute(new RemoveTrackCommand(trackId));
+    this.transportService.invalidateTrack(trackId);
+    this.audioService.releaseChannelMeter(trackId);
+    this.notifyUpdate();
+  }
+
+  /**
+   * Update track position on timeline, moving all of its clips together
+   */
+  updateTrackPosition(trackId: string, startTime: number): void {
+    const track = this.timeline.getTrack(trackId);
+    if (track) {
+      this.execute(new MoveTrackCommand(trackId, track.startTime, startTime));
+      this.transportService.invalidateTrack(trackId);
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Move a track so its onsets line up with a reference track's, found by cross-correlation.
+   * Returns the estimate, whose confidence says how well the tracks match there,
+   * or null when either track has nothing to line up.
+   */
+  async alignTrack(trackId: string, referenceId: string): Promise<AlignmentEstimate | null> {
+    const track = this.timeline.getTrack(trackId);
+    const reference = this.timeline.getTrack(referenceId);
+    if (!track || !reference || track === reference) {
+      return null;
+    }
+
+    try {
+      const estimate = await this.analysisService.findAlignment(reference, track);
+      if (estimate) {
+        this.updateTrackPosition(trackId, estimate.startTime);
+      }
+      return estimate;
+    } catch (error) {
+      console.error('Error aligning tracks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a clip to a time, and optionally onto another track
+   */
+  moveClip(clipId: string, startTime: number, trackId?: string): void {
+    const found = this.timeline.findClip(clipId);
+    if (!found) {
+      return;
+    }
+
+    const targetId = trackId ?? found.track.id;
+    if (!this.timeline.getTrack(targetId)) {
+      return;
+    }
+
+    this.execute(new MoveClipCommand(
+      clipId,
+      { trackId: found.track.id, startTime: found.clip.startTime },
+      { trackId: targetId, startTime }
+    ));
+    this.transportService.invalidateClip(clipId);
+    this.notifyUpdate();
+    this.syncRendering();
+  }
+
+  /**
+   * Delete a single clip, leaving the rest of its track in place
+   */
+  removeClip(clipId: string): void {
+    if (this.timeline.getClip(clipId)) {
+      this.execute(new RemoveClipCommand(clipId));
+      this.transportService.invalidateClip(clipId);
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Trim the head or tail of a clip to a timeline time without touching its audio
+   */
+  trimClip(clipId: string, edge: 'start' | 'end', time: number): void {
+    if (this.timeline.getClip(clipId)) {
+      this.execute(new TrimClipCommand(clipId, edge, time));
+      this.transportService.invalidateClip(clipId);
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Split a clip in two at a timeline time (the playhead by default).
+   * Both halves share the original AudioBuffer.
+   */
+  splitClip(clipId: string, time: number = this.timeline.currentTime): void {
+    const command = new SplitClipCommand(clipId, time);
+    command.execute(this.timeline);
+
+    const tail = command.getTail();
+    if (tail) {
+      this.history.record(command);
+      this.transportService.invalidateClip(clipId);
+      this.transportService.invalidateClip(tail.id);
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Split every clip of a track that plays at a timeline time (the playhead by default)
+   */
+  splitTrack(trackId: string, time: number = this.timeline.currentTime): void {
+    const track = this.timeline.getTrack(trackId);
+    if (!track) {
+      return;
+    }
+
+    this.history.beginGroup('Split Clip');
+    track.clips
+      .filter(clip => clip.containsTime(time))
+      .forEach(clip => this.splitClip(clip.id, time));
+    this.history.endGroup();
+  }
+
+  /**
+   * Copy a clip onto the same track, right after the original unless a start time is given.
+   * Returns the new clip so the caller can select it.
+   */
+  duplicateClip(clipId: string, startTime?: number): AudioClip | undefined {
+    if (!this.timeline.getClip(clipId)) {
+      return undefined;
+    }
+
+    const command = new DuplicateClipCommand(clipId, startTime);
+    this.execute(command);
+    this.transportService.invalidateClip(clipId);
+    this.notifyUpdate();
+    return command.getCopy();
+  }
+
+  /**
+   * Update track volume
+   */
+  updateTrackVolume(trackId: string, volume: number): void {
+    const track = this.timeline.getTrack(trackId);
+    if (track) {
+      this.execute(new SetVolumeCommand(trackId, track.volume, volume));
+      this.transportService.setTrackVolume(trackId, track.volume);
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Update track stereo position
+   */
+  updateTrackPan(trackId: string, pan: number): void {
+    const track = this.timeline.getTrack(trackId);
+    if (track) {
+      this.execute(new SetPanCommand(trackId, track.pan, pan));
+      this.transportService.setTrackPan(trackId, track.pan);
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Update the level of the whole mix
+   */
+  setMasterVolume(volume: number): void {
+    this.execute(new SetMasterVolumeCommand(this.timeline.masterVolume, volume));
+    this.audioService.setMasterVolume(this.timeline.masterVolume);
+    this.notifyUpdate();
+  }
+
+  /**
+   * Add a group bus that tracks can be routed into
+   */
+  addGroupBus(name: string): MixBus {
+    const bus = new MixBus(name, 'group');
+    this.execute(new AddBusCommand(bus));
+    this.notifyUpdate();
+    return bus;
+  }
+
+  /**
+   * Add an aux bus returning a shared reverb or delay
+   */
+  addAuxBus(name: string, effect: AuxEffectType): MixBus {
+    const bus = createAuxBus(name, effect);
+    this.execute(new AddBusCommand(bus));
+    this.notifyUpdate();
+    return bus;
+  }
+
+  /**
+   * Remove a bus, sending its tracks back to the master
+   */
+  removeBus(busId: string): void {
+    if (this.timeline.getBus(busId)) {
+      this.execute(new RemoveBusCommand(busId));
+      this.transportService.invalidateAll();
+      this.audioService.releaseChannelMeter(busId);
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Update a bus's fader level
+   */
+  setBusVolume(busId: string, volume: number): void {
+    const bus = this.timeline.getBus(busId);
+    if (bus) {
+      this.execute(new SetBusVolumeCommand(busId, bus.volume, volume));
+      this.transportService.setBusVolume(bus);
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Toggle muting a bus
+   */
+  toggleBusMute(busId: string): void {
+    const bus = this.timeline.getBus(busId);
+    if (bus) {
+      this.execute(new ToggleBusMuteCommand(busId));
+      // A muted group stops its tracks, including their sends, like a track mute
+      if (bus.kind === 'group') {
+        this.transportService.invalidateAll();
+      } else {
+        this.transportService.setBusVolume(bus);
+      }
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Toggle soloing a group bus
+   */
+  toggleBusSolo(busId: string): void {
+    if (this.timeline.getBus(busId)?.kind === 'group') {
+      this.execute(new ToggleBusSoloCommand(busId));
+      this.transportService.invalidateAll();
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Change some settings of one of a bus's effects
+   */
+  updateBusEffect<K extends EffectType>(
+    busId: string,
+    type: K,
+    settings: Partial<TrackEffects[K]>
+  ): void {
+    const bus = this.timeline.getBus(busId);
+    if (bus) {
+      const current = bus.effects[type];
+      this.execute(new SetBusEffectCommand(busId, type, current, { ...current, ...settings }));
+      this.transportService.setBusEffects(bus);
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Route a track into a group bus, or back to the master with null
+   */
+  setTrackOutput(trackId: string, busId: string | null): void {
+    const track = this.timeline.getTrack(trackId);
+    const isGroup = busId === null || this.timeline.getBus(busId)?.kind === 'group';
+    if (track && isGroup && track.outputBusId !== busId) {
+      this.execute(new SetTrackOutputCommand(trackId, track.outputBusId, busId));
+      // Group mute and solo decide whether the track is heard
+      this.transportService.invalidateAll();
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Set how much of a track is sent to an aux bus
+   */
+  setTrackSend(trackId: string, busId: string, level: number): void {
+    const track = this.timeline.getTrack(trackId);
+    if (track && this.timeline.getBus(busId)?.kind === 'aux') {
+      this.execute(new SetSendCommand(trackId, busId, track.getSend(busId), level));
+      this.transportService.setTrackSend(track, busId);
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Change a clip's fade lengths or curves
+   */
+  setClipFades(clipId: string, fades: Partial<ClipFades>): void {
+    const clip = this.timeline.getClip(clipId);
+    if (clip) {
+      const current = clip.getFades();
+      this.execute(new SetClipFadesCommand(clipId, current, { ...current, ...fades }));
+      this.transportService.invalidateClip(clipId);
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Fade one clip out and another in over the stretch where they overlap,
+   * with equal-power curves so the level holds through the transition
+   */
+  crossfadeClips(outgoingId: string, incomingId: string): void {
+    const outgoing = this.timeline.getClip(outgoingId);
+    const incoming = this.timeline.getClip(incomingId);
+    if (!outgoing || !incoming) {
+      return;
+    }
+
+    const overlap = outgoing.getEndTime() - incoming.startTime;
+    if (overlap <= 0) {
+      return;
+    }
 
-  constructor(private audioService: AudioService) {
-    this.timeline = new Timeline();
-    this.timelineSubject = new BehaviorSubject<Timeline>(this.timeline);
+    this.history.beginGroup('Crossfade');
+    this.setClipFades(outgoingId, { fadeOut: overlap, fadeOutCurve: 'equal-power' });
+    this.setClipFades(incomingId, { fadeIn: overlap, fadeInCurve: 'equal-power' });
+    this.history.endGroup();
   }
 
   /**
-   * Get timeline as observable
+   * Change some settings of one of a track's insert effects
    */
-  getTimeline(): Observable<Timeline> {
-    return this.timelineSubject.asObservable();
+  updateTrackEffect<K extends EffectType>(
+    trackId: string,
+    type: K,
+    settings: Partial<TrackEffects[K]>
+  ): void {
+    const track = this.timeline.getTrack(trackId);
+    if (track) {
+      const current = track.effects[type];
+      this.execute(new SetEffectCommand(trackId, type, current, { ...current, ...settings }));
+      this.transportService.setTrackEffects(track);
+      this.notifyUpdate();
+    }
   }
 
   /**
-   * Get current timeline state
+   * Add an automation breakpoint, returning its index in the lane
    */
-  getCurrentTimeline(): Timeline {
-    return this.timeline;
+  addAutomationPoint(
+    trackId: string,
+    parameter: AutomationParameter,
+    time: number,
+    value: number
+  ): number {
+    return this.editAutomation(trackId, parameter, lane => lane.addPoint(time, value)) ?? -1;
   }
 
   /**
-   * Add a new track to the timeline
+   * Move an automation breakpoint
    */
-  async addTrack(file: File): Promise<void> {
-    try {
-      const track = new AudioTrack(file);
-      const audioBuffer = await this.audioService.loadAudioFile(file);
-      track.setAudioBuffer(audioBuffer);
-
-      // All tracks start at time 0 by default so they can be layered/mixed together
-      // Users can drag tracks to different positions if needed
-      track.setStartTime(0);
-
-      this.timeline.addTrack(track);
-      this.notifyUpdate();
-    } catch (error) {
-      console.error('Error adding track:', error);
-      throw error;
-    }
+  moveAutomationPoint(
+    trackId: string,
+    parameter: AutomationParameter,
+    index: number,
+    time: number,
+    value: number
+  ): void {
+    this.editAutomation(trackId, parameter, lane => lane.movePoint(index, time, value));
   }
 
   /**
-   * Remove a track from the timeline
+   * Remove an automation breakpoint
    */
-  removeTrack(trackId: string): void {
-    this.audioService.stopTrack(trackId);
-    this.timeline.removeTrack(trackId);
-    this.notifyUpdate();
+  removeAutomationPoint(trackId: string, parameter: AutomationParameter, index: number): void {
+    this.editAutomation(trackId, parameter, lane => lane.removePoint(index));
   }
 
   /**
-   * Update track position on timeline
+   * Toggle track mute
    */
-  updateTrackPosition(trackId: string, startTime: number): void {
+  toggleTrackMute(trackId: string): void {
     const track = this.timeline.getTrack(trackId);
     if (track) {
-      track.setStartTime(startTime);
-      this.timeline.updateDuration();
+      this.execute(new ToggleMuteCommand(trackId));
+
+      // The transport re-queues the track from the playhead if it should still be heard
+      this.transportService.invalidateTrack(trackId);
       this.notifyUpdate();
     }
   }
 
   /**
-   * Update track volume
+   * Toggle time-stretching a track's clips to the project tempo
    */
-  updateTrackVolume(trackId: string, volume: number): void {
-    const track = this.timeline.getTrack(trackId);
-    if (track) {
-      track.setVolume(volume);
+  toggleTrackWarp(trackId: string): void {
+    if (this.timeline.getTrack(trackId)) {
+      this.execute(new ToggleWarpCommand(trackId));
       this.notifyUpdate();
+      this.syncRendering();
     }
   }
 
   /**
-   * Toggle track mute
+   * Shift a track's pitch without changing its tempo
    */
-  toggleTrackMute(trackId: string): void {
+  setTrackPitch(trackId: string, semitones: number, cents: number): void {
     const track = this.timeline.getTrack(trackId);
     if (track) {
-      track.toggleMute();
-      
-      // If currently playing, stop the track and let updatePlayback handle restarting if needed
-      if (this.timeline.isPlaying) {
-        this.audioService.stopTrack(trackId);
-        // The track will be automatically started by updatePlayback if it should be playing
-        const hasSoloTracks = this.timeline.hasAnySoloTracks();
-        this.audioService.updatePlayback(
-          this.timeline.tracks,
-          this.timeline.currentTime,
-          hasSoloTracks
-        );
-      }
-      
+      this.execute(new SetPitchCommand(
+        trackId,
+        { semitones: track.pitchSemitones, cents: track.pitchCents },
+        { semitones, cents }
+      ));
       this.notifyUpdate();
+      this.syncRendering();
     }
   }
 
@@ -115,22 +858,19 @@ export class TimelineService {
   toggleTrackSolo(trackId: string): void {
     const track = this.timeline.getTrack(trackId);
     if (track) {
-      track.toggleSolo();
-      
-      // If currently playing, restart playback
-      if (this.timeline.isPlaying) {
-        this.pause();
-        this.play();
-      }
-      
+      this.execute(new ToggleSoloCommand(trackId));
+
+      // Solo affects which tracks are heard, so every track is re-queued
+      this.transportService.invalidateAll();
       this.notifyUpdate();
     }
   }
 
   /**
-   * Play the timeline
+   * Play the timeline after a count-in in seconds during which the playhead holds, by default
+   * the metronome's. Open-ended playback runs on past the end of the timeline, e.g. while recording.
    */
-  play(): void {
+  play(countIn = this.timeline.getCountInDuration(), isOpenEnded = false): void {
     this.audioService.resumeContext();
     
     if (this.timeline.isPlaying) {
@@ -138,30 +878,21 @@ export class TimelineService {
     }
 
     this.timeline.play();
-    this.playbackStartTime = Date.now() - (this.timeline.currentTime * 1000);
-
-    // Start playback of all tracks that should be playing now
-    const hasSoloTracks = this.timeline.hasAnySoloTracks();
-    this.audioService.playTracks(
-      this.timeline.tracks,
-      this.timeline.currentTime,
-      hasSoloTracks
-    );
+    this.transportService.start(this.timeline, this.timeline.currentTime, countIn);
 
-    // Update current time every 50ms and check for new tracks to start
-    this.playbackSubscription = interval(50).subscribe(() => {
-      const elapsed = (Date.now() - this.playbackStartTime) / 1000;
-      this.timeline.setCurrentTime(elapsed);
-
-      // Check and start any tracks that should begin playing now
-      this.audioService.updatePlayback(
-        this.timeline.tracks,
-        this.timeline.currentTime,
-        hasSoloTracks
-      );
+    // The transport schedules audio on its own clock; this only follows it for the UI
+    this.playbackSubscription = interval(UI_REFRESH_MS).subscribe(() => {
+      const position = this.transportService.getPosition();
+      // Open-ended playback, e.g. recording, runs on past the end of the tracks
+      if (isOpenEnded) {
+        this.timeline.extendDuration(position);
+      }
+      this.timeline.setCurrentTime(position);
 
-      // Stop at the end
-      if (this.timeline.currentTime >= this.timeline.duration) {
+      // Stop at the end, unless cycling a loop region
+      const loop = this.timeline.getActiveLoop();
+      const isCycling = loop !== undefined && this.timeline.currentTime < loop.end;
+      if (!isCycling && !isOpenEnded && this.timeline.currentTime >= this.timeline.duration) {
         this.stop();
       }
 
@@ -179,13 +910,10 @@ export class TimelineService {
       return;
     }
 
+    this.timeline.setCurrentTime(this.transportService.getPosition());
     this.timeline.pause();
-    this.audioService.stopAll();
-    this.pausedAt = this.timeline.currentTime;
-
-    if (this.playbackSubscription) {
-      this.playbackSubscription.unsubscribe();
-    }
+    this.transportService.stop();
+    this.playbackSubscription?.unsubscribe();
 
     this.notifyUpdate();
   }
@@ -195,11 +923,8 @@ export class TimelineService {
    */
   stop(): void {
     this.timeline.stop();
-    this.audioService.stopAll();
-
-    if (this.playbackSubscription) {
-      this.playbackSubscription.unsubscribe();
-    }
+    this.transportService.stop();
+    this.playbackSubscription?.unsubscribe();
 
     this.notifyUpdate();
   }
@@ -217,12 +942,84 @@ export class TimelineService {
     this.timeline.setCurrentTime(time);
     
     if (wasPlaying) {
-      this.play();
+      this.play(0);
     } else {
       this.notifyUpdate();
     }
   }
 
+  /**
+   * Move the playhead to a marker
+   */
+  seekToMarker(markerId: string): void {
+    const marker = this.timeline.getMarker(markerId);
+    if (marker) {
+      this.seek(marker.time);
+    }
+  }
+
+  /**
+   * Move the playhead to the first marker after it
+   */
+  jumpToNextMarker(): void {
+    const marker = this.timeline.getNextMarker(this.timeline.currentTime);
+    if (marker) {
+      this.seek(marker.time);
+    }
+  }
+
+  /**
+   * Move the playhead to the last marker before it
+   */
+  jumpToPreviousMarker(): void {
+    const marker = this.timeline.getPreviousMarker(this.timeline.currentTime);
+    if (marker) {
+      this.seek(marker.time);
+    }
+  }
+
+  /**
+   * Add a named marker, at the playhead unless a time is given
+   */
+  addMarker(name: string, time: number = this.timeline.currentTime): Marker {
+    const marker = new Marker(name, time);
+    this.execute(new AddMarkerCommand(marker));
+    this.notifyUpdate();
+    return marker;
+  }
+
+  /**
+   * Remove a marker
+   */
+  removeMarker(markerId: string): void {
+    if (this.timeline.getMarker(markerId)) {
+      this.execute(new RemoveMarkerCommand(markerId));
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Rename a marker
+   */
+  renameMarker(markerId: string, name: string): void {
+    const marker = this.timeline.getMarker(markerId);
+    if (marker && name && name !== marker.name) {
+      this.execute(new RenameMarkerCommand(markerId, marker.name, name));
+      this.notifyUpdate();
+    }
+  }
+
+  /**
+   * Move a marker to a new time
+   */
+  moveMarker(markerId: string, time: number): void {
+    const marker = this.timeline.getMarker(markerId);
+    if (marker && time !== marker.time) {
+      this.execute(new MoveMarkerCommand(markerId, marker.time, time));
+      this.notifyUpdate();
+    }
+  }
+
   /**
    * Set zoom level
    */
@@ -231,12 +1028,384 @@ export class TimelineService {
     this.notifyUpdate();
   }
 
+  /**
+   * Set the project tempo
+   */
+  setBpm(bpm: number): void {
+    if (Number.isFinite(bpm) && bpm !== this.timeline.bpm) {
+      this.execute(new SetTempoCommand(this.timeline.bpm, bpm));
+      this.notifyUpdate();
+      this.syncRendering();
+    }
+  }
+
+  /**
+   * Set the project tempo to the tempo detected for a track
+   */
+  matchTempoToTrack(trackId: string): void {
+    const tempo = this.timeline.getTrack(trackId)?.getTempo();
+    if (tempo) {
+      this.setBpm(tempo.bpm);
+    }
+  }
+
+  /**
+   * Set the project time signature
+   */
+  setTimeSignature(timeSignature: TimeSignature): void {
+    this.execute(new SetTimeSignatureCommand({ ...this.timeline.timeSignature }, timeSignature));
+    this.notifyUpdate();
+  }
+
+  /**
+   * Turn the metronome click on or off
+   */
+  toggleMetronome(): void {
+    this.timeline.setMetronome({ isEnabled: !this.timeline.metronome.isEnabled });
+    this.notifyUpdate();
+  }
+
+  /**
+   * Set the metronome's own volume, independent of the master
+   */
+  setMetronomeVolume(volume: number): void {
+    this.timeline.setMetronome({ volume });
+    this.notifyUpdate();
+  }
+
+  /**
+   * Set how many bars are clicked before playback and recording start
+   */
+  setCountIn(bars: number): void {
+    this.timeline.setMetronome({ countInBars: bars });
+    this.notifyUpdate();
+  }
+
+  /**
+   * Cycle playback through a region, given by two times in either order
+   */
+  setLoop(from: number, to: number): void {
+    this.timeline.setLoop(from, to);
+    this.timeline.isLooping = true;
+    this.resyncLoop();
+  }
+
+  /**
+   * Cycle playback through a clip's extent
+   */
+  setLoopFromClip(clipId: string): void {
+    const clip = this.timeline.getClip(clipId);
+    if (clip) {
+      this.setLoop(clip.startTime, clip.getEndTime());
+    }
+  }
+
+  /**
+   * Turn cycle playback on or off. Without a region, the bar around the playhead is looped.
+   */
+  toggleLoop(): void {
+    if (!this.timeline.loop) {
+      const barDuration = this.timeline.getBarDuration();
+      const barStart = Math.floor(this.timeline.currentTime / barDuration + 1e-6) * barDuration;
+      this.timeline.setLoop(barStart, barStart + barDuration);
+    }
+    this.timeline.isLooping = !this.timeline.isLooping;
+    this.resyncLoop();
+  }
+
+  /**
+   * Remove the loop region and stop cycling
+   */
+  clearLoop(): void {
+    this.timeline.clearLoop();
+    this.resyncLoop();
+  }
+
+  /**
+   * Set the grid division clip edits snap to
+   */
+  setSnap(snap: SnapDivision): void {
+    this.timeline.snap = snap;
+    this.notifyUpdate();
+  }
+
+  /**
+   * Show the ruler in minutes and seconds or in bars and beats
+   */
+  setRulerMode(mode: RulerMode): void {
+    this.timeline.rulerMode = mode;
+    this.notifyUpdate();
+  }
+
   /**
    * Clear all tracks
    */
   clearAll(): void {
     this.stop();
-    this.timeline.clear();
+    const channelIds = this.getChannelIds();
+    this.execute(new ClearTracksCommand());
+    this.releaseChannelMeters(channelIds);
+    this.notifyUpdate();
+  }
+
+  /**
+   * Replace the current timeline, e.g. when opening a project
+   */
+  loadTimeline(timeline: Timeline): void {
+    this.stop();
+    const channelIds = this.getChannelIds();
+    this.timeline = timeline;
+    this.releaseChannelMeters(channelIds);
+    this.history.clear();
+    this.audioService.setMasterVolume(timeline.masterVolume);
+    this.notifyUpdate();
+    this.analyzeClips(timeline.tracks.flatMap(track => track.clips));
+    this.syncRendering();
+  }
+
+  /**
+   * Undo the last edit
+   */
+  undo(): void {
+    const channelIds = this.getChannelIds();
+    if (this.history.undo(this.timeline)) {
+      this.resyncPlayback();
+      this.releaseChannelMeters(channelIds);
+      this.notifyUpdate();
+      this.syncRendering();
+    }
+  }
+
+  /**
+   * Redo the last undone edit
+   */
+  redo(): void {
+    const channelIds = this.getChannelIds();
+    if (this.history.redo(this.timeline)) {
+      this.resyncPlayback();
+      this.releaseChannelMeters(channelIds);
+      this.notifyUpdate();
+      this.syncRendering();
+    }
+  }
+
+  /**
+   * Whether there is an edit to undo
+   */
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  /**
+   * Whether there is an undone edit to redo
+   */
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  /**
+   * Description of the edit undo would revert
+   */
+  getUndoLabel(): string | undefined {
+    return this.history.getUndoLabel();
+  }
+
+  /**
+   * Description of the edit redo would reapply
+   */
+  getRedoLabel(): string | undefined {
+    return this.history.getRedoLabel();
+  }
+
+  /**
+   * Record every edit until endEditGroup() as a single undo step, e.g. a whole drag
+   */
+  beginEditGroup(label: string): void {
+    this.history.beginGroup(label);
+  }
+
+  /**
+   * Close the group opened by beginEditGroup()
+   */
+  endEditGroup(): void {
+    this.history.endGroup();
+  }
+
+  /**
+   * Apply an edit and record it in the undo history
+   */
+  private execute(command: TimelineCommand): void {
+    command.execute(this.timeline);
+    this.history.record(command);
+  }
+
+  /**
+   * Ids of every track and bus, which name their channels
+   */
+  private getChannelIds(): string[] {
+    return [...this.timeline.tracks, ...this.timeline.buses].map(channel => channel.id);
+  }
+
+  /**
+   * Free the meters of channels that an edit removed
+   */
+  private releaseChannelMeters(channelIdsBefore: string[]): void {
+    const channelIds = new Set(this.getChannelIds());
+    channelIdsBefore
+      .filter(channelId => !channelIds.has(channelId))
+      .forEach(channelId => this.audioService.releaseChannelMeter(channelId));
+  }
+
+  /**
+   * Restart audio after an arbitrary edit so sources match the timeline again
+   */
+  private resyncPlayback(): void {
+    this.audioService.setMasterVolume(this.timeline.masterVolume);
+    this.transportService.invalidateAll();
+  }
+
+  /**
+   * Detect the tempo and key of clips that have not been analysed yet, in the background.
+   * Every clip sharing an analysed buffer picks up the result, including copies made meanwhile.
+   */
+  private async analyzeClips(clips: AudioClip[]): Promise<void> {
+    const buffers = new Set(
+      clips
+        .filter(clip => clip.audioBuffer && (!clip.tempo || !clip.key))
+        .map(clip => clip.audioBuffer!)
+    );
+
+    for (const buffer of buffers) {
+      try {
+        const tempo = await this.analysisService.analyzeTempo(buffer);
+        const key = await this.analysisService.analyzeKey(buffer);
+        this.timeline.tracks
+          .flatMap(track => track.clips)
+          .filter(clip => clip.audioBuffer === buffer)
+          .forEach(clip => {
+            clip.tempo = clip.tempo ?? tempo ?? undefined;
+            clip.key = clip.key ?? key ?? undefined;
+          });
+        this.notifyUpdate();
+        this.syncRendering();
+      } catch (error) {
+        console.warn('Audio analysis failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Apply an edit to a copy of an automation lane and record it as a command
+   */
+  private editAutomation<T>(
+    trackId: string,
+    parameter: AutomationParameter,
+    edit: (lane: AutomationLane) => T
+  ): T | undefined {
+    const track = this.timeline.getTrack(trackId);
+    if (!track) {
+      return undefined;
+    }
+
+    const lane = track.automation[parameter];
+    const edited = lane.clone();
+    const result = edit(edited);
+
+    this.execute(new SetAutomationCommand(trackId, parameter, lane.points, edited.points));
+    this.transportService.setTrackAutomation(track);
+    this.notifyUpdate();
+    return result;
+  }
+
+  /**
+   * Bring every clip's time-stretch and pitch shift in line with its track's settings
+   * and the project tempo, rendering the audio in the background where needed
+   */
+  private async syncRendering(): Promise<void> {
+    const stale = this.timeline.tracks
+      .flatMap(track => track.clips)
+      .filter(clip => !this.isRenderingCurrent(clip));
+
+    for (const clip of stale) {
+      const { stretch, pitch } = this.getTargetRendering(clip);
+      if (!clip.audioBuffer || this.isRenderingCurrent(clip)) {
+        continue;
+      }
+
+      try {
+        const rendered = stretch === 1 && pitch === 1
+          ? null
+          : await this.timeStretchService.getStretchedBuffer(clip.audioBuffer, stretch * pitch);
+
+        // The tempo or the clip's track may have changed while rendering
+        const target = this.getTargetRendering(clip);
+        if (isSameRatio(target.stretch, stretch) && isSameRatio(target.pitch, pitch)) {
+          clip.setStretch(stretch, rendered, pitch);
+          this.timeline.updateDuration();
+          this.transportService.invalidateClip(clip.id);
+          this.notifyUpdate();
+        }
+      } catch (error) {
+        console.warn('Time-stretch failed:', error);
+      }
+    }
+  }
+
+  /**
+   * WAV files of a source file's stems, named after it, so they save with the project
+   */
+  private encodeStems(file: File, stems: StemBuffers): Record<StemName, File> {
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    return Object.fromEntries(STEM_NAMES.map(name => [
+      name,
+      new File([encodeWav(stems[name], 16)], `${baseName} (${STEM_LABELS[name]}).wav`, { type: 'audio/wav' })
+    ])) as Record<StemName, File>;
+  }
+
+  /**
+   * Stretch and pitch ratios a clip should play at: its source tempo over the project
+   * tempo when its track is warped, and its track's pitch shift
+   */
+  private getTargetRendering(clip: AudioClip): { stretch: number; pitch: number } {
+    const track = this.timeline.findClip(clip.id)?.track;
+    return {
+      stretch: track?.warp && clip.tempo ? clip.tempo.bpm / this.timeline.bpm : 1,
+      pitch: track ? track.getPitchRatio() : 1
+    };
+  }
+
+  private isRenderingCurrent(clip: AudioClip): boolean {
+    const { stretch, pitch } = this.getTargetRendering(clip);
+    return isSameRatio(clip.stretchRatio, stretch) && isSameRatio(clip.pitchRatio, pitch);
+  }
+
+  /**
+   * Empty the clip and track selection without notifying subscribers
+   */
+  private clearSelectedIds(): void {
+    this.selectedClipIds.clear();
+    this.selectedTrackIds.clear();
+  }
+
+  private getSelectedClips(): AudioClip[] {
+    return this.getSelection().clipIds
+      .map(clipId => this.timeline.getClip(clipId))
+      .filter((clip): clip is AudioClip => clip !== undefined);
+  }
+
+  private getSelectedTracks(): AudioTrack[] {
+    return this.getSelection().trackIds
+      .map(trackId => this.timeline.getTrack(trackId))
+      .filter((track): track is AudioTrack => track !== undefined);
+  }
+
+  /**
+   * Let running playback wrap at the current loop region
+   */
+  private resyncLoop(): void {
+    if (this.timeline.isPlaying) {
+      this.transportService.invalidateAll();
+    }
     this.notifyUpdate();
   }
 
@@ -0,0 +1,217 @@
+import { AudioClip, AudioTrack, Timeline } from '../models';
+import { AudioService, MeterTap, TrackChannel } from './audio.service';
+import { TransportService } from './transport.service';
+
+/**
+ * A source the fake AudioService started: where in the timeline it starts,
+ * when on the context clock, and where it is cut
+ */
+interface StartedSource {
+  clipId: string;
+  timelineTime: number;
+  when: number;
+  until: number;
+  source: jasmine.SpyObj<AudioBufferSourceNode>;
+}
+
+describe('TransportService', () => {
+  const sampleRate = 44100;
+  // Mirrors the scheduler's own constants
+  const schedulerIntervalMs = 25;
+  const startLatency = 0.05;
+
+  let now: number;
+  let started: StartedSource[];
+  let audioService: jasmine.SpyObj<AudioService>;
+  let transport: TransportService;
+  let timeline: Timeline;
+
+  function addClip(track: AudioTrack, startTime: number, seconds: number): AudioClip {
+    const clip = new AudioClip(new File([], 'loop.wav'));
+    clip.setAudioBuffer(new AudioBuffer({ length: seconds * sampleRate, numberOfChannels: 1, sampleRate }));
+    clip.setStartTime(startTime);
+    track.addClip(clip);
+    return clip;
+  }
+
+  function addTrack(): AudioTrack {
+    const track = new AudioTrack('Track');
+    timeline.addTrack(track);
+    return track;
+  }
+
+  /** Move the audio clock on, waking the scheduler as often as it would */
+  function advance(seconds: number): void {
+    const steps = Math.round((seconds * 1000) / schedulerIntervalMs);
+    for (let i = 0; i < steps; i++) {
+      now += schedulerIntervalMs / 1000;
+      jasmine.clock().tick(schedulerIntervalMs);
+    }
+  }
+
+  function startsOf(clip: AudioClip): StartedSource[] {
+    return started.filter(source => source.clipId === clip.id);
+  }
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    now = 1;
+    started = [];
+
+    const channel: Partial<TrackChannel> = {
+      input: {} as AudioNode,
+      panner: jasmine.createSpyObj<StereoPannerNode>('StereoPannerNode', ['connect'])
+    };
+    const meter: Partial<MeterTap> = { input: {} as AudioNode };
+
+    audioService = jasmine.createSpyObj<AudioService>('AudioService', [
+      'getCurrentTime',
+      'getContext',
+      'getMasterInput',
+      'startClip',
+      'createTrackChannel',
+      'disconnectTrackChannel',
+      'getChannelMeter',
+      'applyAutomation'
+    ]);
+    audioService.getCurrentTime.and.callFake(() => now);
+    audioService.createTrackChannel.and.returnValue(channel as TrackChannel);
+    audioService.getChannelMeter.and.returnValue(meter as MeterTap);
+    audioService.startClip.and.callFake((_context, clip, _input, timelineTime, when, until = Infinity) => {
+      const source = jasmine.createSpyObj<AudioBufferSourceNode>('AudioBufferSourceNode', ['stop', 'addEventListener']);
+      started.push({ clipId: clip.id, timelineTime, when, until, source });
+      return source;
+    });
+
+    transport = new TransportService(audioService);
+    timeline = new Timeline();
+  });
+
+  afterEach(() => {
+    transport.stop();
+    jasmine.clock().uninstall();
+  });
+
+  it('should start each source at the context time its clip plays', () => {
+    const track = addTrack();
+    const first = addClip(track, 0, 4);
+    const second = addClip(track, 0.3, 4);
+
+    transport.start(timeline, 0);
+    expect(startsOf(second).length).toBe(0); // Still beyond the look-ahead
+
+    advance(0.5);
+
+    const contextStart = 1 + startLatency;
+    expect(startsOf(first).map(({ timelineTime, when }) => ({ timelineTime, when })))
+      .toEqual([{ timelineTime: 0, when: contextStart }]);
+    expect(startsOf(second).length).toBe(1);
+    expect(startsOf(second)[0].timelineTime).toBe(0.3);
+    expect(startsOf(second)[0].when).toBeCloseTo(contextStart + 0.3, 9);
+  });
+
+  it('should start a clip already playing partway in, in phase with the start position', () => {
+    const clip = addClip(addTrack(), 0, 4);
+
+    transport.start(timeline, 2.5);
+
+    const [source] = startsOf(clip);
+    expect(source.timelineTime).toBe(2.5);
+    expect(source.when).toBeCloseTo(1 + startLatency, 9);
+  });
+
+  it('should derive the playhead from the audio clock', () => {
+    addClip(addTrack(), 0, 4);
+
+    transport.start(timeline, 1);
+    expect(transport.getPosition()).toBe(1); // Counting the start latency down
+
+    advance(1);
+    expect(transport.getPosition()).toBeCloseTo(1 + 1 - startLatency, 9);
+    expect(transport.getContextTime(3)).toBeCloseTo(1 + startLatency + 2, 9);
+  });
+
+  it('should start a clip picked up mid-playback late by exactly the time already played', () => {
+    const clip = addClip(addTrack(), 0, 4);
+    transport.start(timeline, 0);
+    advance(1);
+
+    transport.invalidateClip(clip.id);
+
+    const [original, restarted] = startsOf(clip);
+    expect(original.source.stop).toHaveBeenCalled();
+    expect(restarted.when).toBeCloseTo(now + startLatency, 9);
+    // Still phase-locked to the first start
+    expect(restarted.when - restarted.timelineTime).toBeCloseTo(original.when - original.timelineTime, 9);
+  });
+
+  it('should wrap a loop with no gap and no double start', () => {
+    const track = addTrack();
+    const long = addClip(track, 0, 4);
+    const late = addClip(track, 1.5, 1);
+    timeline.setLoop(0, 2);
+    timeline.isLooping = true;
+
+    transport.start(timeline, 0);
+    advance(4.5); // Into the third pass
+
+    const contextStart = 1 + startLatency;
+    const longStarts = startsOf(long);
+    expect(longStarts.length).toBe(3);
+    longStarts.forEach((source, pass) => {
+      expect(source.timelineTime).toBe(0);
+      expect(source.when).toBeCloseTo(contextStart + 2 * pass, 9);
+      expect(source.until).toBe(2); // Cut where the next pass starts
+    });
+
+    // Clips beyond the loop start start each pass at their own offset
+    expect(startsOf(late).length).toBe(2);
+    startsOf(late).forEach((source, pass) => expect(source.when).toBeCloseTo(contextStart + 1.5 + 2 * pass, 9));
+  });
+
+  it('should stop a muted track and pick it up again from the playhead when unmuted', () => {
+    const track = addTrack();
+    const clip = addClip(track, 0, 4);
+    transport.start(timeline, 0);
+    advance(1);
+
+    track.isMuted = true;
+    transport.invalidateTrack(track.id);
+    expect(startsOf(clip)[0].source.stop).toHaveBeenCalled();
+    expect(startsOf(clip).length).toBe(1);
+    expect(audioService.disconnectTrackChannel).toHaveBeenCalled();
+
+    advance(0.5);
+    track.isMuted = false;
+    transport.invalidateTrack(track.id);
+
+    const restarted = startsOf(clip)[1];
+    expect(restarted.when).toBeCloseTo(now + startLatency, 9);
+    expect(restarted.when - restarted.timelineTime).toBeCloseTo(1 + startLatency, 9);
+  });
+
+  it('should re-queue a clip in the pass playing and the pass queued ahead when it changes near a wrap', () => {
+    const clip = addClip(addTrack(), 0, 4);
+    timeline.setLoop(0, 2);
+    timeline.isLooping = true;
+    transport.start(timeline, 0);
+
+    // The next pass is queued once the look-ahead reaches the loop end
+    advance(1.975);
+    expect(startsOf(clip).length).toBe(2);
+
+    transport.invalidateClip(clip.id);
+
+    const [firstPass, nextPass, restartedNow, restartedNext] = startsOf(clip);
+    expect(firstPass.source.stop).toHaveBeenCalled();
+    expect(nextPass.source.stop).toHaveBeenCalled();
+
+    // The rest of the current pass plays on, in phase, up to the wrap
+    expect(restartedNow.when).toBeCloseTo(now + startLatency, 9);
+    expect(restartedNow.when - restartedNow.timelineTime).toBeCloseTo(1 + startLatency, 9);
+    expect(restartedNow.until).toBe(2);
+    // And the next pass still starts on time
+    expect(restartedNext.timelineTime).toBe(0);
+    expect(restartedNext.when).toBeCloseTo(1 + startLatency + 2, 9);
+  });
+});
@@ -0,0 +1,532 @@
+import { Injectable } from '@angular/core';
+import { interval, Subscription } from 'rxjs';
+import { Timeline, AudioClip, AudioTrack, MixBus } from '../models';
+import { AudioService, BusChannel, TrackChannel } from './audio.service';
+import { getBeatsInRange, scheduleClick } from '../utils/click';
+
+/** How often the scheduler wakes up to queue upcoming sources */
+const SCHEDULER_INTERVAL_MS = 25;
+/** How far ahead of the playhead sources are queued on the audio clock */
+const LOOKAHEAD_SECONDS = 0.1;
+/** Headroom so the first sources are queued before their start time arrives */
+const START_LATENCY_SECONDS = 0.05;
+
+/**
+ * A stretch of playback over which timeline time advances with the audio clock
+ */
+interface PlaybackSegment {
+  contextStart: number; // AudioContext time at which timelineStart plays
+  timelineStart: number;
+  timelineEnd: number; // Where playback wraps back to the loop start, or Infinity
+  queuedClips: Map<string, string>; // Clip id -> track id, for clips already queued in this pass
+}
+
+/**
+ * Plays the timeline against the AudioContext clock.
+ *
+ * The playhead position is derived from audioContext.currentTime rather than wall-clock
+ * time, and a look-ahead scheduler queues every source at the exact context time its
+ * clip starts, so layered clips stay sample-aligned however long playback runs.
+ *
+ * Cycling a loop region chains playback segments: when the look-ahead reaches the loop end,
+ * the next pass is queued to start at the exact context time the current one is cut,
+ * so the wrap is seamless. Each pass remembers which clips it has queued, so a clip dropped
+ * while the next pass is already queued is picked up again in both: from the playhead in the
+ * pass playing now, and from the loop start in the next.
+ *
+ * Metronome clicks are queued by the same scheduler, straight into the speakers rather than
+ * the master bus, so they follow the transport exactly and never reach an export.
+ * A count-in delay before playback is always clicked.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TransportService {
+  private timeline?: Timeline;
+  private schedulerSubscription?: Subscription;
+  private segments: PlaybackSegment[] = [];
+  private timelineStartTime = 0;
+  private trackChannels: Map<string, TrackChannel> = new Map();
+  private busChannels: Map<string, BusChannel> = new Map();
+  private scheduledSources: Map<AudioBufferSourceNode, string> = new Map(); // source -> clip id
+  private scheduledClicks = new Set<OscillatorNode>();
+  private countInStart = 0; // AudioContext time the count-in begins
+  private clickedUntil = 0; // AudioContext time clicks have been queued up to
+
+  constructor(private audioService: AudioService) {}
+
+  /**
+   * Start playing the timeline from a position, optionally after a count-in delay in seconds
+   */
+  start(timeline: Timeline, fromTime: number, delay = 0): void {
+    this.stop();
+
+    this.timeline = timeline;
+    this.timelineStartTime = fromTime;
+    this.countInStart = this.audioService.getCurrentTime() + START_LATENCY_SECONDS;
+    this.clickedUntil = this.countInStart;
+    this.segments = [{
+      contextStart: this.countInStart + delay,
+      timelineStart: fromTime,
+      timelineEnd: this.getLoopEnd(fromTime),
+      queuedClips: new Map()
+    }];
+
+    this.schedule();
+    this.schedulerSubscription = interval(SCHEDULER_INTERVAL_MS).subscribe(() => this.schedule());
+  }
+
+  /**
+   * Stop every scheduled source and the scheduler
+   */
+  stop(): void {
+    this.schedulerSubscription?.unsubscribe();
+    this.schedulerSubscription = undefined;
+    this.timeline = undefined;
+    this.segments = [];
+
+    this.stopSources();
+    this.disconnectChannels();
+
+    this.scheduledClicks.forEach(click => click.stop());
+    this.scheduledClicks.clear();
+  }
+
+  /**
+   * Whether the transport is running
+   */
+  isRunning(): boolean {
+    return this.timeline !== undefined;
+  }
+
+  /**
+   * Current timeline position according to the audio clock
+   */
+  getPosition(): number {
+    if (!this.isRunning()) {
+      return this.timelineStartTime;
+    }
+
+    const now = this.audioService.getCurrentTime();
+    const segment = this.getSegmentAt(now);
+    const elapsed = Math.max(0, now - segment.contextStart);
+    return Math.min(segment.timelineEnd, segment.timelineStart + elapsed);
+  }
+
+  /**
+   * AudioContext time at which a timeline position plays in the latest queued pass
+   */
+  getContextTime(timelineTime: number): number {
+    const segment = this.getLatestSegment();
+    return segment.contextStart + (timelineTime - segment.timelineStart);
+  }
+
+  /**
+   * Apply a track's volume to its live gain stage
+   */
+  setTrackVolume(trackId: string, volume: number): void {
+    const channel = this.trackChannels.get(trackId);
+    const track = this.timeline?.getTrack(trackId);
+    // An automated fader follows its envelope instead
+    if (channel && !track?.automation.volume.hasPoints()) {
+      channel.fader.gain.setValueAtTime(volume, this.audioService.getCurrentTime());
+    }
+  }
+
+  /**
+   * Apply a track's pan to its live panner
+   */
+  setTrackPan(trackId: string, pan: number): void {
+    const channel = this.trackChannels.get(trackId);
+    const track = this.timeline?.getTrack(trackId);
+    // An automated panner follows its envelope instead
+    if (channel && !track?.automation.pan.hasPoints()) {
+      channel.panner.pan.setValueAtTime(pan, this.audioService.getCurrentTime());
+    }
+  }
+
+  /**
+   * Apply a track's level into an aux bus, rebuilding its channel when the send is new
+   */
+  setTrackSend(track: AudioTrack, busId: string): void {
+    const channel = this.trackChannels.get(track.id);
+    const send = channel?.sends.get(busId);
+    if (send) {
+      send.gain.setValueAtTime(track.getSend(busId), this.audioService.getCurrentTime());
+    } else if (channel) {
+      this.invalidateTrack(track.id);
+    }
+  }
+
+  /**
+   * Apply a bus's volume and mute state to its live fader
+   */
+  setBusVolume(bus: MixBus): void {
+    const channel = this.busChannels.get(bus.id);
+    channel?.fader.gain.setValueAtTime(
+      this.audioService.getBusGain(bus),
+      this.audioService.getCurrentTime()
+    );
+  }
+
+  /**
+   * Apply a bus's effects settings to its live chain, rebuilding the mixer graph
+   * when an effect was switched on or off
+   */
+  setBusEffects(bus: MixBus): void {
+    const channel = this.busChannels.get(bus.id);
+    if (channel && !channel.effects.update(bus.effects)) {
+      this.invalidateAll();
+    }
+  }
+
+  /**
+   * Apply a track's effects settings to its live chain, rebuilding the chain
+   * when an effect was switched on or off
+   */
+  setTrackEffects(track: AudioTrack): void {
+    const channel = this.trackChannels.get(track.id);
+    if (channel && !channel.effects.update(track.effects)) {
+      this.invalidateTrack(track.id);
+    } else {
+      this.setTrackAutomation(track);
+    }
+  }
+
+  /**
+   * Reschedule a track's automation on its live channel from the playhead
+   */
+  setTrackAutomation(track: AudioTrack): void {
+    const channel = this.trackChannels.get(track.id);
+    if (channel) {
+      this.applyAutomation(channel, track);
+    }
+  }
+
+  /**
+   * Drop a clip's queued source so the scheduler re-queues it from the playhead,
+   * e.g. after it was moved, trimmed or removed
+   */
+  invalidateClip(clipId: string): void {
+    this.unscheduleClip(clipId);
+    if (this.isRunning()) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Rebuild a track's channel and re-queue its clips from the playhead,
+   * e.g. after it was muted or removed
+   */
+  invalidateTrack(trackId: string): void {
+    new Set(this.segments.flatMap(segment =>
+      Array.from(segment.queuedClips)
+        .filter(([, queuedTrackId]) => queuedTrackId === trackId)
+        .map(([clipId]) => clipId)
+    )).forEach(clipId => this.unscheduleClip(clipId));
+
+    const channel = this.trackChannels.get(trackId);
+    if (channel) {
+      this.audioService.disconnectTrackChannel(channel);
+      this.trackChannels.delete(trackId);
+    }
+
+    if (this.isRunning()) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Re-queue every clip from the playhead, e.g. after solo state changed, an undo
+   * or a change to the loop region
+   */
+  invalidateAll(): void {
+    this.stopSources();
+
+    // Channels are rebuilt on demand so they pick up the current track, bus and routing settings
+    this.disconnectChannels();
+
+    if (this.isRunning()) {
+      // Drop passes queued ahead and let the current one wrap wherever the loop now ends
+      const segment = this.getSegmentAt(this.audioService.getCurrentTime());
+      this.segments = [{ ...segment, timelineEnd: this.getLoopEnd(this.getPosition()), queuedClips: new Map() }];
+      this.schedule();
+    }
+  }
+
+  /**
+   * Queue every audible clip that starts, or is already playing, within the look-ahead window
+   * in each pass not yet finished, and the next loop pass once the window reaches the loop end
+   */
+  private schedule(): void {
+    if (!this.timeline) {
+      return;
+    }
+
+    const now = this.audioService.getCurrentTime();
+    const windowEnd = now + LOOKAHEAD_SECONDS;
+
+    // Forget passes that have finished playing
+    this.segments = this.segments.filter(
+      (segment, index) => index === this.segments.length - 1 || this.segments[index + 1].contextStart > now
+    );
+    this.queueClips(now, windowEnd);
+
+    let segment = this.getLatestSegment();
+    let wrapsAt = segment.contextStart + (segment.timelineEnd - segment.timelineStart);
+    const loop = this.timeline.getActiveLoop();
+    while (loop && wrapsAt <= windowEnd) {
+      segment = { contextStart: wrapsAt, timelineStart: loop.start, timelineEnd: loop.end, queuedClips: new Map() };
+      this.segments.push(segment);
+      this.trackChannels.forEach((channel, trackId) => {
+        const track = this.timeline?.getTrack(trackId);
+        if (track) {
+          this.applyAutomation(channel, track);
+        }
+      });
+
+      this.queueClips(now, windowEnd);
+      wrapsAt = segment.contextStart + (loop.end - loop.start);
+    }
+
+    this.queueClicks(now, windowEnd);
+  }
+
+  /**
+   * Queue the metronome clicks within a window of the audio clock: the count-in beats
+   * before playback starts, then while the metronome is on every beat of each pass
+   */
+  private queueClicks(now: number, windowEnd: number): void {
+    const timeline = this.timeline;
+    const from = Math.max(now, this.clickedUntil);
+    if (!timeline || from >= windowEnd) {
+      return;
+    }
+    this.clickedUntil = windowEnd;
+
+    const beatDuration = timeline.getBeatDuration();
+    const { beatsPerBar } = timeline.timeSignature;
+    const { isEnabled, volume } = timeline.metronome;
+
+    // Count-in beats are counted from the start of the count-in, so it opens on an accent
+    const countInEnd = Math.min(windowEnd, this.segments[0].contextStart);
+    getBeatsInRange(from - this.countInStart, countInEnd - this.countInStart, beatDuration, beatsPerBar)
+      .forEach(beat => this.queueClick(this.countInStart + beat.time, beat.isAccent, volume));
+
+    if (!isEnabled) {
+      return;
+    }
+
+    this.segments.forEach((segment, index) => {
+      const next = this.segments[index + 1];
+      const segmentEnd = next?.contextStart ?? segment.contextStart + (segment.timelineEnd - segment.timelineStart);
+      const offset = segment.contextStart - segment.timelineStart; // Timeline time -> context time
+      const start = Math.max(from, segment.contextStart);
+      const end = Math.min(windowEnd, segmentEnd);
+      if (start < end) {
+        getBeatsInRange(start - offset, end - offset, beatDuration, beatsPerBar)
+          .forEach(beat => this.queueClick(beat.time + offset, beat.isAccent, volume));
+      }
+    });
+  }
+
+  /**
+   * Queue one click into the speakers, remembered until it has played so stop() can cut it
+   */
+  private queueClick(time: number, isAccent: boolean, volume: number): void {
+    const context = this.audioService.getContext();
+    const click = scheduleClick(context, context.destination, time, isAccent, volume);
+    this.scheduledClicks.add(click);
+    click.onended = () => this.scheduledClicks.delete(click);
+  }
+
+  /**
+   * Queue the clips of every pass that fall within a window of the audio clock and have
+   * not been queued in that pass yet
+   */
+  private queueClips(now: number, windowEnd: number): void {
+    this.segments.forEach(segment => this.queueSegmentClips(segment, now, windowEnd));
+  }
+
+  /**
+   * Queue the clips of one pass that fall within a window of the audio clock
+   */
+  private queueSegmentClips(segment: PlaybackSegment, now: number, windowEnd: number): void {
+    const timeline = this.timeline;
+    if (!timeline) {
+      return;
+    }
+
+    const earliest = segment.timelineStart + Math.max(0, now - segment.contextStart);
+    // Never queue in the past: a clip picked up mid-playback starts just ahead of the clock
+    const earliestSchedulable = Math.max(
+      earliest,
+      segment.timelineStart + (now + START_LATENCY_SECONDS - segment.contextStart)
+    );
+    const latest = Math.min(
+      segment.timelineEnd,
+      segment.timelineStart + (windowEnd - segment.contextStart)
+    );
+
+    timeline.tracks
+      .filter(track => timeline.isTrackAudible(track))
+      .forEach(track => {
+        track.clips.forEach(clip => {
+          if (segment.queuedClips.has(clip.id) || !clip.audioBuffer) {
+            return;
+          }
+          if (clip.startTime >= latest || clip.getEndTime() <= earliest) {
+            return;
+          }
+
+          this.scheduleClip(segment, track, clip, Math.max(clip.startTime, earliestSchedulable));
+        });
+      });
+  }
+
+  /**
+   * Queue a single clip to start playing at a timeline position in a pass,
+   * cut where that pass wraps around
+   */
+  private scheduleClip(segment: PlaybackSegment, track: AudioTrack, clip: AudioClip, timelineTime: number): void {
+    const clipOffset = timelineTime - clip.startTime;
+    const until = segment.timelineEnd;
+    segment.queuedClips.set(clip.id, track.id);
+
+    if (clipOffset >= clip.duration || timelineTime >= until) {
+      return;
+    }
+
+    const source = this.audioService.startClip(
+      this.audioService.getContext(),
+      clip,
+      this.getTrackChannel(track).input,
+      timelineTime,
+      segment.contextStart + (timelineTime - segment.timelineStart),
+      until
+    );
+    this.scheduledSources.set(source, clip.id);
+
+    source.addEventListener('ended', () => this.scheduledSources.delete(source));
+  }
+
+  /**
+   * Effects chain and fader shared by all of a track's clips, created on first use
+   */
+  private getTrackChannel(track: AudioTrack): TrackChannel {
+    let channel = this.trackChannels.get(track.id);
+    if (!channel) {
+      channel = this.audioService.createTrackChannel(
+        this.audioService.getContext(),
+        track,
+        this.audioService.getMasterInput(),
+        busId => this.getBusInput(busId)
+      );
+      this.applyAutomation(channel, track);
+      channel.panner.connect(this.audioService.getChannelMeter(track.id).input);
+      this.trackChannels.set(track.id, channel);
+    }
+    return channel;
+  }
+
+  /**
+   * Input of a bus's channel, created on first use
+   */
+  private getBusInput(busId: string): AudioNode | undefined {
+    const bus = this.timeline?.getBus(busId);
+    if (!bus) {
+      return undefined;
+    }
+
+    let channel = this.busChannels.get(bus.id);
+    if (!channel) {
+      channel = this.audioService.createBusChannel(
+        this.audioService.getContext(),
+        bus,
+        this.audioService.getMasterInput()
+      );
+      channel.fader.connect(this.audioService.getChannelMeter(bus.id).input);
+      this.busChannels.set(bus.id, channel);
+    }
+    return channel.input;
+  }
+
+  /**
+   * Tear down every track and bus channel
+   */
+  private disconnectChannels(): void {
+    this.trackChannels.forEach(channel => this.audioService.disconnectTrackChannel(channel));
+    this.trackChannels.clear();
+    this.busChannels.forEach(channel => this.audioService.disconnectBusChannel(channel));
+    this.busChannels.clear();
+  }
+
+  /**
+   * Schedule a channel's automation from the playhead, or from the start of the latest
+   * pass when it is queued ahead
+   */
+  private applyAutomation(channel: TrackChannel, track: AudioTrack): void {
+    const segment = this.getLatestSegment();
+    const elapsed = Math.max(0, this.audioService.getCurrentTime() - segment.contextStart);
+    const position = segment.timelineStart + elapsed;
+    this.audioService.applyAutomation(channel, track, position, this.getContextTime(position));
+  }
+
+  /**
+   * Pass playing at an AudioContext time
+   */
+  private getSegmentAt(contextTime: number): PlaybackSegment {
+    const started = this.segments.filter(segment => segment.contextStart <= contextTime);
+    return started[started.length - 1] ?? this.segments[0];
+  }
+
+  /**
+   * Pass the scheduler is queueing into, which may start after the one playing now
+   */
+  private getLatestSegment(): PlaybackSegment {
+    return this.segments[this.segments.length - 1];
+  }
+
+  /**
+   * Where playback from a position wraps around: the loop end while looping,
+   * unless the position is already past it
+   */
+  private getLoopEnd(position: number): number {
+    const loop = this.timeline?.getActiveLoop();
+    return loop && position < loop.end ? loop.end : Infinity;
+  }
+
+  /**
+   * Stop a clip's sources and forget that it was queued
+   */
+  private unscheduleClip(clipId: string): void {
+    this.scheduledSources.forEach((scheduledClipId, source) => {
+      if (scheduledClipId === clipId) {
+        this.stopSource(source, clipId);
+        this.scheduledSources.delete(source);
+      }
+    });
+    this.segments.forEach(segment => segment.queuedClips.delete(clipId));
+  }
+
+  /**
+   * Stop every queued source
+   */
+  private stopSources(): void {
+    this.scheduledSources.forEach((clipId, source) => this.stopSource(source, clipId));
+    this.scheduledSources.clear();
+    this.segments.forEach(segment => segment.queuedClips.clear());
+  }
+
+  /**
+   * Stop a source, tolerating ones that already finished
+   */
+  private stopSource(source: AudioBufferSourceNode, clipId: string): void {
+    try {
+      source.stop();
+    } catch (error) {
+      // Source may have already stopped
+      console.warn(`Could not stop source for clip ${clipId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { AudioClip } from '../models';
+import { findAlignment } from './alignment';
+
+describe('findAlignment', () => {
+  const sampleRate = 22050;
+
+  /** Short bursts at irregular times, so only one offset lines them all up */
+  function createHits(times: number[], seconds: number): AudioBuffer {
+    const buffer = new AudioBuffer({ length: sampleRate * seconds, numberOfChannels: 1, sampleRate });
+    const data = buffer.getChannelData(0);
+
+    times.forEach(time => {
+      const start = Math.round(time * sampleRate);
+      for (let i = 0; i < 1000 && start + i < data.length; i++) {
+        data[start + i] += Math.exp(-i / 150) * Math.sin((2 * Math.PI * 3000 * i) / sampleRate);
+      }
+    });
+
+    return buffer;
+  }
+
+  function createClip(buffer: AudioBuffer, startTime: number): AudioClip {
+    const clip = new AudioClip(new File([], 'hits.wav'));
+    clip.setAudioBuffer(buffer);
+    clip.setStartTime(startTime);
+    return clip;
+  }
+
+  const hitTimes = [0.5, 1.1, 1.4, 2.3, 2.6, 3.5, 4.2, 4.4, 5.3, 6.1, 6.8, 7.2];
+
+  it('should line up a copy of the same audio with the reference', () => {
+    const buffer = createHits(hitTimes, 8);
+
+    const estimate = findAlignment([createClip(buffer, 2)], [createClip(buffer, 7)])!;
+
+    expect(estimate.startTime).toBeCloseTo(2, 2);
+    expect(estimate.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('should account for silence before the first hit', () => {
+    const reference = createHits(hitTimes, 8);
+    const target = createHits(hitTimes.map(time => time + 0.75), 9);
+
+    const estimate = findAlignment([createClip(reference, 3)], [createClip(target, 0)])!;
+
+    expect(estimate.startTime).toBeCloseTo(2.25, 2);
+  });
+
+  it('should follow a trimmed clip', () => {
+    const buffer = createHits(hitTimes, 8);
+    const trimmed = createClip(buffer, 0);
+    trimmed.trimStart(1);
+
+    const estimate = findAlignment([createClip(buffer, 2)], [trimmed])!;
+
+    expect(estimate.startTime).toBeCloseTo(3, 2);
+  });
+
+  it('should be less confident about unrelated material', () => {
+    const reference = createHits(hitTimes, 8);
+    const other = createHits([0.3, 0.9, 2.0, 2.2, 3.9, 4.8, 5.0, 6.4], 8);
+
+    const estimate = findAlignment([createClip(reference, 0)], [createClip(other, 0)])!;
+
+    expect(estimate.confidence).toBeLessThan(0.6);
+  });
+
+  it('should not guess for silent tracks', () => {
+    const silence = new AudioBuffer({ length: sampleRate * 4, numberOfChannels: 1, sampleRate });
+
+    expect(findAlignment([createClip(silence, 0)], [createClip(createHits(hitTimes, 8), 0)])).toBeNull();
+    expect(findAlignment([], [createClip(silence, 0)])).toBeNull();
+  });
+});
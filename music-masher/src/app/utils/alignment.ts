@@ -0,0 +1,188 @@
+import { fft } from './fft';
+import { getDecimationFactor } from './signal';
+import { computeOnsetEnvelope } from './tempo-detection';
+
+/** Rate tracks are mixed down to before analysis; onsets need little bandwidth */
+const ANALYSIS_RATE = 11025;
+/** Only the opening of each track is compared */
+const MAX_ANALYSIS_SECONDS = 120;
+
+/**
+ * Audio heard over a stretch of the timeline, such as a clip
+ */
+export interface TimelineAudio {
+  audioBuffer: AudioBuffer | null;
+  startTime: number;
+  duration: number; // Timeline seconds
+  getSourceTime(timelineTime: number): number; // Position within audioBuffer heard at a timeline time
+}
+
+export interface AlignmentEstimate {
+  startTime: number; // Where the aligned track should start on the timeline
+  confidence: number; // 0 to 1: how closely the onsets match there
+}
+
+/**
+ * Find where to start a track so its onsets line up with a reference track's.
+ *
+ * Both tracks are mixed to mono as they play on the timeline (trims and stretches included),
+ * from their own first clip, and reduced to onset envelopes. The start is the peak of the
+ * envelopes' cross-correlation, refined between frames, among starts at or after time 0.
+ * The confidence is the normalised correlation at that start over the part where both play.
+ * Returns null when either track has nothing to line up.
+ */
+export function findAlignment(reference: TimelineAudio[], target: TimelineAudio[]): AlignmentEstimate | null {
+  const referenceStart = getStartTime(reference);
+  const targetStart = getStartTime(target);
+  if (referenceStart === null || targetStart === null) {
+    return null;
+  }
+
+  const referenceEnvelope = computeOnsetEnvelope(mixTimelineToMono(reference, referenceStart), ANALYSIS_RATE);
+  const targetEnvelope = computeOnsetEnvelope(mixTimelineToMono(target, targetStart), ANALYSIS_RATE);
+  const { frameRate } = referenceEnvelope;
+  if (!hasOnsets(referenceEnvelope.full) || !hasOnsets(targetEnvelope.full)) {
+    return null;
+  }
+
+  // Entry lag + zeroLag holds the correlation with the target moved lag frames after the reference start
+  const correlation = crossCorrelate(referenceEnvelope.full, targetEnvelope.full);
+  const zeroLag = targetEnvelope.full.length - 1;
+  const minLag = Math.max(-zeroLag, Math.ceil(-referenceStart * frameRate));
+
+  let bestLag = minLag;
+  for (let lag = minLag; lag < referenceEnvelope.full.length; lag++) {
+    if (correlation[zeroLag + lag] > correlation[zeroLag + bestLag]) {
+      bestLag = lag;
+    }
+  }
+  if (!(correlation[zeroLag + bestLag] > 0)) {
+    return null; // No start in reach overlaps any onsets
+  }
+
+  const lag = bestLag + getPeakOffset(correlation, zeroLag + bestLag);
+  return {
+    startTime: Math.max(0, referenceStart + lag / frameRate),
+    confidence: getSimilarity(referenceEnvelope.full, targetEnvelope.full, bestLag)
+  };
+}
+
+/**
+ * Start of the earliest clip with audio, or null if there is none
+ */
+function getStartTime(clips: TimelineAudio[]): number | null {
+  const starts = clips.filter(clip => clip.audioBuffer).map(clip => clip.startTime);
+  return starts.length > 0 ? Math.min(...starts) : null;
+}
+
+function hasOnsets(envelope: Float32Array): boolean {
+  return envelope.some(value => value > 0);
+}
+
+/**
+ * Mix clips as they play from a timeline time into one signal at the analysis rate.
+ * Each output sample averages the block of source samples it starts, a cheap low-pass
+ * in the style of mixToMono() in signal.ts.
+ */
+function mixTimelineToMono(clips: TimelineAudio[], start: number): Float32Array {
+  const end = Math.min(
+    start + MAX_ANALYSIS_SECONDS,
+    Math.max(...clips.map(clip => clip.startTime + clip.duration))
+  );
+  const output = new Float32Array(Math.max(0, Math.ceil((end - start) * ANALYSIS_RATE)));
+
+  clips.forEach(clip => {
+    const buffer = clip.audioBuffer;
+    if (!buffer) {
+      return;
+    }
+
+    const step = getDecimationFactor(buffer.sampleRate, ANALYSIS_RATE);
+    const scale = 1 / (step * buffer.numberOfChannels);
+    const first = Math.max(0, Math.ceil((clip.startTime - start) * ANALYSIS_RATE));
+    const last = Math.min(output.length, Math.ceil((clip.startTime + clip.duration - start) * ANALYSIS_RATE));
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = first; i < last; i++) {
+        const from = Math.floor(clip.getSourceTime(start + i / ANALYSIS_RATE) * buffer.sampleRate);
+        let sum = 0;
+        for (let j = Math.max(0, from); j < Math.min(data.length, from + step); j++) {
+          sum += data[j];
+        }
+        output[i] += sum * scale;
+      }
+    }
+  });
+
+  return output;
+}
+
+/**
+ * Cross-correlation of two signals at every lag, through the FFT.
+ * Entry lag + target.length - 1 is the sum of target[m] × reference[m + lag].
+ */
+function crossCorrelate(reference: Float32Array, target: Float32Array): Float32Array {
+  let size = 1;
+  while (size < reference.length + target.length - 1) {
+    size <<= 1;
+  }
+
+  const referenceReal = new Float32Array(size);
+  const referenceImag = new Float32Array(size);
+  const targetReal = new Float32Array(size);
+  const targetImag = new Float32Array(size);
+  referenceReal.set(reference);
+  targetReal.set(target);
+  fft(referenceReal, referenceImag);
+  fft(targetReal, targetImag);
+
+  // Reference spectrum times the conjugate of the target's
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+  for (let k = 0; k < size; k++) {
+    real[k] = referenceReal[k] * targetReal[k] + referenceImag[k] * targetImag[k];
+    imag[k] = referenceImag[k] * targetReal[k] - referenceReal[k] * targetImag[k];
+  }
+  fft(real, imag, true);
+
+  // Negative lags wrap round to the end
+  const correlation = new Float32Array(reference.length + target.length - 1);
+  for (let lag = 1 - target.length; lag < reference.length; lag++) {
+    correlation[lag + target.length - 1] = real[(lag + size) % size];
+  }
+  return correlation;
+}
+
+/**
+ * Fraction of a step to a peak's true position, from a parabola through it and its neighbours
+ */
+function getPeakOffset(values: Float32Array, index: number): number {
+  if (index <= 0 || index >= values.length - 1) {
+    return 0;
+  }
+
+  const before = values[index - 1];
+  const peak = values[index];
+  const after = values[index + 1];
+  const curvature = before - 2 * peak + after;
+  return curvature < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (before - after)) / curvature)) : 0;
+}
+
+/**
+ * Normalised correlation of two envelopes at a lag, over the frames where both play
+ */
+function getSimilarity(reference: Float32Array, target: Float32Array, lag: number): number {
+  let product = 0;
+  let referenceEnergy = 0;
+  let targetEnergy = 0;
+
+  for (let m = Math.max(0, -lag); m < target.length && m + lag < reference.length; m++) {
+    product += target[m] * reference[m + lag];
+    referenceEnergy += reference[m + lag] ** 2;
+    targetEnergy += target[m] ** 2;
+  }
+
+  const energy = Math.sqrt(referenceEnergy * targetEnergy);
+  return energy > 0 ? Math.max(0, Math.min(1, product / energy)) : 0;
+}
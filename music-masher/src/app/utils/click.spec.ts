@@ -0,0 +1,19 @@
+import { getBeatsInRange } from './click';
+
+describe('getBeatsInRange', () => {
+  it('should accent the first beat of every bar', () => {
+    const beats = getBeatsInRange(0, 2, 0.5, 3);
+
+    expect(beats.map(beat => beat.time)).toEqual([0, 0.5, 1, 1.5]);
+    expect(beats.map(beat => beat.isAccent)).toEqual([true, false, false, true]);
+  });
+
+  it('should include a beat on the start and leave out one on the end', () => {
+    expect(getBeatsInRange(1, 2, 0.5, 4).map(beat => beat.time)).toEqual([1, 1.5]);
+    expect(getBeatsInRange(0.1 + 0.2, 0.9, 0.3, 4).map(beat => beat.time)).toEqual([0.3, 0.6]);
+  });
+
+  it('should be empty for an empty range', () => {
+    expect(getBeatsInRange(2, 2, 0.5, 4)).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+/** Pitch of an accented click (the first beat of a bar) and of the other beats, in Hz */
+const ACCENT_FREQUENCY = 1500;
+const BEAT_FREQUENCY = 1000;
+const CLICK_DURATION = 0.05;
+/** Slack for beats that land on a range edge through rounding */
+const BEAT_EPSILON = 1e-6;
+
+/**
+ * A beat of the metronome, at a time counted from the first beat of bar one
+ */
+export interface Beat {
+  time: number;
+  isAccent: boolean; // First beat of a bar
+}
+
+/**
+ * Every beat from start (inclusive) to end (exclusive), with bars counted from time 0
+ */
+export function getBeatsInRange(
+  start: number,
+  end: number,
+  beatDuration: number,
+  beatsPerBar: number
+): Beat[] {
+  const beats: Beat[] = [];
+  let index = Math.max(0, Math.ceil(start / beatDuration - BEAT_EPSILON));
+  while (index * beatDuration < end - BEAT_EPSILON) {
+    beats.push({ time: index * beatDuration, isAccent: index % beatsPerBar === 0 });
+    index++;
+  }
+  return beats;
+}
+
+/**
+ * Schedule one short metronome click on the context clock.
+ * Returns its oscillator so a click queued ahead can be cancelled.
+ */
+export function scheduleClick(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  time: number,
+  isAccent: boolean,
+  volume = 1
+): OscillatorNode {
+  const oscillator = context.createOscillator();
+  oscillator.frequency.value = isAccent ? ACCENT_FREQUENCY : BEAT_FREQUENCY;
+
+  // A fast exponential decay keeps the click short without a hard edge
+  const envelope = context.createGain();
+  envelope.gain.setValueAtTime(volume, time);
+  envelope.gain.exponentialRampToValueAtTime(0.001, time + CLICK_DURATION);
+
+  oscillator.connect(envelope).connect(destination);
+  oscillator.start(time);
+  oscillator.stop(time + CLICK_DURATION);
+  return oscillator;
+}
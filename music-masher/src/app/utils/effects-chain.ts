@@ -0,0 +1,215 @@
+import { EffectType, TrackEffects } from '../models/track-effects.model';
+
+const EQ_LOW_FREQUENCY = 250;
+const EQ_MID_FREQUENCY = 1000;
+const EQ_HIGH_FREQUENCY = 4000;
+const COMPRESSOR_KNEE = 6;
+const MAX_DELAY_SECONDS = 2;
+const MAX_FEEDBACK = 0.9;
+/** Level reached by the generated reverb impulse at its decay time, i.e. an RT60 */
+const REVERB_DECAY_DB = -60;
+
+const EFFECT_ORDER: EffectType[] = ['eq', 'filter', 'compressor', 'delay', 'reverb'];
+
+/** Impulses kept per context, e.g. while dragging a decay slider */
+const MAX_CACHED_IMPULSES = 4;
+
+/** Generated impulses, shared by every chain of a context */
+const impulseCache = new WeakMap<BaseAudioContext, Map<number, AudioBuffer>>();
+
+/**
+ * A track's insert effects as a Web Audio graph between an input and an output node.
+ *
+ * Only enabled effects are wired in. Parameter changes are applied to the live nodes;
+ * enabling or disabling an effect changes the wiring, so the chain has to be rebuilt.
+ */
+export class EffectsChain {
+  readonly input: GainNode;
+  private nodes: AudioNode[] = [];
+  private enabled: EffectType[];
+  private eq?: { low: BiquadFilterNode; mid: BiquadFilterNode; high: BiquadFilterNode };
+  private filter?: BiquadFilterNode;
+  private compressor?: DynamicsCompressorNode;
+  private delay?: { node: DelayNode; feedback: GainNode; dry: GainNode; wet: GainNode };
+  private reverb?: { node: ConvolverNode; dry: GainNode; wet: GainNode };
+
+  constructor(private context: BaseAudioContext, effects: TrackEffects, output: AudioNode) {
+    this.input = context.createGain();
+    this.enabled = EFFECT_ORDER.filter(type => effects[type].enabled);
+
+    let tail: AudioNode = this.input;
+    this.enabled.forEach(type => {
+      tail = this.createStage(type, tail);
+    });
+    tail.connect(output);
+
+    this.update(effects);
+  }
+
+  /**
+   * Apply new settings to the live nodes.
+   * Returns false, changing nothing, if the set of enabled effects differs and the chain must be rebuilt.
+   */
+  update(effects: TrackEffects): boolean {
+    const enabled = EFFECT_ORDER.filter(type => effects[type].enabled);
+    if (enabled.join() !== this.enabled.join()) {
+      return false;
+    }
+
+    const now = this.context.currentTime;
+    if (this.eq) {
+      this.eq.low.gain.setValueAtTime(effects.eq.low, now);
+      this.eq.mid.gain.setValueAtTime(effects.eq.mid, now);
+      this.eq.high.gain.setValueAtTime(effects.eq.high, now);
+    }
+    if (this.filter) {
+      this.filter.type = effects.filter.type;
+      this.filter.frequency.setValueAtTime(effects.filter.frequency, now);
+      this.filter.Q.setValueAtTime(effects.filter.resonance, now);
+    }
+    if (this.compressor) {
+      this.compressor.threshold.setValueAtTime(effects.compressor.threshold, now);
+      this.compressor.ratio.setValueAtTime(effects.compressor.ratio, now);
+      this.compressor.attack.setValueAtTime(effects.compressor.attack, now);
+      this.compressor.release.setValueAtTime(effects.compressor.release, now);
+    }
+    if (this.delay) {
+      this.delay.node.delayTime.setValueAtTime(Math.min(effects.delay.time, MAX_DELAY_SECONDS), now);
+      this.delay.feedback.gain.setValueAtTime(Math.min(effects.delay.feedback, MAX_FEEDBACK), now);
+      this.delay.dry.gain.setValueAtTime(1 - effects.delay.mix, now);
+      this.delay.wet.gain.setValueAtTime(effects.delay.mix, now);
+    }
+    if (this.reverb) {
+      const impulse = getImpulseResponse(this.context, effects.reverb.decay);
+      if (this.reverb.node.buffer !== impulse) {
+        this.reverb.node.buffer = impulse;
+      }
+      this.reverb.dry.gain.setValueAtTime(1 - effects.reverb.mix, now);
+      this.reverb.wet.gain.setValueAtTime(effects.reverb.mix, now);
+    }
+
+    return true;
+  }
+
+  /**
+   * Cutoff of the filter, when it is switched on
+   */
+  getFilterFrequency(): AudioParam | undefined {
+    return this.filter?.frequency;
+  }
+
+  /**
+   * Disconnect every node of the chain, cutting off any delay or reverb tail
+   */
+  disconnect(): void {
+    this.input.disconnect();
+    this.nodes.forEach(node => node.disconnect());
+  }
+
+  /**
+   * Create one effect fed by a node, returning the node that carries its output
+   */
+  private createStage(type: EffectType, source: AudioNode): AudioNode {
+    switch (type) {
+      case 'eq': {
+        const low = this.createBiquad('lowshelf', EQ_LOW_FREQUENCY);
+        const mid = this.createBiquad('peaking', EQ_MID_FREQUENCY);
+        const high = this.createBiquad('highshelf', EQ_HIGH_FREQUENCY);
+        source.connect(low).connect(mid).connect(high);
+        this.eq = { low, mid, high };
+        return high;
+      }
+      case 'filter': {
+        this.filter = this.createBiquad('lowpass', 0);
+        source.connect(this.filter);
+        return this.filter;
+      }
+      case 'compressor': {
+        this.compressor = this.own(this.context.createDynamicsCompressor());
+        this.compressor.knee.value = COMPRESSOR_KNEE;
+        source.connect(this.compressor);
+        return this.compressor;
+      }
+      case 'delay': {
+        const node = this.own(this.context.createDelay(MAX_DELAY_SECONDS));
+        const feedback = this.own(this.context.createGain());
+        const { dry, wet, output } = this.createWetDry(source, node);
+        node.connect(feedback).connect(node);
+        node.connect(wet);
+        this.delay = { node, feedback, dry, wet };
+        return output;
+      }
+      case 'reverb': {
+        const node = this.own(this.context.createConvolver());
+        const { dry, wet, output } = this.createWetDry(source, node);
+        node.connect(wet);
+        this.reverb = { node, dry, wet };
+        return output;
+      }
+    }
+  }
+
+  /**
+   * Split a source into a dry path and an effect, summed into a shared output.
+   * The caller routes the effect's output into the wet gain.
+   */
+  private createWetDry(
+    source: AudioNode,
+    effect: AudioNode
+  ): { dry: GainNode; wet: GainNode; output: GainNode } {
+    const dry = this.own(this.context.createGain());
+    const wet = this.own(this.context.createGain());
+    const output = this.own(this.context.createGain());
+
+    source.connect(dry).connect(output);
+    source.connect(effect);
+    wet.connect(output);
+    return { dry, wet, output };
+  }
+
+  private createBiquad(type: BiquadFilterType, frequency: number): BiquadFilterNode {
+    const filter = this.own(this.context.createBiquadFilter());
+    filter.type = type;
+    filter.frequency.value = frequency;
+    return filter;
+  }
+
+  private own<T extends AudioNode>(node: T): T {
+    this.nodes.push(node);
+    return node;
+  }
+}
+
+/**
+ * Get (generating on first use) a stereo reverb impulse for a context: decaying noise,
+ * independent per channel for width
+ */
+export function getImpulseResponse(context: BaseAudioContext, decay: number): AudioBuffer {
+  let impulses = impulseCache.get(context);
+  if (!impulses) {
+    impulses = new Map();
+    impulseCache.set(context, impulses);
+  }
+
+  let impulse = impulses.get(decay);
+  if (!impulse) {
+    const length = Math.max(1, Math.round(decay * context.sampleRate));
+    impulse = context.createBuffer(2, length, context.sampleRate);
+    const falloff = Math.log(Math.pow(10, REVERB_DECAY_DB / 20)) / length;
+
+    for (let channel = 0; channel < impulse.numberOfChannels; channel++) {
+      const data = impulse.getChannelData(channel);
+      for (let i = 0; i < length; i++) {
+        data[i] = (Math.random() * 2 - 1) * Math.exp(falloff * i);
+      }
+    }
+    impulses.set(decay, impulse);
+
+    // Map iteration follows insertion order, so the first key is the oldest
+    if (impulses.size > MAX_CACHED_IMPULSES) {
+      impulses.delete(impulses.keys().next().value!);
+    }
+  }
+
+  return impulse;
+}
@@ -0,0 +1,18 @@
+import { FADE_CURVES, getFadeGain } from './fades';
+
+describe('getFadeGain', () => {
+  it('should run every curve from silence to full level', () => {
+    FADE_CURVES.forEach(curve => {
+      expect(getFadeGain(curve, 0)).toBeCloseTo(0);
+      expect(getFadeGain(curve, 1)).toBeCloseTo(1);
+    });
+  });
+
+  it('should keep an equal-power crossfade at constant power', () => {
+    [0.1, 0.25, 0.5, 0.9].forEach(progress => {
+      const fadingIn = getFadeGain('equal-power', progress);
+      const fadingOut = getFadeGain('equal-power', 1 - progress);
+      expect(fadingIn * fadingIn + fadingOut * fadingOut).toBeCloseTo(1);
+    });
+  });
+});
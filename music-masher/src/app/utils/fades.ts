@@ -0,0 +1,32 @@
+export type FadeCurve = 'linear' | 'equal-power' | 'exponential';
+
+export const FADE_CURVES: FadeCurve[] = ['linear', 'equal-power', 'exponential'];
+
+/** Steepness of the exponential curve; higher stays quieter for longer */
+const EXPONENTIAL_STEEPNESS = 4;
+
+/**
+ * Gain of a fade-in at a point of its length, from 0 at the start to 1 at the end.
+ * A fade-out uses the same curve mirrored in time.
+ *
+ * Equal-power curves sum to constant power when a fade-out and a fade-in overlap,
+ * so crossfades between uncorrelated material don't dip in the middle.
+ */
+export function getFadeGain(curve: FadeCurve, progress: number): number {
+  const x = Math.max(0, Math.min(1, progress));
+  switch (curve) {
+    case 'linear':
+      return x;
+    case 'equal-power':
+      return Math.sin((x * Math.PI) / 2);
+    case 'exponential':
+      return (Math.exp(EXPONENTIAL_STEEPNESS * x) - 1) / (Math.exp(EXPONENTIAL_STEEPNESS) - 1);
+  }
+}
+
+/**
+ * Next curve in the list, for cycling through them
+ */
+export function getNextFadeCurve(curve: FadeCurve): FadeCurve {
+  return FADE_CURVES[(FADE_CURVES.indexOf(curve) + 1) % FADE_CURVES.length];
+}
@@ -0,0 +1,35 @@
+import { createHannWindow, fft } from './fft';
+
+describe('fft', () => {
+  it('should put a pure tone in its bin', () => {
+    const size = 64;
+    const real = new Float32Array(size);
+    const imag = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      real[i] = Math.cos((2 * Math.PI * 5 * i) / size);
+    }
+
+    fft(real, imag);
+
+    expect(Math.hypot(real[5], imag[5])).toBeCloseTo(size / 2, 3);
+    expect(Math.hypot(real[6], imag[6])).toBeCloseTo(0, 3);
+  });
+
+  it('should round-trip through the inverse transform', () => {
+    const original = Float32Array.from({ length: 32 }, (_, i) => Math.sin(i) * 0.5);
+    const real = Float32Array.from(original);
+    const imag = new Float32Array(32);
+
+    fft(real, imag);
+    fft(real, imag, true);
+
+    original.forEach((value, i) => expect(real[i]).toBeCloseTo(value, 5));
+  });
+
+  it('should build a window that rises from zero to one', () => {
+    const window = createHannWindow(8);
+
+    expect(window[0]).toBe(0);
+    expect(window[4]).toBeCloseTo(1, 6);
+  });
+});
@@ -0,0 +1,56 @@
+import { detectKey, getCamelotCode, transposeKey } from './key-detection';
+
+describe('detectKey', () => {
+  const sampleRate = 22050;
+
+  /** Two seconds of each chord, every note a sine in the fourth octave (MIDI note numbers) */
+  function createProgression(chords: number[][]): AudioBuffer {
+    const seconds = 2 * chords.length;
+    const buffer = new AudioBuffer({ length: sampleRate * seconds, numberOfChannels: 1, sampleRate });
+    const data = buffer.getChannelData(0);
+
+    chords.forEach((notes, index) => {
+      const start = index * 2 * sampleRate;
+      notes.forEach(note => {
+        const frequency = 440 * Math.pow(2, (note - 69) / 12);
+        for (let i = 0; i < 2 * sampleRate; i++) {
+          data[start + i] += 0.2 * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+        }
+      });
+    });
+
+    return buffer;
+  }
+
+  it('should find the key of a major progression', () => {
+    // C - F - G - C
+    const estimate = detectKey(createProgression([[60, 64, 67], [65, 69, 72], [67, 71, 74], [60, 64, 67]]))!;
+
+    expect(estimate.tonic).toBe(0);
+    expect(estimate.mode).toBe('major');
+  });
+
+  it('should find the key of a minor progression', () => {
+    // Am - Dm - E - Am
+    const estimate = detectKey(createProgression([[57, 60, 64], [62, 65, 69], [64, 68, 71], [57, 60, 64]]))!;
+
+    expect(estimate.tonic).toBe(9);
+    expect(estimate.mode).toBe('minor');
+  });
+
+  it('should not guess for silence', () => {
+    expect(detectKey(createProgression([[], []]))).toBeNull();
+  });
+});
+
+describe('getCamelotCode', () => {
+  it('should give relative keys the same number', () => {
+    expect(getCamelotCode({ tonic: 0, mode: 'major' })).toBe('8B');
+    expect(getCamelotCode({ tonic: 9, mode: 'minor' })).toBe('8A');
+  });
+
+  it('should step one number per fifth', () => {
+    expect(getCamelotCode({ tonic: 0, mode: 'major' })).toBe('8B');
+    expect(getCamelotCode(transposeKey({ tonic: 0, mode: 'major' }, 7))).toBe('9B');
+  });
+});
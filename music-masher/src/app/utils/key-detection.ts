@@ -0,0 +1,139 @@
+import { createHannWindow, fft } from './fft';
+import { getDecimationFactor, mixToMono } from './signal';
+
+export type KeyMode = 'major' | 'minor';
+
+export interface KeyEstimate {
+  tonic: number; // Pitch class, 0 = C
+  mode: KeyMode;
+  confidence: number; // 0 to 1
+}
+
+const ANALYSIS_RATE = 11025;
+const FRAME_SIZE = 4096;
+const HOP_SIZE = 2048;
+const MAX_ANALYSIS_SECONDS = 120;
+const MIN_FREQUENCY = 55;
+const MAX_FREQUENCY = 2000;
+
+const NOTE_NAMES = ['C', 'D♭', 'D', 'E♭', 'E', 'F', 'F♯', 'G', 'A♭', 'A', 'B♭', 'B'];
+
+/** Krumhansl-Kessler key profiles, starting from the tonic */
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+/**
+ * Estimate the key of a recording.
+ *
+ * The magnitude spectrum of every frame is folded into a 12-bin chroma vector, summed
+ * over the analysed section and correlated against the Krumhansl-Kessler profile of
+ * each of the 24 major and minor keys. Confidence is the margin of the best key over
+ * the runner-up. Returns null for silence.
+ */
+export function detectKey(buffer: AudioBuffer): KeyEstimate | null {
+  const factor = getDecimationFactor(buffer.sampleRate, ANALYSIS_RATE);
+  const sampleRate = buffer.sampleRate / factor;
+  const chroma = computeChroma(mixToMono(buffer, factor, MAX_ANALYSIS_SECONDS), sampleRate);
+
+  if (chroma.every(value => value === 0)) {
+    return null;
+  }
+
+  const scores: { tonic: number; mode: KeyMode; score: number }[] = [];
+  for (let tonic = 0; tonic < 12; tonic++) {
+    scores.push({ tonic, mode: 'major', score: correlateProfile(chroma, MAJOR_PROFILE, tonic) });
+    scores.push({ tonic, mode: 'minor', score: correlateProfile(chroma, MINOR_PROFILE, tonic) });
+  }
+  scores.sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  return {
+    tonic: best.tonic,
+    mode: best.mode,
+    confidence: Math.max(0, Math.min(1, (best.score - runnerUp.score) * 5))
+  };
+}
+
+/**
+ * Camelot wheel code of a key, e.g. "8A" for A minor; neighbouring codes mix harmonically
+ */
+export function getCamelotCode(key: Pick<KeyEstimate, 'tonic' | 'mode'>): string {
+  // Minor keys share a number with their relative major, three semitones up
+  const majorTonic = key.mode === 'major' ? key.tonic : (key.tonic + 3) % 12;
+  const number = ((majorTonic * 7 + 7) % 12) + 1;
+  return `${number}${key.mode === 'major' ? 'B' : 'A'}`;
+}
+
+/**
+ * Readable key name, e.g. "A minor"
+ */
+export function getKeyName(key: Pick<KeyEstimate, 'tonic' | 'mode'>): string {
+  return `${NOTE_NAMES[key.tonic]} ${key.mode}`;
+}
+
+/**
+ * The key a recording is heard in after shifting it by a number of semitones
+ */
+export function transposeKey<T extends Pick<KeyEstimate, 'tonic'>>(key: T, semitones: number): T {
+  return { ...key, tonic: (((key.tonic + Math.round(semitones)) % 12) + 12) % 12 };
+}
+
+/**
+ * Summed pitch-class energy over every frame
+ */
+function computeChroma(samples: Float32Array, sampleRate: number): number[] {
+  const chroma = new Array<number>(12).fill(0);
+  const window = createHannWindow(FRAME_SIZE);
+  const real = new Float32Array(FRAME_SIZE);
+  const imag = new Float32Array(FRAME_SIZE);
+
+  // Pitch class of every bin in range, -1 for bins outside it
+  const pitchClasses = Array.from({ length: FRAME_SIZE / 2 }, (_, bin) => {
+    const frequency = (bin * sampleRate) / FRAME_SIZE;
+    if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) {
+      return -1;
+    }
+    const semitonesFromA = Math.round(12 * Math.log2(frequency / 440));
+    return (((semitonesFromA + 9) % 12) + 12) % 12;
+  });
+
+  for (let offset = 0; offset + FRAME_SIZE <= samples.length; offset += HOP_SIZE) {
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      real[i] = samples[offset + i] * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    for (let bin = 0; bin < pitchClasses.length; bin++) {
+      if (pitchClasses[bin] >= 0) {
+        // Square-root compression so a few loud notes don't dominate the profile
+        chroma[pitchClasses[bin]] += Math.sqrt(Math.hypot(real[bin], imag[bin]));
+      }
+    }
+  }
+
+  return chroma;
+}
+
+/**
+ * Pearson correlation of the chroma with a key profile rotated to a tonic
+ */
+function correlateProfile(chroma: number[], profile: number[], tonic: number): number {
+  const rotated = chroma.map((_, i) => profile[(i - tonic + 12) % 12]);
+  const meanChroma = chroma.reduce((sum, value) => sum + value, 0) / 12;
+  const meanProfile = rotated.reduce((sum, value) => sum + value, 0) / 12;
+
+  let covariance = 0;
+  let varianceChroma = 0;
+  let varianceProfile = 0;
+  for (let i = 0; i < 12; i++) {
+    const a = chroma[i] - meanChroma;
+    const b = rotated[i] - meanProfile;
+    covariance += a * b;
+    varianceChroma += a * a;
+    varianceProfile += b * b;
+  }
+
+  const denominator = Math.sqrt(varianceChroma * varianceProfile);
+  return denominator > 0 ? covariance / denominator : 0;
+}
@@ -0,0 +1,26 @@
+import { getKeyCombo } from './keyboard';
+
+function press(key: string, modifiers: Partial<KeyboardEventInit> = {}): KeyboardEvent {
+  return new KeyboardEvent('keydown', { key, ...modifiers });
+}
+
+describe('getKeyCombo', () => {
+  it('should name plain keys', () => {
+    expect(getKeyCombo(press(' '))).toBe('Space');
+    expect(getKeyCombo(press('m'))).toBe('M');
+    expect(getKeyCombo(press('ArrowLeft'))).toBe('ArrowLeft');
+  });
+
+  it('should list modifiers in a fixed order and treat Cmd as Ctrl', () => {
+    expect(getKeyCombo(press('Z', { shiftKey: true, ctrlKey: true }))).toBe('Ctrl+Shift+Z');
+    expect(getKeyCombo(press('z', { metaKey: true }))).toBe('Ctrl+Z');
+  });
+
+  it('should leave Shift out of symbols typed with it', () => {
+    expect(getKeyCombo(press('+', { shiftKey: true }))).toBe('+');
+  });
+
+  it('should ignore a modifier pressed on its own', () => {
+    expect(getKeyCombo(press('Shift', { shiftKey: true }))).toBeUndefined();
+  });
+});
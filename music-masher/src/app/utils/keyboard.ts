@@ -0,0 +1,54 @@
+/**
+ * Whether keyboard input is headed for a text field, where native shortcuts apply
+ */
+export function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  if (target instanceof HTMLInputElement) {
+    return !['range', 'checkbox', 'button', 'file'].includes(target.type);
+  }
+  return target instanceof HTMLTextAreaElement || target.isContentEditable;
+}
+
+/**
+ * Whether a focused control moves with the arrow keys, so they shouldn't trigger shortcuts
+ */
+export function usesArrowKeys(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLInputElement && target.type === 'range')
+  );
+}
+
+/** Keys that only modify others and never form a shortcut on their own */
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift'];
+
+/**
+ * Shortcut written the way bindings store it, e.g. "Ctrl+Shift+Z", "Space" or "+".
+ * Cmd counts as Ctrl. Shift is left out for symbols, which already reflect it.
+ */
+export function getKeyCombo(
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+): string | undefined {
+  if (MODIFIER_KEYS.includes(event.key)) {
+    return undefined;
+  }
+
+  const isLetter = /^[a-z]$/i.test(event.key);
+  const isSymbol = event.key.length === 1 && !isLetter && event.key !== ' ';
+  const key = event.key === ' ' ? 'Space' : isLetter ? event.key.toUpperCase() : event.key;
+
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) {
+    parts.push('Ctrl');
+  }
+  if (event.altKey) {
+    parts.push('Alt');
+  }
+  if (event.shiftKey && !isSymbol) {
+    parts.push('Shift');
+  }
+  parts.push(key);
+  return parts.join('+');
+}
@@ -0,0 +1,29 @@
+import { MIN_DECIBELS, getMeterPosition, measureLevels, toDecibels } from './metering';
+
+describe('measureLevels', () => {
+  it('should read a full-scale sine at peak 1 and RMS 1/√2', () => {
+    const samples = new Float32Array(4800);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.sin((2 * Math.PI * 100 * i) / 48000);
+    }
+
+    const { peak, rms } = measureLevels(samples);
+    expect(peak).toBeCloseTo(1, 3);
+    expect(rms).toBeCloseTo(Math.SQRT1_2, 3);
+  });
+
+  it('should read silence as zero', () => {
+    expect(measureLevels(new Float32Array(128))).toEqual({ peak: 0, rms: 0 });
+    expect(measureLevels(new Float32Array(0))).toEqual({ peak: 0, rms: 0 });
+  });
+});
+
+describe('toDecibels', () => {
+  it('should map full scale to 0 dB and clamp silence to the floor', () => {
+    expect(toDecibels(1)).toBeCloseTo(0);
+    expect(toDecibels(0.5)).toBeCloseTo(-6.02, 2);
+    expect(toDecibels(0)).toBe(MIN_DECIBELS);
+    expect(getMeterPosition(0)).toBe(0);
+    expect(getMeterPosition(2)).toBe(1);
+  });
+});
@@ -0,0 +1,41 @@
+export interface LevelReading {
+  peak: number; // Highest absolute sample, linear
+  rms: number; // Root mean square, linear
+}
+
+/** Floor for decibel readings, treated as silence */
+export const MIN_DECIBELS = -60;
+
+/** Samples at or above this level are counted as clipping */
+export const CLIP_LEVEL = 1;
+
+/**
+ * Peak and RMS level of a block of samples
+ */
+export function measureLevels(samples: Float32Array): LevelReading {
+  let peak = 0;
+  let sumOfSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i];
+    peak = Math.max(peak, Math.abs(sample));
+    sumOfSquares += sample * sample;
+  }
+  return {
+    peak,
+    rms: samples.length > 0 ? Math.sqrt(sumOfSquares / samples.length) : 0
+  };
+}
+
+/**
+ * Convert a linear level to decibels, clamped to the meter floor
+ */
+export function toDecibels(level: number): number {
+  return level > 0 ? Math.max(MIN_DECIBELS, 20 * Math.log10(level)) : MIN_DECIBELS;
+}
+
+/**
+ * Position of a level on a meter from the floor to 0 dB, from 0 to 1
+ */
+export function getMeterPosition(level: number): number {
+  return Math.min(1, 1 - toDecibels(level) / MIN_DECIBELS);
+}
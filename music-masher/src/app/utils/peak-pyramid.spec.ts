@@ -0,0 +1,42 @@
+import { PeakPyramid } from './peak-pyramid';
+
+describe('PeakPyramid', () => {
+  function createBuffer(channels: number[][]): AudioBuffer {
+    const buffer = new AudioBuffer({
+      length: channels[0].length,
+      numberOfChannels: channels.length,
+      sampleRate: 8000
+    });
+    channels.forEach((data, channel) => buffer.copyToChannel(Float32Array.from(data), channel));
+    return buffer;
+  }
+
+  it('should return peaks for every channel', () => {
+    const left = new Array(1024).fill(0.5);
+    const right = new Array(1024).fill(-0.25);
+    const peaks = new PeakPyramid(createBuffer([left, right]), 16).getPeaks(0, 1024, 8);
+
+    expect(peaks.length).toBe(2);
+    expect(peaks[0].max[0]).toBe(0.5);
+    expect(peaks[1].min[7]).toBe(-0.25);
+  });
+
+  it('should keep transients when reading from a coarse level', () => {
+    const data = new Array(4096).fill(0);
+    data[3000] = 0.9;
+    data[100] = -0.8;
+    const peaks = new PeakPyramid(createBuffer([data]), 16).getPeaks(0, 4096, 4);
+
+    expect(peaks[0].min[0]).toBeCloseTo(-0.8, 5);
+    expect(peaks[0].max[2]).toBeCloseTo(0.9, 5);
+    expect(peaks[0].max[3]).toBe(0);
+  });
+
+  it('should only cover the requested sample range', () => {
+    const data = new Array(2048).fill(0);
+    data[10] = 1;
+    const peaks = new PeakPyramid(createBuffer([data]), 16).getPeaks(1024, 2048, 16);
+
+    expect(Math.max(...peaks[0].max)).toBe(0);
+  });
+});
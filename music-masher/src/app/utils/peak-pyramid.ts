@@ -0,0 +1,144 @@
+export interface ChannelPeaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+interface PeakLevel {
+  samplesPerPeak: number;
+  channels: ChannelPeaks[];
+}
+
+const BASE_SAMPLES_PER_PEAK = 256;
+const MIN_LEVEL_LENGTH = 64;
+
+/**
+ * Min/max peaks of an audio buffer at successively halved resolutions.
+ *
+ * Drawing at any zoom reads from the coarsest level that still has at least one
+ * peak per pixel, so redraws cost roughly the pixel width instead of the sample count.
+ */
+export class PeakPyramid {
+  readonly sampleRate: number;
+  readonly length: number;
+  readonly numberOfChannels: number;
+  private levels: PeakLevel[] = [];
+
+  constructor(buffer: AudioBuffer, baseSamplesPerPeak: number = BASE_SAMPLES_PER_PEAK) {
+    this.sampleRate = buffer.sampleRate;
+    this.length = buffer.length;
+    this.numberOfChannels = buffer.numberOfChannels;
+
+    let level = this.buildBaseLevel(buffer, baseSamplesPerPeak);
+    this.levels.push(level);
+
+    while (level.channels[0].min.length > MIN_LEVEL_LENGTH) {
+      level = this.halve(level);
+      this.levels.push(level);
+    }
+  }
+
+  /**
+   * Peaks for every channel over a sample range, one min/max pair per bucket
+   */
+  getPeaks(startSample: number, endSample: number, buckets: number): ChannelPeaks[] {
+    const result: ChannelPeaks[] = [];
+    const count = Math.max(0, Math.floor(buckets));
+    const samplesPerBucket = (endSample - startSample) / Math.max(1, count);
+    const level = this.selectLevel(samplesPerBucket);
+
+    for (let channel = 0; channel < this.numberOfChannels; channel++) {
+      const source = level.channels[channel];
+      const min = new Float32Array(count);
+      const max = new Float32Array(count);
+
+      for (let i = 0; i < count; i++) {
+        const from = Math.floor((startSample + i * samplesPerBucket) / level.samplesPerPeak);
+        const to = Math.max(
+          from + 1,
+          Math.floor((startSample + (i + 1) * samplesPerBucket) / level.samplesPerPeak)
+        );
+
+        let bucketMin = 0;
+        let bucketMax = 0;
+        for (let p = Math.max(0, from); p < Math.min(to, source.min.length); p++) {
+          if (source.min[p] < bucketMin) bucketMin = source.min[p];
+          if (source.max[p] > bucketMax) bucketMax = source.max[p];
+        }
+
+        min[i] = bucketMin;
+        max[i] = bucketMax;
+      }
+
+      result.push({ min, max });
+    }
+
+    return result;
+  }
+
+  /**
+   * Coarsest level that still resolves the requested bucket size
+   */
+  private selectLevel(samplesPerBucket: number): PeakLevel {
+    let selected = this.levels[0];
+    for (const level of this.levels) {
+      if (level.samplesPerPeak > samplesPerBucket) {
+        break;
+      }
+      selected = level;
+    }
+    return selected;
+  }
+
+  /**
+   * Finest level, computed directly from the samples
+   */
+  private buildBaseLevel(buffer: AudioBuffer, samplesPerPeak: number): PeakLevel {
+    const peakCount = Math.ceil(buffer.length / samplesPerPeak);
+    const channels: ChannelPeaks[] = [];
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      const min = new Float32Array(peakCount);
+      const max = new Float32Array(peakCount);
+
+      for (let p = 0; p < peakCount; p++) {
+        const end = Math.min(data.length, (p + 1) * samplesPerPeak);
+        let peakMin = 0;
+        let peakMax = 0;
+        for (let i = p * samplesPerPeak; i < end; i++) {
+          const sample = data[i];
+          if (sample < peakMin) peakMin = sample;
+          if (sample > peakMax) peakMax = sample;
+        }
+        min[p] = peakMin;
+        max[p] = peakMax;
+      }
+
+      channels.push({ min, max });
+    }
+
+    return { samplesPerPeak, channels };
+  }
+
+  /**
+   * Next level up, merging pairs of peaks
+   */
+  private halve(level: PeakLevel): PeakLevel {
+    const channels = level.channels.map(source => {
+      const length = Math.ceil(source.min.length / 2);
+      const min = new Float32Array(length);
+      const max = new Float32Array(length);
+
+      for (let i = 0; i < length; i++) {
+        const a = i * 2;
+        const b = Math.min(a + 1, source.min.length - 1);
+        min[i] = Math.min(source.min[a], source.min[b]);
+        max[i] = Math.max(source.max[a], source.max[b]);
+      }
+
+      return { min, max };
+    });
+
+    return { samplesPerPeak: level.samplesPerPeak * 2, channels };
+  }
+}
@@ -0,0 +1,32 @@
+import { CapturedChunk, extractTake } from './recording';
+
+function chunk(frame: number, ...channels: number[][]): CapturedChunk {
+  return { frame, channels: channels.map(samples => Float32Array.from(samples)) };
+}
+
+describe('extractTake', () => {
+  it('should drop the samples captured before the start frame', () => {
+    const take = extractTake([chunk(100, [1, 2, 3, 4]), chunk(104, [5, 6, 7, 8])], 102);
+
+    expect(take.length).toBe(1);
+    expect(Array.from(take[0])).toEqual([3, 4, 5, 6, 7, 8]);
+  });
+
+  it('should leave missing blocks silent', () => {
+    const take = extractTake([chunk(0, [1, 1]), chunk(4, [2, 2])], 0);
+
+    expect(Array.from(take[0])).toEqual([1, 1, 0, 0, 2, 2]);
+  });
+
+  it('should copy mono blocks into every channel', () => {
+    const take = extractTake([chunk(0, [1, 2], [3, 4]), chunk(2, [5, 6])], 0);
+
+    expect(Array.from(take[0])).toEqual([1, 2, 5, 6]);
+    expect(Array.from(take[1])).toEqual([3, 4, 5, 6]);
+  });
+
+  it('should be empty when nothing was captured after the start frame', () => {
+    expect(extractTake([], 0)).toEqual([]);
+    expect(extractTake([chunk(0, [1, 2])], 10)[0].length).toBe(0);
+  });
+});
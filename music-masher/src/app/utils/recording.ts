@@ -0,0 +1,33 @@
+/**
+ * A block of input samples and the AudioContext frame its first sample was captured at
+ */
+export interface CapturedChunk {
+  frame: number;
+  channels: Float32Array[];
+}
+
+/**
+ * Join captured blocks into one take starting at a context frame, dropping what came before.
+ * Gaps left by dropped blocks stay silent, and mono blocks fill every channel of the take.
+ */
+export function extractTake(chunks: CapturedChunk[], fromFrame: number): Float32Array<ArrayBuffer>[] {
+  const endFrame = chunks.reduce(
+    (end, chunk) => Math.max(end, chunk.frame + (chunk.channels[0]?.length ?? 0)),
+    fromFrame
+  );
+  const channelCount = chunks.reduce((count, chunk) => Math.max(count, chunk.channels.length), 0);
+  const take = Array.from({ length: channelCount }, () => new Float32Array(endFrame - fromFrame));
+
+  chunks.forEach(chunk => {
+    const offset = chunk.frame - fromFrame;
+    const skip = Math.max(0, -offset);
+    take.forEach((output, channel) => {
+      const input = chunk.channels[Math.min(channel, chunk.channels.length - 1)];
+      if (input && skip < input.length) {
+        output.set(input.subarray(skip), offset + skip);
+      }
+    });
+  });
+
+  return take;
+}
@@ -0,0 +1,31 @@
+/**
+ * Average every channel of a buffer into one signal, for analysis.
+ * Decimating by an integer factor averages each group of samples, a cheap low-pass
+ * that is good enough for onset and pitch-class analysis. At most maxSeconds are read.
+ */
+export function mixToMono(buffer: AudioBuffer, factor = 1, maxSeconds = Infinity): Float32Array {
+  const step = Math.max(1, Math.floor(factor));
+  const inputLength = Math.min(buffer.length, Math.floor(maxSeconds * buffer.sampleRate));
+  const output = new Float32Array(Math.floor(inputLength / step));
+  const scale = 1 / (step * buffer.numberOfChannels);
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < output.length; i++) {
+      let sum = 0;
+      for (let j = i * step; j < (i + 1) * step; j++) {
+        sum += data[j];
+      }
+      output[i] += sum * scale;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Integer factor that brings a sample rate down to roughly a target rate
+ */
+export function getDecimationFactor(sampleRate: number, targetRate: number): number {
+  return Math.max(1, Math.floor(sampleRate / targetRate));
+}
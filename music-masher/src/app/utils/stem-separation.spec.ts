@@ -0,0 +1,77 @@
+import { separateStems, separateStemsInSteps, StemName, STEM_NAMES } from './stem-separation';
+
+const SAMPLE_RATE = 16000;
+
+function sine(frequency: number, seconds = 1): Float32Array {
+  return Float32Array.from(
+    { length: SAMPLE_RATE * seconds },
+    (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+  );
+}
+
+function energy(channels: Float32Array[]): number {
+  return channels.reduce((sum, channel) => sum + channel.reduce((total, value) => total + value * value, 0), 0);
+}
+
+/** Share of the input's energy each stem ended up with */
+function getShares(channels: Float32Array[]): Record<StemName, number> {
+  const stems = separateStems(channels, SAMPLE_RATE);
+  const total = energy(channels);
+  return Object.fromEntries(STEM_NAMES.map(name => [name, energy(stems[name]) / total])) as Record<StemName, number>;
+}
+
+describe('separateStems', () => {
+  it('should put a centre-panned tone in the voice range into the vocals', () => {
+    const shares = getShares([sine(440), sine(440)]);
+
+    expect(shares.vocals).toBeGreaterThan(0.9);
+    expect(shares.other).toBeLessThan(0.05);
+  });
+
+  it('should leave a tone panned to one side out of the vocals', () => {
+    const shares = getShares([sine(440), new Float32Array(SAMPLE_RATE)]);
+
+    expect(shares.vocals).toBeLessThan(0.05);
+    expect(shares.other).toBeGreaterThan(0.9);
+  });
+
+  it('should put a low tone into the bass', () => {
+    expect(getShares([sine(60), sine(60)]).bass).toBeGreaterThan(0.9);
+  });
+
+  it('should put clicks into the drums', () => {
+    const clicks = new Float32Array(SAMPLE_RATE);
+    for (let i = 0; i < clicks.length; i += SAMPLE_RATE / 4) {
+      clicks[i] = 1;
+    }
+
+    expect(getShares([clicks, clicks]).drums).toBeGreaterThan(0.7);
+  });
+
+  it('should produce stems that add back up to the input', () => {
+    const input = [sine(440), sine(60).map((value, i) => value + (i % 4000 === 0 ? 1 : 0))];
+    const stems = separateStems(input, SAMPLE_RATE);
+
+    input.forEach((channel, c) => {
+      expect(stems.vocals[c].length).toBe(channel.length);
+      for (let i = 0; i < channel.length; i += 97) {
+        const sum = STEM_NAMES.reduce((total, name) => total + stems[name][c][i], 0);
+        expect(sum).toBeCloseTo(channel[i], 5);
+      }
+    });
+  });
+
+  it('should report increasing progress while stepping through a long input', () => {
+    const steps = separateStemsInSteps([sine(440, 4)], SAMPLE_RATE);
+    const progress: number[] = [];
+    let step = steps.next();
+    while (!step.done) {
+      progress.push(step.value);
+      step = steps.next();
+    }
+
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress.every((value, i) => value > (progress[i - 1] ?? 0) && value < 1)).toBeTrue();
+    expect(step.value.vocals[0].length).toBe(SAMPLE_RATE * 4);
+  });
+});
@@ -0,0 +1,276 @@
+import { createHannWindow, fft } from './fft';
+
+const FRAME_SIZE = 2048;
+const HOP_SIZE = FRAME_SIZE / 4;
+/** Frames and bins the harmonic/percussive medians run over; both odd */
+const MEDIAN_FRAMES = 9;
+const MEDIAN_BINS = 9;
+/** Raises the left/right similarity so only content panned close to the centre counts as vocals */
+const CENTER_SHARPNESS = 6;
+/** Range the vocal mask covers, fading in and out over each pair of edges, in Hz */
+const VOCAL_BAND: [number, number, number, number] = [100, 200, 6000, 12000];
+/** Range the bass mask covers */
+const BASS_BAND: [number, number, number, number] = [0, 0, 150, 300];
+/** Frames processed between progress reports, where a caller can yield to the UI */
+const FRAMES_PER_STEP = 64;
+
+export type StemName = 'vocals' | 'drums' | 'bass' | 'other';
+
+export const STEM_NAMES: StemName[] = ['vocals', 'drums', 'bass', 'other'];
+
+/** Channels of each stem, as long as the input */
+export type Stems = Record<StemName, Float32Array<ArrayBuffer>[]>;
+
+/** Stems synthesised from their own mask; "other" is what the input has left over */
+type MaskedStem = Exclude<StemName, 'other'>;
+
+const MASKED_STEMS: MaskedStem[] = ['vocals', 'drums', 'bass'];
+
+/**
+ * Short-time spectrum of every channel at one frame, plus their mean magnitude
+ */
+interface SpectralFrame {
+  real: Float32Array[];
+  imag: Float32Array[];
+  magnitude: Float32Array;
+}
+
+/**
+ * Split audio into vocals, drums, bass and everything else with soft spectral masks.
+ *
+ * Each STFT bin is shared out between the stems by three cues:
+ * - left/right similarity: vocals are mixed to the centre, so bins where both channels agree
+ *   in level and phase lean towards vocals (mono input counts as all centre)
+ * - harmonic/percussive balance, from median filtering the magnitudes across time (sustained
+ *   tones) and across frequency (broadband hits): percussive energy goes to drums
+ * - frequency: vocals come from the voice range, bass from the low end
+ *
+ * The masks add up to one, so the stems sum back to the input and stay sample-aligned with it.
+ * Frames are processed as they stream past, holding only the median window in memory.
+ */
+export function separateStems(channels: Float32Array[], sampleRate: number): Stems {
+  const steps = separateStemsInSteps(channels, sampleRate);
+  let step = steps.next();
+  while (!step.done) {
+    step = steps.next();
+  }
+  return step.value;
+}
+
+/**
+ * separateStems() as a generator that pauses every few frames with the fraction done,
+ * so a long song can be split without freezing the page
+ */
+export function* separateStemsInSteps(
+  channels: Float32Array[],
+  sampleRate: number
+): Generator<number, Stems, void> {
+  const length = channels[0]?.length ?? 0;
+  const stems = Object.fromEntries(
+    STEM_NAMES.map(name => [name, channels.map(() => new Float32Array(length))])
+  ) as Stems;
+  if (length === 0) {
+    return stems;
+  }
+
+  const window = createHannWindow(FRAME_SIZE);
+  const windowGain = window.reduce((sum, value) => sum + value * value, 0) / HOP_SIZE;
+  const bins = FRAME_SIZE / 2 + 1;
+  const vocalBand = getBandWeights(bins, sampleRate, VOCAL_BAND);
+  const bassBand = getBandWeights(bins, sampleRate, BASS_BAND);
+  const masks: Record<MaskedStem, Float32Array> = {
+    vocals: new Float32Array(bins),
+    drums: new Float32Array(bins),
+    bass: new Float32Array(bins)
+  };
+
+  // Frames start before the audio so every sample is covered by the same number of frames
+  const firstStart = HOP_SIZE - FRAME_SIZE;
+  const frameCount = Math.ceil((length - firstStart) / HOP_SIZE);
+  const halfFrames = (MEDIAN_FRAMES - 1) / 2;
+  const recent: SpectralFrame[] = []; // Frame t is held at t % MEDIAN_FRAMES
+
+  for (let t = 0; t < frameCount + halfFrames; t++) {
+    if (t > 0 && t % FRAMES_PER_STEP === 0) {
+      yield t / (frameCount + halfFrames);
+    }
+    if (t < frameCount) {
+      recent[t % MEDIAN_FRAMES] = analyzeFrame(channels, firstStart + t * HOP_SIZE, window);
+    }
+
+    // Masks for a frame need the frames either side of it
+    const current = t - halfFrames;
+    if (current < 0) {
+      continue;
+    }
+    const neighbours: SpectralFrame[] = [];
+    for (let n = Math.max(0, current - halfFrames); n <= Math.min(frameCount - 1, current + halfFrames); n++) {
+      neighbours.push(recent[n % MEDIAN_FRAMES]);
+    }
+
+    const frame = recent[current % MEDIAN_FRAMES];
+    computeMasks(frame, neighbours, vocalBand, bassBand, masks);
+    MASKED_STEMS.forEach(name => {
+      synthesizeFrame(frame, masks[name], window, windowGain, stems[name], firstStart + current * HOP_SIZE);
+    });
+  }
+
+  // Whatever the masks left over, taken directly from the input
+  channels.forEach((input, c) => {
+    const other = stems.other[c];
+    for (let i = 0; i < length; i++) {
+      other[i] = input[i] - stems.vocals[c][i] - stems.drums[c][i] - stems.bass[c][i];
+    }
+  });
+
+  return stems;
+}
+
+/**
+ * Windowed spectrum of every channel for a frame starting at a sample, zero outside the audio
+ */
+function analyzeFrame(channels: Float32Array[], start: number, window: Float32Array): SpectralFrame {
+  const bins = FRAME_SIZE / 2 + 1;
+  const magnitude = new Float32Array(bins);
+  const real: Float32Array[] = [];
+  const imag: Float32Array[] = [];
+
+  channels.forEach(input => {
+    const re = new Float32Array(FRAME_SIZE);
+    const im = new Float32Array(FRAME_SIZE);
+    for (let i = Math.max(0, -start); i < FRAME_SIZE && start + i < input.length; i++) {
+      re[i] = input[start + i] * window[i];
+    }
+    fft(re, im);
+
+    for (let k = 0; k < bins; k++) {
+      magnitude[k] += Math.hypot(re[k], im[k]) / channels.length;
+    }
+    real.push(re);
+    imag.push(im);
+  });
+
+  return { real, imag, magnitude };
+}
+
+/**
+ * Share each bin of a frame between the stems; what is left of each bin belongs to "other"
+ */
+function computeMasks(
+  frame: SpectralFrame,
+  neighbours: SpectralFrame[],
+  vocalBand: Float32Array,
+  bassBand: Float32Array,
+  masks: Record<MaskedStem, Float32Array>
+): void {
+  const bins = frame.magnitude.length;
+  const halfBins = (MEDIAN_BINS - 1) / 2;
+  const scratch = new Float32Array(Math.max(MEDIAN_FRAMES, MEDIAN_BINS));
+
+  for (let k = 0; k < bins; k++) {
+    neighbours.forEach((neighbour, n) => (scratch[n] = neighbour.magnitude[k]));
+    const harmonic = median(scratch, neighbours.length);
+
+    const low = Math.max(0, k - halfBins);
+    const high = Math.min(bins - 1, k + halfBins);
+    for (let b = low; b <= high; b++) {
+      scratch[b - low] = frame.magnitude[b];
+    }
+    const percussive = median(scratch, high - low + 1);
+
+    const harmonicPower = harmonic * harmonic;
+    const percussivePower = percussive * percussive;
+    const total = harmonicPower + percussivePower;
+    const harmonicShare = total > 0 ? harmonicPower / total : 0.5;
+
+    const vocals = Math.pow(getCenterSimilarity(frame, k), CENTER_SHARPNESS) * harmonicShare * vocalBand[k];
+    const rest = 1 - vocals;
+    masks.vocals[k] = vocals;
+    masks.drums[k] = rest * (1 - harmonicShare);
+    masks.bass[k] = rest * harmonicShare * bassBand[k];
+  }
+}
+
+/**
+ * How alike the first two channels are in a bin: 1 when identical (centre-panned), falling to 0
+ * for content in one channel only or out of phase between them. Mono counts as centre.
+ */
+function getCenterSimilarity(frame: SpectralFrame, k: number): number {
+  if (frame.real.length < 2) {
+    return 1;
+  }
+
+  const [leftRe, rightRe] = frame.real;
+  const [leftIm, rightIm] = frame.imag;
+  const power = leftRe[k] ** 2 + leftIm[k] ** 2 + rightRe[k] ** 2 + rightIm[k] ** 2;
+  if (power === 0) {
+    return 1;
+  }
+  const cross = leftRe[k] * rightRe[k] + leftIm[k] * rightIm[k];
+  return Math.max(0, (2 * cross) / power);
+}
+
+/**
+ * Apply a mask to a frame's spectra and overlap-add the result into each output channel
+ */
+function synthesizeFrame(
+  frame: SpectralFrame,
+  mask: Float32Array,
+  window: Float32Array,
+  windowGain: number,
+  outputs: Float32Array[],
+  start: number
+): void {
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+
+  outputs.forEach((output, c) => {
+    // The mask is mirrored onto the negative frequencies so the result stays real
+    for (let k = 0; k < FRAME_SIZE; k++) {
+      const gain = mask[k <= FRAME_SIZE / 2 ? k : FRAME_SIZE - k];
+      re[k] = frame.real[c][k] * gain;
+      im[k] = frame.imag[c][k] * gain;
+    }
+    fft(re, im, true);
+
+    for (let i = Math.max(0, -start); i < FRAME_SIZE && start + i < output.length; i++) {
+      output[start + i] += (re[i] * window[i]) / windowGain;
+    }
+  });
+}
+
+/**
+ * Weight per bin rising from 0 to 1 between the first two frequencies and falling back
+ * to 0 between the last two
+ */
+function getBandWeights(
+  bins: number,
+  sampleRate: number,
+  [riseStart, riseEnd, fallStart, fallEnd]: [number, number, number, number]
+): Float32Array {
+  const weights = new Float32Array(bins);
+  for (let k = 0; k < bins; k++) {
+    const frequency = (k * sampleRate) / FRAME_SIZE;
+    const rise = riseEnd > riseStart ? (frequency - riseStart) / (riseEnd - riseStart) : 1;
+    const fall = (fallEnd - frequency) / (fallEnd - fallStart);
+    weights[k] = Math.max(0, Math.min(1, rise, fall));
+  }
+  return weights;
+}
+
+/**
+ * Median of the first count values, sorting them in place.
+ * Insertion sort, as the windows are only a few values long.
+ */
+function median(values: Float32Array, count: number): number {
+  for (let i = 1; i < count; i++) {
+    const value = values[i];
+    let j = i - 1;
+    while (j >= 0 && values[j] > value) {
+      values[j + 1] = values[j];
+      j--;
+    }
+    values[j + 1] = value;
+  }
+  return values[count >> 1];
+}
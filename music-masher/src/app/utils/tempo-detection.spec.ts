@@ -0,0 +1,40 @@
+import { detectTempo } from './tempo-detection';
+
+describe('detectTempo', () => {
+  const sampleRate = 22050;
+
+  /** Clicks on every beat, with a low thump on the first beat of each bar */
+  function createClickTrack(bpm: number, firstBeat: number, seconds: number): AudioBuffer {
+    const buffer = new AudioBuffer({ length: sampleRate * seconds, numberOfChannels: 1, sampleRate });
+    const data = buffer.getChannelData(0);
+    const beat = 60 / bpm;
+
+    for (let n = 0, time = firstBeat; time < seconds; n++, time += beat) {
+      const start = Math.round(time * sampleRate);
+      const frequency = n % 4 === 0 ? 60 : 3000;
+      for (let i = 0; i < 1000 && start + i < data.length; i++) {
+        data[start + i] += Math.exp(-i / 150) * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+      }
+    }
+
+    return buffer;
+  }
+
+  it('should find the tempo and beat phase of a click track', () => {
+    const estimate = detectTempo(createClickTrack(128, 0.3, 20))!;
+
+    expect(estimate.bpm).toBeCloseTo(128, 0);
+    expect(estimate.firstBeat).toBeCloseTo(0.3, 1);
+    expect(estimate.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('should put the downbeat on the accented beat', () => {
+    const estimate = detectTempo(createClickTrack(100, 0.2, 20))!;
+
+    expect(estimate.downbeat).toBeCloseTo(0.2, 1);
+  });
+
+  it('should not guess for audio that is too short', () => {
+    expect(detectTempo(createClickTrack(120, 0, 2))).toBeNull();
+  });
+});
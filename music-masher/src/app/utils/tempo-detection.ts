@@ -0,0 +1,286 @@
+import { createHannWindow, fft } from './fft';
+import { getDecimationFactor, mixToMono } from './signal';
+
+export interface TempoEstimate {
+  bpm: number;
+  firstBeat: number; // Seconds into the audio of the first detected beat
+  downbeat: number; // Seconds into the audio of the first beat of a bar
+  confidence: number; // 0 to 1
+}
+
+/** Rate the signal is decimated to before analysis; onsets need little bandwidth */
+const ANALYSIS_RATE = 11025;
+const FRAME_SIZE = 512;
+const HOP_SIZE = 128;
+/** Only the opening of long files is analysed */
+const MAX_ANALYSIS_SECONDS = 90;
+const MIN_ANALYSIS_SECONDS = 4;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+/** Tempos are weighted towards this, one octave either side counting as one deviation */
+const PREFERRED_BPM = 120;
+/** How many periods out the tempo is measured for precision */
+const REFINE_PERIODS = 4;
+/** Window of the moving average removed from the onset envelope */
+const DETREND_SECONDS = 0.5;
+/** Kick drums and bass mostly sit below this, and mark the downbeat */
+const LOW_BAND_HZ = 200;
+
+export interface OnsetEnvelope {
+  full: Float32Array;
+  low: Float32Array;
+  frameRate: number;
+  frameOffset: number; // Seconds from a frame's index to the centre of its window
+}
+
+/**
+ * Estimate a recording's tempo, beat phase and first downbeat.
+ *
+ * Onsets come from the spectral flux of the log magnitude spectrum. The tempo is the
+ * strongest autocorrelation lag of that envelope, the beat phase is the offset whose
+ * beat grid collects the most onset energy, and the downbeat is the beat of the bar
+ * with the strongest low-frequency onsets. Returns null for audio too short or too
+ * quiet to analyse.
+ */
+export function detectTempo(buffer: AudioBuffer, beatsPerBar = 4): TempoEstimate | null {
+  if (buffer.duration < MIN_ANALYSIS_SECONDS) {
+    return null;
+  }
+
+  const factor = getDecimationFactor(buffer.sampleRate, ANALYSIS_RATE);
+  const samples = mixToMono(buffer, factor, MAX_ANALYSIS_SECONDS);
+  const envelope = computeOnsetEnvelope(samples, buffer.sampleRate / factor);
+
+  const period = findBeatPeriod(envelope.full, envelope.frameRate);
+  if (!period) {
+    return null;
+  }
+
+  const phase = findBeatPhase(envelope.full, period.frames);
+  const downbeatPhase = findDownbeatPhase(envelope.low, period.frames, phase, beatsPerBar);
+  const toSeconds = (frame: number) => frame / envelope.frameRate + envelope.frameOffset;
+
+  return {
+    bpm: Math.round((60 * envelope.frameRate * 10) / period.frames) / 10,
+    firstBeat: toSeconds(phase),
+    downbeat: toSeconds(downbeatPhase),
+    confidence: period.confidence
+  };
+}
+
+/**
+ * Half-wave rectified spectral flux per frame, over the full band and the low band
+ */
+export function computeOnsetEnvelope(samples: Float32Array, sampleRate: number): OnsetEnvelope {
+  const frameCount = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const bins = FRAME_SIZE / 2;
+  const lowBins = Math.max(1, Math.round((LOW_BAND_HZ * FRAME_SIZE) / sampleRate));
+  const window = createHannWindow(FRAME_SIZE);
+  const real = new Float32Array(FRAME_SIZE);
+  const imag = new Float32Array(FRAME_SIZE);
+  let previous = new Float32Array(bins);
+  let current = new Float32Array(bins);
+
+  const full = new Float32Array(frameCount);
+  const low = new Float32Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      real[i] = samples[offset + i] * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    let fullFlux = 0;
+    let lowFlux = 0;
+    for (let k = 0; k < bins; k++) {
+      // Log compression keeps quiet onsets from being drowned out by loud sustained notes
+      current[k] = Math.log1p(100 * Math.hypot(real[k], imag[k]));
+      const rise = current[k] - previous[k];
+      if (rise > 0) {
+        fullFlux += rise;
+        if (k < lowBins) {
+          lowFlux += rise;
+        }
+      }
+    }
+
+    // The first frame has nothing to rise from
+    if (frame > 0) {
+      full[frame] = fullFlux;
+      low[frame] = lowFlux;
+    }
+    [previous, current] = [current, previous];
+  }
+
+  const frameRate = sampleRate / HOP_SIZE;
+  const detrendFrames = Math.max(1, Math.round(DETREND_SECONDS * frameRate));
+  return {
+    full: detrend(full, detrendFrames),
+    low: detrend(low, detrendFrames),
+    frameRate,
+    frameOffset: FRAME_SIZE / 2 / sampleRate
+  };
+}
+
+/**
+ * Subtract a centred moving average and keep only what rises above it
+ */
+function detrend(envelope: Float32Array, windowFrames: number): Float32Array {
+  const result = new Float32Array(envelope.length);
+  const half = Math.floor(windowFrames / 2);
+  let sum = 0;
+  let from = 0;
+  let to = 0;
+
+  for (let i = 0; i < envelope.length; i++) {
+    while (to < Math.min(envelope.length, i + half + 1)) {
+      sum += envelope[to++];
+    }
+    while (from < i - half) {
+      sum -= envelope[from++];
+    }
+    result[i] = Math.max(0, envelope[i] - sum / (to - from));
+  }
+
+  return result;
+}
+
+/**
+ * Beat period in (fractional) frames from the weighted autocorrelation of the envelope
+ */
+function findBeatPeriod(
+  envelope: Float32Array,
+  frameRate: number
+): { frames: number; confidence: number } | null {
+  const minLag = Math.floor((60 * frameRate) / MAX_BPM);
+  const maxLag = Math.ceil((60 * frameRate) / MIN_BPM);
+  if (envelope.length < maxLag * 2) {
+    return null;
+  }
+
+  const energy = autocorrelate(envelope, 0);
+  if (energy <= 0) {
+    return null;
+  }
+
+  let bestLag = minLag;
+  let bestScore = -1;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * frameRate) / lag;
+    const octaves = Math.log2(bpm / PREFERRED_BPM);
+    const score = autocorrelate(envelope, lag) * Math.exp(-0.5 * octaves * octaves);
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  return {
+    frames: refinePeriod(envelope, bestLag),
+    confidence: Math.max(0, Math.min(1, autocorrelate(envelope, bestLag) / energy))
+  };
+}
+
+/**
+ * Sharpen a period to sub-frame precision by locating the autocorrelation peak a few
+ * periods out, where one frame of error is spread over several beats
+ */
+function refinePeriod(envelope: Float32Array, lag: number): number {
+  let multiple = REFINE_PERIODS;
+  while (multiple > 1 && (lag + 1) * multiple + 1 >= envelope.length / 2) {
+    multiple--;
+  }
+
+  let bestLag = lag * multiple;
+  for (let candidate = bestLag - multiple; candidate <= lag * multiple + multiple; candidate++) {
+    if (autocorrelate(envelope, candidate) > autocorrelate(envelope, bestLag)) {
+      bestLag = candidate;
+    }
+  }
+
+  // Parabolic interpolation between neighbouring lags
+  const before = autocorrelate(envelope, bestLag - 1);
+  const peak = autocorrelate(envelope, bestLag);
+  const after = autocorrelate(envelope, bestLag + 1);
+  const curvature = before - 2 * peak + after;
+  const shift = curvature < 0 ? (0.5 * (before - after)) / curvature : 0;
+
+  return (bestLag + Math.max(-0.5, Math.min(0.5, shift))) / multiple;
+}
+
+/**
+ * Mean product of the envelope with itself shifted by a lag
+ */
+function autocorrelate(envelope: Float32Array, lag: number): number {
+  let sum = 0;
+  for (let i = 0; i + lag < envelope.length; i++) {
+    sum += envelope[i] * envelope[i + lag];
+  }
+  return sum / (envelope.length - lag);
+}
+
+/**
+ * Frame offset, within one period, of the beat grid that collects the most onset energy
+ */
+function findBeatPhase(envelope: Float32Array, period: number): number {
+  let bestPhase = 0;
+  let bestScore = -1;
+
+  for (let phase = 0; phase < period; phase++) {
+    const score = sumAlongGrid(envelope, phase, period);
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  return bestPhase;
+}
+
+/**
+ * Frame of the first beat of a bar: the beat position whose bar-spaced grid has the
+ * strongest low-frequency onsets
+ */
+function findDownbeatPhase(
+  lowEnvelope: Float32Array,
+  period: number,
+  beatPhase: number,
+  beatsPerBar: number
+): number {
+  let bestPhase = beatPhase;
+  let bestScore = -1;
+
+  for (let beat = 0; beat < beatsPerBar; beat++) {
+    const phase = beatPhase + beat * period;
+    const score = sumAlongGrid(lowEnvelope, phase, period * beatsPerBar);
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  return bestPhase;
+}
+
+/**
+ * Average envelope value at every grid line from a phase, tolerating one frame of drift
+ */
+function sumAlongGrid(envelope: Float32Array, phase: number, spacing: number): number {
+  let sum = 0;
+  let count = 0;
+
+  for (let position = phase; position < envelope.length; position += spacing) {
+    const frame = Math.round(position);
+    sum += Math.max(
+      envelope[frame - 1] ?? 0,
+      envelope[frame],
+      envelope[frame + 1] ?? 0
+    );
+    count++;
+  }
+
+  return count > 0 ? sum / count : 0;
+}
@@ -0,0 +1,46 @@
+import { stretchChannels } from './time-stretch';
+
+describe('stretchChannels', () => {
+  const sampleRate = 8000;
+
+  function createTone(frequency: number, seconds: number): Float32Array {
+    return Float32Array.from(
+      { length: sampleRate * seconds },
+      (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+    );
+  }
+
+  function countZeroCrossings(data: Float32Array, from: number, length: number): number {
+    let crossings = 0;
+    for (let i = from; i < from + length; i++) {
+      if (data[i] >= 0 !== data[i + 1] >= 0) {
+        crossings++;
+      }
+    }
+    return crossings;
+  }
+
+  it('should scale the length by the ratio', () => {
+    const [slower] = stretchChannels([createTone(220, 2)], sampleRate, 1.5);
+    const [faster] = stretchChannels([createTone(220, 2)], sampleRate, 0.75);
+
+    expect(slower.length).toBe(sampleRate * 3);
+    expect(faster.length).toBe(sampleRate * 1.5);
+  });
+
+  it('should keep the pitch', () => {
+    const tone = createTone(220, 2);
+    const [stretched] = stretchChannels([tone], sampleRate, 1.25);
+
+    // One second from the middle holds the same number of cycles as the original
+    expect(countZeroCrossings(stretched, sampleRate, sampleRate))
+      .toBeCloseTo(countZeroCrossings(tone, sampleRate / 2, sampleRate), -1);
+  });
+
+  it('should stretch every channel alike', () => {
+    const left = createTone(220, 1);
+    const [stretchedLeft, stretchedRight] = stretchChannels([left, Float32Array.from(left)], sampleRate, 1.2);
+
+    expect(stretchedRight).toEqual(stretchedLeft);
+  });
+});
@@ -0,0 +1,146 @@
+import { createHannWindow } from './fft';
+
+/** Length of each grain; long enough to hold a couple of periods of low notes */
+const FRAME_SECONDS = 0.04;
+/** How far from its nominal position a grain may be taken to line up with the previous one */
+const SEARCH_SECONDS = 0.012;
+/** The alignment search runs on a decimated signal, then is refined at full rate */
+const SEARCH_DECIMATION = 4;
+
+/**
+ * Change the length of audio without changing its pitch, using WSOLA
+ * (waveform-similarity overlap-add).
+ *
+ * Output grains are laid down at a fixed hop; each is read from around where the
+ * stretch ratio says it belongs in the input, nudged to the offset that best continues
+ * the waveform of the previous grain so the overlap adds up without phasing. All
+ * channels share the offsets chosen on their mono mix, keeping the stereo image intact.
+ *
+ * A ratio above 1 lengthens (slows) the audio, below 1 shortens (speeds) it.
+ */
+export function stretchChannels(
+  channels: Float32Array[],
+  sampleRate: number,
+  ratio: number
+): Float32Array<ArrayBuffer>[] {
+  const inputLength = channels[0]?.length ?? 0;
+  const outputLength = Math.round(inputLength * ratio);
+  if (ratio === 1 || inputLength === 0) {
+    return channels.map(channel => Float32Array.from(channel));
+  }
+
+  const frameSize = 2 * Math.round((FRAME_SECONDS * sampleRate) / 2);
+  const synthesisHop = frameSize / 2;
+  const analysisHop = synthesisHop / ratio;
+  const searchRadius = Math.round(SEARCH_SECONDS * sampleRate);
+  const window = createHannWindow(frameSize);
+
+  const mono = mixChannels(channels);
+  const decimated = decimate(mono, SEARCH_DECIMATION);
+  const outputs = channels.map(() => new Float32Array(outputLength + frameSize));
+  const lastStart = Math.max(0, inputLength - frameSize);
+
+  let previous = 0;
+  for (let frame = 0; frame * synthesisHop < outputLength; frame++) {
+    const nominal = Math.min(lastStart, Math.round(frame * analysisHop));
+    const start = frame === 0
+      ? 0
+      : findBestOffset(mono, decimated, Math.min(lastStart, previous + synthesisHop), nominal, searchRadius, frameSize / 2, lastStart);
+
+    const outputStart = frame * synthesisHop;
+    for (let c = 0; c < channels.length; c++) {
+      const input = channels[c];
+      const output = outputs[c];
+      for (let i = 0; i < frameSize && start + i < inputLength; i++) {
+        // The first grain has nothing to overlap, so its head is not faded in
+        const weight = frame === 0 && i < synthesisHop ? 1 : window[i];
+        output[outputStart + i] += input[start + i] * weight;
+      }
+    }
+
+    previous = start;
+  }
+
+  return outputs.map(output => output.subarray(0, outputLength));
+}
+
+/**
+ * Input position near the nominal one whose waveform best matches the natural
+ * continuation of the previous grain
+ */
+function findBestOffset(
+  mono: Float32Array,
+  decimated: Float32Array,
+  natural: number,
+  nominal: number,
+  radius: number,
+  overlap: number,
+  lastStart: number
+): number {
+  const from = Math.max(0, nominal - radius);
+  const to = Math.min(lastStart, nominal + radius);
+
+  // Coarse search on the decimated signal
+  let best = nominal;
+  let bestScore = -Infinity;
+  const coarseOverlap = Math.floor(overlap / SEARCH_DECIMATION);
+  const coarseNatural = Math.floor(natural / SEARCH_DECIMATION);
+  for (let candidate = Math.ceil(from / SEARCH_DECIMATION); candidate * SEARCH_DECIMATION <= to; candidate++) {
+    const score = correlate(decimated, coarseNatural, candidate, coarseOverlap);
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate * SEARCH_DECIMATION;
+    }
+  }
+
+  // Refine around the coarse winner at full rate
+  const coarse = best;
+  bestScore = -Infinity;
+  for (
+    let candidate = Math.max(from, coarse - SEARCH_DECIMATION + 1);
+    candidate <= Math.min(to, coarse + SEARCH_DECIMATION - 1);
+    candidate++
+  ) {
+    const score = correlate(mono, natural, candidate, overlap);
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Cross-correlation of two stretches of the same signal
+ */
+function correlate(signal: Float32Array, a: number, b: number, length: number): number {
+  let sum = 0;
+  const count = Math.min(length, signal.length - Math.max(a, b));
+  for (let i = 0; i < count; i++) {
+    sum += signal[a + i] * signal[b + i];
+  }
+  return sum;
+}
+
+function mixChannels(channels: Float32Array[]): Float32Array {
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] += channel[i] / channels.length;
+    }
+  }
+  return mono;
+}
+
+function decimate(signal: Float32Array, factor: number): Float32Array {
+  const result = new Float32Array(Math.floor(signal.length / factor));
+  for (let i = 0; i < result.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) {
+      sum += signal[i * factor + j];
+    }
+    result[i] = sum / factor;
+  }
+  return result;
+}
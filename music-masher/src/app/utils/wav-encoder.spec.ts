@@ -0,0 +1,49 @@
+import { encodeWav } from './wav-encoder';
+
+describe('encodeWav', () => {
+  function createBuffer(samples: number[], channels = 1): AudioBuffer {
+    const buffer = new AudioBuffer({ length: samples.length, numberOfChannels: channels, sampleRate: 44100 });
+    for (let channel = 0; channel < channels; channel++) {
+      buffer.copyToChannel(Float32Array.from(samples), channel);
+    }
+    return buffer;
+  }
+
+  async function readView(blob: Blob): Promise<DataView> {
+    return new DataView(await blob.arrayBuffer());
+  }
+
+  it('should write a 16-bit PCM header', async () => {
+    const view = await readView(encodeWav(createBuffer([0, 0.5, -0.5], 2), 16));
+
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(3 * 2 * 2);
+  });
+
+  it('should clamp and scale 16-bit samples', async () => {
+    const view = await readView(encodeWav(createBuffer([1, -1, 2]), 16));
+
+    expect(view.getInt16(44, true)).toBe(0x7fff);
+    expect(view.getInt16(46, true)).toBe(-0x8000);
+    expect(view.getInt16(48, true)).toBe(0x7fff);
+  });
+
+  it('should write 24-bit samples as three bytes', async () => {
+    const view = await readView(encodeWav(createBuffer([1, -1]), 24));
+
+    expect(view.getUint32(40, true)).toBe(6);
+    expect(view.getUint8(44)).toBe(0xff);
+    expect(view.getUint8(46)).toBe(0x7f);
+    expect(view.getUint8(49)).toBe(0x80);
+  });
+
+  it('should write 32-bit samples as IEEE float', async () => {
+    const view = await readView(encodeWav(createBuffer([0.25]), 32));
+
+    expect(view.getUint16(20, true)).toBe(3);
+    expect(view.getFloat32(44, true)).toBe(0.25);
+  });
+});
@@ -0,0 +1,77 @@
+export type WavBitDepth = 16 | 24 | 32;
+
+const WAV_HEADER_SIZE = 44;
+const FORMAT_PCM = 1;
+const FORMAT_IEEE_FLOAT = 3;
+
+/**
+ * Encode an AudioBuffer as a RIFF/WAVE file.
+ * 16 and 24 bit produce integer PCM, 32 bit produces IEEE float.
+ */
+export function encodeWav(buffer: AudioBuffer, bitDepth: WavBitDepth = 16): Blob {
+  const channels = buffer.numberOfChannels;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channels * bytesPerSample;
+  const dataSize = buffer.length * blockAlign;
+  const view = new DataView(new ArrayBuffer(WAV_HEADER_SIZE + dataSize));
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+
+  // fmt chunk
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, bitDepth === 32 ? FORMAT_IEEE_FLOAT : FORMAT_PCM, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  // data chunk
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channelData: Float32Array[] = [];
+  for (let channel = 0; channel < channels; channel++) {
+    channelData.push(buffer.getChannelData(channel));
+  }
+
+  // Interleave channels frame by frame
+  let offset = WAV_HEADER_SIZE;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      writeSample(view, offset, channelData[channel][i], bitDepth);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
+
+function writeSample(view: DataView, offset: number, value: number, bitDepth: WavBitDepth): void {
+  if (bitDepth === 32) {
+    view.setFloat32(offset, value, true);
+    return;
+  }
+
+  const sample = Math.max(-1, Math.min(1, value));
+
+  if (bitDepth === 16) {
+    view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    return;
+  }
+
+  // 24 bit little-endian, written as three bytes
+  const int = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7fffff);
+  view.setUint8(offset, int & 0xff);
+  view.setUint8(offset + 1, (int >> 8) & 0xff);
+  view.setUint8(offset + 2, (int >> 16) & 0xff);
+}
+
+function writeString(view: DataView, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+}
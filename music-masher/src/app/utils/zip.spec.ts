@@ -0,0 +1,25 @@
+import { crc32, createZip, readZip } from './zip';
+
+describe('zip', () => {
+  const encoder = new TextEncoder();
+
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should read back the entries it writes', async () => {
+    const blob = createZip([
+      { name: 'project.json', data: encoder.encode('{"version":1}') },
+      { name: 'audio/track_1/loop.wav', data: new Uint8Array([1, 2, 3, 4]) }
+    ]);
+
+    const entries = readZip(await blob.arrayBuffer());
+
+    expect(new TextDecoder().decode(entries.get('project.json'))).toBe('{"version":1}');
+    expect(Array.from(entries.get('audio/track_1/loop.wav') ?? [])).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should reject data that is not a ZIP archive', () => {
+    expect(() => readZip(new ArrayBuffer(64))).toThrowError('Not a ZIP archive');
+  });
+});
@@ -0,0 +1,139 @@
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array<ArrayBuffer>;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const METHOD_STORE = 0;
+const FLAG_UTF8 = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build an uncompressed (stored) ZIP archive.
+ * Audio is already compressed, so deflating it would cost time for little gain.
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const centralHeaders: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE));
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, FLAG_UTF8, true);
+    local.setUint16(8, METHOD_STORE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new DataView(new ArrayBuffer(CENTRAL_HEADER_SIZE + name.length));
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, FLAG_UTF8, true);
+    central.setUint16(10, METHOD_STORE, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, entry.data.length, true);
+    central.setUint32(24, entry.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    new Uint8Array(central.buffer).set(name, CENTRAL_HEADER_SIZE);
+
+    parts.push(local.buffer, name, entry.data);
+    centralHeaders.push(new Uint8Array(central.buffer));
+    offset += LOCAL_HEADER_SIZE + name.length + entry.data.length;
+  });
+
+  const centralSize = centralHeaders.reduce((size, header) => size + header.length, 0);
+  const end = new DataView(new ArrayBuffer(END_OF_CENTRAL_DIRECTORY_SIZE));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralHeaders, end.buffer], { type: 'application/zip' });
+}
+
+/**
+ * Read the entries of a stored ZIP archive
+ */
+export function readZip(buffer: ArrayBuffer): Map<string, Uint8Array<ArrayBuffer>> {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Uint8Array<ArrayBuffer>>();
+
+  // The end-of-central-directory record sits at the end, possibly followed by a comment
+  let endOffset = buffer.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE;
+  while (endOffset >= 0 && view.getUint32(endOffset, true) !== END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+    endOffset--;
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + CENTRAL_HEADER_SIZE, nameLength));
+
+    if (method !== METHOD_STORE) {
+      throw new Error(`Unsupported compression for ${name}`);
+    }
+
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + LOCAL_HEADER_SIZE + localNameLength + localExtraLength;
+    entries.set(name, new Uint8Array(buffer, dataStart, size));
+
+    offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}